@@ -0,0 +1,1317 @@
+// ================================================
+// TENANT RESOLUTION (HOST, SUBDOMAIN, PATH)
+// ================================================
+// api-gateway/src/tenantResolution.ts
+
+import { ConvexHttpClient } from 'convex/browser';
+import { Request } from 'express';
+import { api } from '../../control-plane/convex/_generated/api';
+import { getCachedTenant, setCachedTenant } from './tenantCache';
+import { OrganizationRoute } from './types';
+
+export type TenantSource = 'host' | 'subdomain' | 'path';
+
+// Order in which tenant sources are consulted, e.g. "host,subdomain,path"
+const TENANT_RESOLUTION_ORDER = (process.env.TENANT_RESOLUTION_ORDER || 'host,subdomain,path')
+  .split(',')
+  .map(s => s.trim())
+  .filter((s): s is TenantSource => ['host', 'subdomain', 'path'].includes(s));
+
+// Platform domain whose subdomains are tenant slugs (e.g. "ourapp.com")
+const TENANT_BASE_DOMAIN = (process.env.TENANT_BASE_DOMAIN || '').toLowerCase();
+
+// Hostnames that belong to the gateway itself, never to a tenant
+const GATEWAY_HOSTNAMES = (process.env.GATEWAY_HOSTNAMES || 'localhost')
+  .split(',')
+  .map(h => h.trim().toLowerCase());
+
+// Subdomains of the platform domain that are not tenants
+const RESERVED_SUBDOMAINS = ['api', 'www', 'app', 'admin'];
+
+type TenantCandidate =
+  | { source: 'host'; hostname: string }
+  | { source: 'subdomain' | 'path'; domain: string };
+
+function isPlatformHostname(hostname: string) {
+  return !!TENANT_BASE_DOMAIN &&
+    (hostname === TENANT_BASE_DOMAIN || hostname.endsWith(`.${TENANT_BASE_DOMAIN}`));
+}
+
+// Extract a candidate from one source, or null when it does not apply
+function candidateFrom(req: Request, source: TenantSource): TenantCandidate | null {
+  const hostname = (req.hostname || '').toLowerCase();
+  
+  switch (source) {
+    case 'host':
+      if (!hostname || GATEWAY_HOSTNAMES.includes(hostname) || isPlatformHostname(hostname)) {
+        return null;
+      }
+      return { source, hostname };
+      
+    case 'subdomain': {
+      if (!isPlatformHostname(hostname) || hostname === TENANT_BASE_DOMAIN) return null;
+      
+      const label = hostname.slice(0, -(TENANT_BASE_DOMAIN.length + 1));
+      if (label.includes('.') || RESERVED_SUBDOMAINS.includes(label)) return null;
+      return { source, domain: label };
+    }
+      
+    case 'path':
+      return req.params.domain ? { source, domain: req.params.domain } : null;
+  }
+}
+
+type TenantLookup =
+  | { organization: OrganizationRoute }
+  | { status: number; code: string; error: string };
+
+// Look a candidate up in the control plane
+async function lookupCandidate(
+  candidate: TenantCandidate,
+  controlPlane: ConvexHttpClient
+): Promise<TenantLookup> {
+  if (candidate.source === 'host') {
+    const mapping = await controlPlane.query(api.domains.getOrganizationByHostname, {
+      hostname: candidate.hostname,
+    });
+    
+    if (!mapping) {
+      return { status: 404, code: 'organization_not_found', error: 'Organization not found' };
+    }
+    if (mapping.verificationStatus !== 'verified') {
+      return { status: 421, code: 'domain_not_verified', error: 'Domain not verified' };
+    }
+    if (!mapping.organization) {
+      return { status: 404, code: 'organization_not_found', error: 'Organization not found' };
+    }
+    return { organization: mapping.organization };
+  }
+  
+  const org = await controlPlane.query(api.organizations.getOrganizationByDomain, {
+    domain: candidate.domain,
+  });
+  
+  if (!org) {
+    return { status: 404, code: 'organization_not_found', error: 'Organization not found' };
+  }
+  return { organization: org };
+}
+
+// Resolve the organization for a request. The first source in the configured
+// order that yields a candidate decides; later sources are not consulted.
+export async function resolveTenant(req: Request, controlPlane: ConvexHttpClient) {
+  for (const source of TENANT_RESOLUTION_ORDER) {
+    const candidate = candidateFrom(req, source);
+    if (!candidate) continue;
+    
+    const cacheKey = candidate.source === 'host' ?
+      `host:${candidate.hostname}` :
+      `domain:${candidate.domain}`;
+    
+    let lookup = getCachedTenant<TenantLookup>(cacheKey);
+    if (!lookup) {
+      lookup = await lookupCandidate(candidate, controlPlane);
+      setCachedTenant(
+        cacheKey,
+        lookup,
+        'organization' in lookup ? lookup.organization._id : undefined
+      );
+    }
+    
+    if ('error' in lookup) return lookup;
+    return { source: candidate.source, organization: lookup.organization };
+  }
+  
+  return { status: 400, code: 'organization_required', error: 'Organization could not be determined from request' };
+}
+
+// ================================================
+// TENANT RESOLUTION CACHE
+// ================================================
+// api-gateway/src/tenantCache.ts
+
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '../../control-plane/convex/_generated/api';
+
+const TENANT_CACHE_TTL_MS = 60 * 1000; // 1 minute
+const NEGATIVE_CACHE_TTL_MS = 10 * 1000; // Unknown/unverified tenants
+const TENANT_CACHE_MAX_ENTRIES = 10000;
+const INVALIDATION_POLL_MS = 5 * 1000;
+
+interface CacheEntry<T> {
+  value: T;
+  organizationId?: string; // Unset for negative entries
+  expiresAt: number;
+}
+
+const entries = new Map<string, CacheEntry<unknown>>();
+const metrics = { hits: 0, misses: 0, negativeHits: 0, invalidations: 0 };
+
+export function getCachedTenant<T>(key: string): T | undefined {
+  const entry = entries.get(key);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    if (entry) entries.delete(key);
+    metrics.misses++;
+    return undefined;
+  }
+  
+  if (entry.organizationId) metrics.hits++;
+  else metrics.negativeHits++;
+  
+  return entry.value as T;
+}
+
+export function setCachedTenant<T>(key: string, value: T, organizationId?: string) {
+  if (entries.size >= TENANT_CACHE_MAX_ENTRIES) {
+    // Drop the oldest entry (Map iterates in insertion order)
+    entries.delete(entries.keys().next().value!);
+  }
+  
+  entries.set(key, {
+    value,
+    organizationId,
+    expiresAt: Date.now() + (organizationId ? TENANT_CACHE_TTL_MS : NEGATIVE_CACHE_TTL_MS),
+  });
+}
+
+// Drop every cached resolution (host, subdomain and path) for an organization
+export function invalidateTenant(organizationId: string) {
+  for (const [key, entry] of entries) {
+    if (entry.organizationId === organizationId) {
+      entries.delete(key);
+      metrics.invalidations++;
+    }
+  }
+}
+
+export function clearTenantCache() {
+  metrics.invalidations += entries.size;
+  entries.clear();
+}
+
+export function getTenantCacheMetrics() {
+  return { ...metrics, size: entries.size };
+}
+
+// Poll the control plane for organizations whose status, project URL or
+// domains changed and evict them
+export function startTenantCacheInvalidation(controlPlane: ConvexHttpClient) {
+  let since = Date.now();
+  
+  const timer = setInterval(async () => {
+    try {
+      const { changes, cursor } = await controlPlane.query(
+        api.lifecycle.listOrganizationChangesSince,
+        { since, secret: process.env.CONTROL_PLANE_SECRET! }
+      );
+      for (const change of changes) {
+        invalidateTenant(change.organizationId);
+      }
+      since = cursor;
+    } catch (error) {
+      // Entries still expire by TTL; flush everything to be safe
+      console.error('Tenant cache invalidation poll failed:', error);
+      clearTenantCache();
+    }
+  }, INVALIDATION_POLL_MS);
+  
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+// ================================================
+// CLIENT CONNECTION POOL (LRU)
+// ================================================
+// api-gateway/src/connectionPool.ts
+
+import { ConvexHttpClient } from 'convex/browser';
+
+const MAX_CONNECTIONS = parseInt(process.env.GATEWAY_MAX_CONNECTIONS || '500');
+const CONNECTION_IDLE_MS = 10 * 60 * 1000; // 10 minutes
+
+interface PooledConnection {
+  client: ConvexHttpClient;
+  lastUsedAt: number;
+}
+
+// Map iteration order doubles as LRU order (least recently used first)
+const connections = new Map<string, PooledConnection>();
+const poolMetrics = { hits: 0, misses: 0, lruEvictions: 0, idleEvictions: 0 };
+
+// Get or create client connection
+export function getClientConnection(projectUrl: string): ConvexHttpClient {
+  const existing = connections.get(projectUrl);
+  
+  if (existing) {
+    poolMetrics.hits++;
+    connections.delete(projectUrl);
+    existing.lastUsedAt = Date.now();
+    connections.set(projectUrl, existing);
+    return existing.client;
+  }
+  
+  poolMetrics.misses++;
+  if (connections.size >= MAX_CONNECTIONS) {
+    connections.delete(connections.keys().next().value!);
+    poolMetrics.lruEvictions++;
+  }
+  
+  const client = new ConvexHttpClient(projectUrl);
+  connections.set(projectUrl, { client, lastUsedAt: Date.now() });
+  return client;
+}
+
+// Client carrying the caller's JWT. Auth is per-client state, so these are
+// never pooled or shared between requests.
+export function createAuthenticatedClient(projectUrl: string, token: string): ConvexHttpClient {
+  const client = new ConvexHttpClient(projectUrl);
+  client.setAuth(token);
+  return client;
+}
+
+// Close the connection for a project (e.g. after its URL changed)
+export function evictClientConnection(projectUrl: string) {
+  connections.delete(projectUrl);
+}
+
+export function getConnectionPoolMetrics() {
+  return {
+    ...poolMetrics,
+    size: connections.size,
+    maxSize: MAX_CONNECTIONS,
+  };
+}
+
+// Evict connections that have not been used recently
+const idleSweep = setInterval(() => {
+  const cutoff = Date.now() - CONNECTION_IDLE_MS;
+  
+  for (const [projectUrl, connection] of connections) {
+    // LRU order: once we reach a recently used entry, the rest are newer
+    if (connection.lastUsedAt > cutoff) break;
+    connections.delete(projectUrl);
+    poolMetrics.idleEvictions++;
+  }
+}, 60 * 1000);
+
+idleSweep.unref?.();
+
+// ================================================
+// AUTHENTICATED REQUEST FORWARDING
+// ================================================
+// api-gateway/src/auth.ts
+
+import { verifyToken } from '@clerk/backend';
+import { Request, Response, NextFunction } from 'express';
+import { api } from '../../control-plane/convex/_generated/api';
+import { getControlPlaneClient } from './router';
+import { createAuthenticatedClient } from './connectionPool';
+import { getCachedTenant, setCachedTenant } from './tenantCache';
+
+// Verify the caller's Clerk JWT, check they belong to the organization
+// resolved by routeToClient and forward their token to the tenant project.
+// Must run after routeToClient.
+export async function authenticateTenantUser(req: Request, res: Response, next: NextFunction) {
+  const header = req.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : undefined;
+  
+  if (!token) {
+    return res.status(401).json({ error: { code: 'unauthenticated', message: 'Missing bearer token' } });
+  }
+  
+  let clerkUserId: string;
+  try {
+    const payload = await verifyToken(token, {
+      secretKey: process.env.CLERK_SECRET_KEY!,
+    });
+    clerkUserId = payload.sub;
+  } catch (error) {
+    return res.status(401).json({ error: { code: 'unauthenticated', message: 'Invalid or expired token' } });
+  }
+  
+  const org = req.organization;
+  const cacheKey = `member:${org._id}:${clerkUserId}`;
+  
+  let role = getCachedTenant<string | null>(cacheKey);
+  if (role === undefined) {
+    try {
+      role = await getControlPlaneClient().query(api.memberships.getMembershipRole, {
+        organizationId: org._id,
+        clerkUserId,
+        secret: process.env.CONTROL_PLANE_SECRET!,
+      });
+    } catch (error) {
+      console.error('Membership lookup failed:', error);
+      return res.status(502).json({ error: { code: 'membership_unavailable', message: 'Failed to verify organization membership' } });
+    }
+    // Cached against the organization so membership changes invalidate it
+    setCachedTenant(cacheKey, role, org._id);
+  }
+  
+  if (!role) {
+    return res.status(403).json({ error: { code: 'forbidden', message: 'Access denied to this organization' } });
+  }
+  
+  req.auth = { clerkUserId, role, token };
+  
+  // Tenant functions see the caller via ctx.auth.getUserIdentity()
+  req.convexClient = createAuthenticatedClient(org.projectUrl, token);
+  
+  next();
+}
+
+// ================================================
+// GATEWAY RATE LIMITING
+// ================================================
+// api-gateway/src/rateLimit.ts
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  BucketState,
+  getRateLimitPolicy,
+  RateLimitPolicy,
+  RateLimitResult,
+  RouteClass,
+  takeToken,
+} from '../../client-template/convex/lib/rateLimits';
+
+interface StoredBucket {
+  state: BucketState;
+  fullAt: number; // Bucket is full again (and can be dropped) after this
+}
+
+// In-memory buckets, so limits are per gateway instance
+const buckets = new Map<string, StoredBucket>();
+const rateLimitMetrics = { allowed: 0, rejected: 0 };
+
+// Token bucket limit per organization and per user for one route class.
+// Must run after authenticateTenantUser.
+export function rateLimit(routeClass: RouteClass) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const org = req.organization;
+    const now = Date.now();
+    
+    const checks: { key: string; policy: RateLimitPolicy }[] = [
+      { key: `org:${org._id}:${routeClass}`, policy: getRateLimitPolicy(org.plan, routeClass, 'organization') },
+    ];
+    if (req.auth) {
+      checks.push({
+        key: `user:${org._id}:${req.auth.clerkUserId}:${routeClass}`,
+        policy: getRateLimitPolicy(org.plan, routeClass, 'user'),
+      });
+    }
+    
+    const results = checks.map(check => ({
+      ...check,
+      result: takeToken(buckets.get(check.key)?.state, check.policy, now),
+    }));
+    
+    // Headers describe the bucket closest to running out
+    const denied = results.find(r => !r.result.allowed);
+    const tightest = denied || results.reduce((a, b) =>
+      b.result.remaining / b.policy.capacity < a.result.remaining / a.policy.capacity ? b : a
+    );
+    setRateLimitHeaders(res, tightest.policy, tightest.result);
+    
+    if (denied) {
+      rateLimitMetrics.rejected++;
+      const retryAfter = Math.ceil(denied.result.retryAfterMs / 1000);
+      res.setHeader('Retry-After', retryAfter);
+      return res.status(429).json({
+        error: {
+          code: 'rate_limited',
+          message: `Rate limit exceeded for ${routeClass} requests`,
+          retryAfter,
+        },
+      });
+    }
+    
+    // Only take tokens once every bucket allowed the request
+    for (const { key, result } of results) {
+      buckets.set(key, { state: result.state, fullAt: now + result.resetMs });
+    }
+    
+    rateLimitMetrics.allowed++;
+    next();
+  };
+}
+
+function setRateLimitHeaders(res: Response, policy: RateLimitPolicy, result: RateLimitResult) {
+  res.setHeader('RateLimit-Limit', policy.capacity);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+  res.setHeader('RateLimit-Reset', Math.ceil(result.resetMs / 1000));
+}
+
+export function getRateLimitMetrics() {
+  return {
+    ...rateLimitMetrics,
+    buckets: buckets.size,
+  };
+}
+
+// Drop buckets that have refilled completely; a missing bucket is a full one
+const bucketSweep = setInterval(() => {
+  const now = Date.now();
+  
+  for (const [key, bucket] of buckets) {
+    if (bucket.fullAt <= now) buckets.delete(key);
+  }
+}, 5 * 60 * 1000);
+
+bucketSweep.unref?.();
+
+// ================================================
+// REQUEST CONTEXT TYPES
+// ================================================
+// api-gateway/src/types.ts
+
+import { ConvexHttpClient } from 'convex/browser';
+import { FunctionReturnType } from 'convex/server';
+import { api } from '../../control-plane/convex/_generated/api';
+import { TenantSource } from './tenantResolution';
+
+export type OrganizationRoute = NonNullable<
+  FunctionReturnType<typeof api.organizations.getOrganizationByDomain>
+>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      convexClient: ConvexHttpClient;
+      organization: OrganizationRoute;
+      organizationDomain: string;
+      tenantSource: TenantSource;
+      auth?: {
+        clerkUserId: string;
+        role: string; // Organization role: "owner" | "admin" | "user"
+        token: string;
+      };
+    }
+  }
+}
+
+// ================================================
+// TENANT REST ROUTE DEFINITIONS
+// ================================================
+// api-gateway/src/routes/definitions.ts
+
+import { FunctionReference } from 'convex/server';
+import { api } from '../../../client-template/convex/_generated/api';
+import { RouteClass } from '../../../client-template/convex/lib/rateLimits';
+import { BlindIndexSpec } from '../fieldEncryption';
+
+export type ParamType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface ParamSpec {
+  in: 'path' | 'query' | 'body';
+  type: ParamType;
+  required?: boolean;
+  description?: string;
+}
+
+export interface RouteDefinition {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string; // Relative to the tenant prefix, Express syntax
+  kind: 'query' | 'mutation' | 'action';
+  fn: FunctionReference<'query' | 'mutation' | 'action'>;
+  tag: string;
+  summary: string;
+  params?: Record<string, ParamSpec>; // Keyed by Convex argument name
+  paginated?: boolean; // Function takes paginationOpts and returns a page
+  successStatus?: number;
+  rateClass?: RouteClass; // Defaults to "read" for queries, "write" otherwise
+  encrypted?: string[]; // Argument paths sent as plaintext and encrypted here (see lib/fieldEncryption.ts)
+  revealable?: string[]; // Result paths decrypted with ?reveal=true, for callers with pii.decrypt
+  blindIndexes?: BlindIndexSpec[]; // Computed from plaintext arguments before encryption
+  entityHashes?: string; // Argument with extracted entities whose names and identification values are hashed before encryption; the function takes the control plane secret
+}
+
+// Every tenant endpoint. Routes, argument mapping and the OpenAPI document
+// are all generated from this list.
+export const TENANT_ROUTES: RouteDefinition[] = [
+  // Cases
+  {
+    method: 'get', path: '/cases', kind: 'query', fn: api.cases.list,
+    tag: 'Cases', summary: 'List cases', paginated: true,
+    params: {
+      status: { in: 'query', type: 'string', description: 'Filter by status' },
+      includeClosed: { in: 'query', type: 'boolean', description: 'Include closed and archived cases' },
+      leadAttorneyId: { in: 'query', type: 'string', description: 'Only sortable by createdAt' },
+      sortBy: { in: 'query', type: 'string', description: '"createdAt" (default) | "updatedAt" | "caseNumber"' },
+      order: { in: 'query', type: 'string', description: '"asc" | "desc" (default)' },
+    },
+  },
+  {
+    method: 'post', path: '/cases', kind: 'mutation', fn: api.cases.create,
+    tag: 'Cases', summary: 'Open a new case', successStatus: 201,
+    params: {
+      caseNumber: { in: 'body', type: 'string', required: true },
+      title: { in: 'body', type: 'string', required: true },
+      clientName_encrypted: { in: 'body', type: 'string', required: true, description: 'Plaintext, encrypted by the gateway' },
+      clientNumber: { in: 'body', type: 'string' },
+      practiceArea: { in: 'body', type: 'string', required: true },
+      opposingParties_encrypted: { in: 'body', type: 'array', description: 'Plaintext names, encrypted by the gateway' },
+      conflictCheckId: { in: 'body', type: 'string', description: 'Cleared or waived check; required when the parties have hits' },
+    },
+    encrypted: ['clientName_encrypted', 'opposingParties_encrypted[]'],
+    blindIndexes: [
+      { from: 'clientName_encrypted', to: 'clientNameIndex', field: 'clientName' },
+      { from: 'clientName_encrypted', to: 'clientPartyIndex', field: 'partyName' },
+      { from: 'opposingParties_encrypted[]', to: 'opposingPartyIndexes', field: 'partyName' },
+    ],
+  },
+  {
+    method: 'get', path: '/cases/lookup', kind: 'query', fn: api.cases.lookup,
+    tag: 'Cases', summary: 'Find cases by client or opposing party name',
+    params: {
+      clientName: { in: 'query', type: 'string' },
+      opposingParty: { in: 'query', type: 'string' },
+      match: { in: 'query', type: 'string', description: '"exact" (default) | "tokens" (every word of the name)' },
+    },
+    blindIndexes: [
+      { from: 'clientName', to: 'clientName', field: 'clientName' },
+      { from: 'opposingParty', to: 'opposingParty', field: 'partyName' },
+    ],
+  },
+  {
+    method: 'get', path: '/cases/search', kind: 'query', fn: api.cases.search,
+    tag: 'Cases', summary: 'Full-text search over cases', paginated: true,
+    params: {
+      query: { in: 'query', type: 'string', required: true, description: 'Matches case number, title, practice area, client number and key parties' },
+      status: { in: 'query', type: 'string', description: '"active" (default) | "closed" | "archived"' },
+      includeClosed: { in: 'query', type: 'boolean', description: 'Include closed and archived cases' },
+      practiceArea: { in: 'query', type: 'string' },
+      leadAttorneyId: { in: 'query', type: 'string' },
+    },
+  },
+  {
+    method: 'get', path: '/cases/deleted', kind: 'query', fn: api.cases.listDeleted,
+    tag: 'Cases', summary: 'Deleted cases that can still be restored', paginated: true,
+  },
+  {
+    method: 'get', path: '/cases/:caseId', kind: 'query', fn: api.cases.get,
+    tag: 'Cases', summary: 'Get a case',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+    },
+    revealable: ['clientName_encrypted', 'opposingParty_encrypted'],
+  },
+  {
+    method: 'patch', path: '/cases/:caseId', kind: 'mutation', fn: api.cases.update,
+    tag: 'Cases', summary: 'Update a case',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+      expectedVersion: { in: 'body', type: 'number', required: true, description: 'version of the case being edited, from GET /cases/:caseId' },
+      title: { in: 'body', type: 'string' },
+      practiceArea: { in: 'body', type: 'string' },
+    },
+  },
+  {
+    method: 'post', path: '/cases/:caseId/team', kind: 'mutation', fn: api.cases.addTeamMember,
+    tag: 'Cases', summary: 'Add a user to the case team',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+      userId: { in: 'body', type: 'string', required: true },
+      expectedVersion: { in: 'body', type: 'number', required: true, description: 'version of the case being edited, from GET /cases/:caseId' },
+    },
+  },
+  {
+    method: 'delete', path: '/cases/:caseId/team/:userId', kind: 'mutation', fn: api.cases.removeTeamMember,
+    tag: 'Cases', summary: 'Remove a user from the case team',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+      userId: { in: 'path', type: 'string', required: true },
+      expectedVersion: { in: 'query', type: 'number', required: true, description: 'version of the case being edited, from GET /cases/:caseId' },
+    },
+  },
+  {
+    method: 'patch', path: '/cases/:caseId/visibility', kind: 'mutation', fn: api.cases.setFirmWide,
+    tag: 'Cases', summary: 'Make a case visible firm-wide or to its team only',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+      firmWide: { in: 'body', type: 'boolean', required: true },
+      expectedVersion: { in: 'body', type: 'number', required: true, description: 'version of the case being edited, from GET /cases/:caseId' },
+    },
+  },
+  {
+    method: 'post', path: '/cases/:caseId/close', kind: 'mutation', fn: api.cases.close,
+    tag: 'Cases', summary: 'Close a case',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+      expectedVersion: { in: 'body', type: 'number', required: true, description: 'version of the case being edited, from GET /cases/:caseId' },
+      reason: { in: 'body', type: 'string', required: true },
+      disposition: { in: 'body', type: 'string', required: true, description: '"settled" | "judgment" | "dismissed" | "withdrawn" | "transferred" | "completed" | "other"' },
+    },
+  },
+  {
+    method: 'post', path: '/cases/:caseId/reopen', kind: 'mutation', fn: api.cases.reopen,
+    tag: 'Cases', summary: 'Reopen a closed or archived case',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+      expectedVersion: { in: 'body', type: 'number', required: true, description: 'version of the case being edited, from GET /cases/:caseId' },
+      reason: { in: 'body', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'post', path: '/cases/:caseId/archive', kind: 'mutation', fn: api.cases.archive,
+    tag: 'Cases', summary: 'Archive a closed case',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+      expectedVersion: { in: 'body', type: 'number', required: true, description: 'version of the case being edited, from GET /cases/:caseId' },
+      reason: { in: 'body', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'get', path: '/cases/:caseId/timeline', kind: 'query', fn: api.cases.getTimeline,
+    tag: 'Cases', summary: 'Lifecycle timeline of a case',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'get', path: '/cases/:caseId/parties', kind: 'query', fn: api.cases.listParties,
+    tag: 'Cases', summary: 'List the parties to a case',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+    },
+    revealable: ['[].name_encrypted', '[].aliases_encrypted[]'],
+  },
+  {
+    method: 'post', path: '/cases/:caseId/parties', kind: 'mutation', fn: api.cases.addParty,
+    tag: 'Cases', summary: 'Add a conflict-checked party to a case', successStatus: 201,
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+      name_encrypted: { in: 'body', type: 'string', required: true, description: 'Plaintext, encrypted by the gateway' },
+      role: { in: 'body', type: 'string', required: true, description: '"client" | "opposing_party" | "related_party"' },
+      aliases_encrypted: { in: 'body', type: 'array', description: 'Plaintext names, encrypted by the gateway' },
+      conflictCheckId: { in: 'body', type: 'string' },
+    },
+    encrypted: ['name_encrypted', 'aliases_encrypted[]'],
+    blindIndexes: [
+      { from: 'name_encrypted', to: 'nameIndex', field: 'partyName' },
+      { from: 'aliases_encrypted[]', to: 'aliasIndexes', field: 'partyName' },
+    ],
+  },
+  {
+    method: 'delete', path: '/cases/:caseId', kind: 'mutation', fn: api.cases.remove,
+    tag: 'Cases', summary: 'Delete a case without documents (restorable for 30 days)',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+      expectedVersion: { in: 'query', type: 'number', required: true, description: 'version of the case being edited, from GET /cases/:caseId' },
+    },
+  },
+  {
+    method: 'post', path: '/cases/:caseId/restore', kind: 'mutation', fn: api.cases.restore,
+    tag: 'Cases', summary: 'Restore a deleted case within its restore window',
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+      expectedVersion: { in: 'body', type: 'number', required: true, description: 'version of the case being restored, from GET /cases/deleted' },
+    },
+  },
+  
+  // Ethical walls
+  {
+    method: 'get', path: '/ethical-walls', kind: 'query', fn: api.ethicalWalls.list,
+    tag: 'Ethical walls', summary: 'List ethical walls', paginated: true,
+    params: {
+      status: { in: 'query', type: 'string', description: '"active" | "lifted"' },
+    },
+  },
+  {
+    method: 'post', path: '/ethical-walls', kind: 'mutation', fn: api.ethicalWalls.create,
+    tag: 'Ethical walls', summary: 'Screen users from cases or clients', successStatus: 201,
+    params: {
+      name: { in: 'body', type: 'string', required: true },
+      reason: { in: 'body', type: 'string', required: true },
+      screenedUserIds: { in: 'body', type: 'array', required: true },
+      caseIds: { in: 'body', type: 'array', required: true },
+      clientNumbers: { in: 'body', type: 'array', required: true },
+    },
+  },
+  {
+    method: 'post', path: '/ethical-walls/:wallId/lift', kind: 'mutation', fn: api.ethicalWalls.lift,
+    tag: 'Ethical walls', summary: 'Lift an ethical wall',
+    params: {
+      wallId: { in: 'path', type: 'string', required: true },
+      reason: { in: 'body', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'get', path: '/ethical-walls/blocked-access', kind: 'query', fn: api.ethicalWalls.listBlockedAccess,
+    tag: 'Ethical walls', summary: 'Blocked access attempts for compliance review',
+    params: {
+      limit: { in: 'query', type: 'number' },
+    },
+  },
+  
+  // Conflict checks
+  {
+    method: 'post', path: '/conflict-checks', kind: 'mutation', fn: api.conflicts.run,
+    tag: 'Conflict checks', summary: 'Search names against clients, parties and entities', successStatus: 201,
+    params: {
+      subjects: { in: 'body', type: 'array', required: true, description: '[{ name_encrypted, role }], names in plaintext' },
+      caseId: { in: 'body', type: 'string', description: 'Existing case when adding a party' },
+    },
+    encrypted: ['subjects[].name_encrypted'],
+    blindIndexes: [{ from: 'subjects[].name_encrypted', to: 'subjects[].nameIndex', field: 'partyName' }],
+    revealable: ['hits[].subjectName', 'hits[].matchedName'],
+  },
+  {
+    method: 'get', path: '/conflict-checks/pending', kind: 'query', fn: api.conflicts.listPending,
+    tag: 'Conflict checks', summary: 'Checks waiting for a decision', paginated: true,
+    revealable: ['[].subjects[].name_encrypted'],
+  },
+  {
+    method: 'get', path: '/conflict-checks/:checkId', kind: 'query', fn: api.conflicts.get,
+    tag: 'Conflict checks', summary: 'Get a conflict check and its hit report',
+    params: {
+      checkId: { in: 'path', type: 'string', required: true },
+    },
+    revealable: ['subjects[].name_encrypted', 'hits[].subjectName', 'hits[].matchedName'],
+  },
+  {
+    method: 'post', path: '/conflict-checks/:checkId/decision', kind: 'mutation', fn: api.conflicts.decide,
+    tag: 'Conflict checks', summary: 'Clear, waive or decline a conflict check',
+    params: {
+      checkId: { in: 'path', type: 'string', required: true },
+      decision: { in: 'body', type: 'string', required: true, description: '"cleared" | "waived" | "declined"' },
+      notes: { in: 'body', type: 'string', required: true },
+    },
+  },
+  
+  // Documents
+  {
+    method: 'post', path: '/documents/upload-url', kind: 'action', fn: api.documents.generateUploadUrl,
+    tag: 'Documents', summary: 'Get a presigned upload URL and create the document record', rateClass: 'upload',
+    params: {
+      filename: { in: 'body', type: 'string', required: true },
+      fileType: { in: 'body', type: 'string', required: true },
+      fileSize: { in: 'body', type: 'number', required: true },
+      caseId: { in: 'body', type: 'string' },
+    },
+  },
+  {
+    method: 'post', path: '/documents', kind: 'mutation', fn: api.documents.createPending,
+    tag: 'Documents', summary: 'Create a document record for an uploaded file', successStatus: 201, rateClass: 'upload',
+    params: {
+      filename: { in: 'body', type: 'string', required: true },
+      fileType: { in: 'body', type: 'string', required: true },
+      fileSize: { in: 'body', type: 'number', required: true },
+      fileKey: { in: 'body', type: 'string', required: true },
+      caseId: { in: 'body', type: 'string' },
+    },
+  },
+  {
+    method: 'get', path: '/documents/:documentId', kind: 'query', fn: api.documents.get,
+    tag: 'Documents', summary: 'Get a document',
+    params: {
+      documentId: { in: 'path', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'delete', path: '/documents/:documentId', kind: 'mutation', fn: api.documents.remove,
+    tag: 'Documents', summary: 'Delete a document and release its storage',
+    params: {
+      documentId: { in: 'path', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'get', path: '/documents/:documentId/status', kind: 'query', fn: api.documents.getProcessingStatus,
+    tag: 'Documents', summary: 'Get document processing status',
+    params: {
+      documentId: { in: 'path', type: 'string', required: true },
+    },
+  },
+  
+  // Ingestion
+  {
+    method: 'post', path: '/ingestions', kind: 'mutation', fn: api.documentIngestion.startIngestion,
+    tag: 'Ingestion', summary: 'Start document ingestion', successStatus: 201, rateClass: 'ingestion',
+    params: {
+      storageId: { in: 'body', type: 'string', required: true },
+      filename: { in: 'body', type: 'string', required: true },
+      mimeType: { in: 'body', type: 'string', required: true },
+      checksum: { in: 'body', type: 'string', required: true },
+      caseId: { in: 'body', type: 'string' },
+      processingConfig: { in: 'body', type: 'object' },
+    },
+  },
+  {
+    method: 'post', path: '/ingestions/:ingestionId/entities', kind: 'mutation', fn: api.documentIngestion.storeHashedEntities,
+    tag: 'Ingestion', summary: 'Store extracted entities', rateClass: 'ingestion',
+    params: {
+      ingestionId: { in: 'path', type: 'string', required: true },
+      entities: { in: 'body', type: 'array', required: true, description: 'Identification values as plaintext, encrypted by the gateway' },
+    },
+    encrypted: ['entities[].attributes.personDetails.identification[].value'],
+    entityHashes: 'entities',
+  },
+  {
+    method: 'get', path: '/ingestions/dead-letters', kind: 'query', fn: api.processingQueue.listDeadLetters,
+    tag: 'Ingestion', summary: 'Documents that failed processing after every retry', paginated: true,
+  },
+  {
+    method: 'post', path: '/ingestions/queue/:queueId/retry', kind: 'mutation', fn: api.processingQueue.retryDeadLetter,
+    tag: 'Ingestion', summary: 'Queue a dead-lettered document again', rateClass: 'ingestion',
+    params: {
+      queueId: { in: 'path', type: 'string', required: true },
+    },
+  },
+  
+  // Entities
+  {
+    method: 'get', path: '/entities', kind: 'query', fn: api.entities.search,
+    tag: 'Entities', summary: 'Search entities', paginated: true,
+    params: {
+      query: { in: 'query', type: 'string', description: 'Name search' },
+      entityType: { in: 'query', type: 'string' },
+      caseId: { in: 'query', type: 'string' },
+    },
+  },
+  {
+    method: 'get', path: '/entities/:entityId/relationships', kind: 'query', fn: api.entities.getRelationships,
+    tag: 'Entities', summary: 'List relationships of an entity',
+    params: {
+      entityId: { in: 'path', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'get', path: '/entities/:entityId/mentions', kind: 'query', fn: api.entities.getMentions,
+    tag: 'Entities', summary: 'Where an entity and its merged duplicates are mentioned',
+    params: {
+      entityId: { in: 'path', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'get', path: '/entities/:entityId/merges', kind: 'query', fn: api.entityResolution.listMerges,
+    tag: 'Entities', summary: 'Merges into and out of an entity',
+    params: {
+      entityId: { in: 'path', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'post', path: '/entity-merges/:mergeId/undo', kind: 'mutation', fn: api.entityResolution.unmerge,
+    tag: 'Entities', summary: 'Undo a merge of duplicate entities',
+    params: {
+      mergeId: { in: 'path', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'get', path: '/cases/:caseId/entity-matches', kind: 'query', fn: api.entityResolution.listMatchCandidates,
+    tag: 'Entities', summary: 'Possible duplicate entities waiting for review', paginated: true,
+    params: {
+      caseId: { in: 'path', type: 'string', required: true },
+    },
+  },
+  {
+    method: 'post', path: '/entity-matches/:candidateId/review', kind: 'mutation', fn: api.entityResolution.reviewMatchCandidate,
+    tag: 'Entities', summary: 'Merge or reject a possible duplicate',
+    params: {
+      candidateId: { in: 'path', type: 'string', required: true },
+      decision: { in: 'body', type: 'string', required: true, description: '"merge" | "reject"' },
+    },
+  },
+];
+
+// ================================================
+// TENANT REST ROUTES
+// ================================================
+// api-gateway/src/routes/tenant.ts
+
+import { Express, Request, Response } from 'express';
+import { ConvexError } from 'convex/values';
+import { api } from '../../../client-template/convex/_generated/api';
+import { Id } from '../../../client-template/convex/_generated/dataModel';
+import { CodedErrorData, ErrorCode, errorCode } from '../../../client-template/convex/lib/errors';
+import { routeToClient } from '../router';
+import { authenticateTenantUser } from '../auth';
+import { rateLimit } from '../rateLimit';
+import {
+  addBlindIndexes,
+  addEntityHashes,
+  encryptFields,
+  EncryptionUnavailableError,
+  revealFields,
+} from '../fieldEncryption';
+import { ParamSpec, RouteDefinition, TENANT_ROUTES } from './definitions';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+// Error envelope returned by every tenant route
+export class ApiError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+function sendError(res: Response, status: number, code: string, message: string) {
+  return res.status(status).json({ error: { code, message } });
+}
+
+// HTTP status and public code for each tenant error code. Codes missing
+// here (e.g. lease_lost, which only the worker sees) are internal errors.
+const ERROR_STATUSES: Partial<Record<ErrorCode, [number, string]>> = {
+  unauthenticated: [401, 'unauthenticated'],
+  permission_denied: [403, 'permission_denied'],
+  ethical_wall: [403, 'ethical_wall'],
+  feature_disabled: [403, 'feature_disabled'],
+  quota_exceeded: [402, 'quota_exceeded'],
+  rate_limited: [429, 'rate_limited'], // Another gateway instance used the budget
+  not_found: [404, 'not_found'],
+  already_exists: [409, 'conflict'],
+  invalid_argument: [400, 'invalid_argument'],
+  invalid_state: [409, 'invalid_state'],
+  invalid_transition: [409, 'invalid_transition'],
+  case_locked: [409, 'case_locked'],
+  stale_write: [409, 'stale_write'],
+  conflict_check_required: [409, 'conflict_check_required'],
+  conflict_check_invalid: [409, 'conflict_check_invalid'],
+};
+
+// Map errors thrown by Convex functions to HTTP statuses
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof EncryptionUnavailableError) {
+    return new ApiError(503, 'encryption_unavailable', 'Field encryption is not set up for this organization');
+  }
+  
+  const code = errorCode(error);
+  const mapped = code && ERROR_STATUSES[code];
+  if (mapped) {
+    const [status, publicCode] = mapped;
+    return new ApiError(status, publicCode, (error as ConvexError<CodedErrorData>).data.message);
+  }
+  
+  // Rejected by Convex before the function ran
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes('ArgumentValidationError')) {
+    return new ApiError(400, 'invalid_argument', 'Invalid request arguments');
+  }
+  
+  return new ApiError(500, 'internal', 'Request failed');
+}
+
+// Same request with the cursor swapped, so clients can follow pages without
+// rebuilding filters and sort options
+function nextPageUrl(req: Request, cursor: string) {
+  const url = new URL(req.originalUrl, 'http://gateway.local');
+  url.searchParams.set('cursor', cursor);
+  return url.pathname + url.search;
+}
+
+function coerce(name: string, spec: ParamSpec, raw: unknown) {
+  if (spec.in !== 'query' || typeof raw !== 'string') return raw;
+  
+  switch (spec.type) {
+    case 'number': {
+      const n = Number(raw);
+      if (Number.isNaN(n)) throw new ApiError(400, 'invalid_argument', `${name} must be a number`);
+      return n;
+    }
+    case 'boolean':
+      return raw === 'true';
+    default:
+      return raw;
+  }
+}
+
+// Build Convex arguments from path, query string and body
+export function buildArgs(definition: RouteDefinition, req: Request) {
+  const args: Record<string, unknown> = {};
+  
+  for (const [name, spec] of Object.entries(definition.params || {})) {
+    const source = spec.in === 'path' ? req.params :
+      spec.in === 'query' ? req.query :
+      (req.body || {});
+    const raw = source[name];
+    
+    if (raw === undefined || raw === '') {
+      if (spec.required) {
+        throw new ApiError(400, 'invalid_argument', `${name} is required`);
+      }
+      continue;
+    }
+    
+    args[name] = coerce(name, spec, raw);
+  }
+  
+  if (definition.paginated) {
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ApiError(400, 'invalid_argument', 'limit must be a positive integer');
+    }
+    
+    args.paginationOpts = {
+      numItems: Math.min(limit, MAX_PAGE_SIZE),
+      cursor: (req.query.cursor as string) || null,
+    };
+  }
+  
+  return args;
+}
+
+// Tenant functions cannot persist their own denials (the failed transaction
+// is rolled back), so the gateway reports them on the caller's behalf. The
+// tenant checks each report against the caller before recording it.
+async function reportDenial(req: Request, definition: RouteDefinition, error: unknown) {
+  if (!(error instanceof ConvexError)) return;
+  const data = error.data as CodedErrorData;
+  const resource = `${definition.method.toUpperCase()} ${definition.path}`;
+  
+  try {
+    if (data.code === 'permission_denied' && Array.isArray(data.permissions)) {
+      await req.convexClient.mutation(api.permissions.recordDenial, {
+        resource,
+        permissions: data.permissions as string[],
+      });
+    }
+    if (data.code === 'ethical_wall') {
+      await req.convexClient.mutation(api.ethicalWalls.recordBlockedAccess, {
+        wallId: data.wallId as Id<'ethicalWalls'>,
+        caseId: data.caseId as Id<'cases'>,
+        resource,
+      });
+    }
+  } catch (err) {
+    console.error('Failed to record denial:', err);
+  }
+}
+
+// Errors are rolled back with the failed call too, so they are recorded for
+// the tenant's operators from here
+async function reportError(req: Request, definition: RouteDefinition, error: unknown) {
+  try {
+    await req.convexClient.mutation(api.systemEvents.recordError, {
+      secret: process.env.CONTROL_PLANE_SECRET!,
+      source: `${definition.method.toUpperCase()} ${definition.path}`,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  } catch (err) {
+    console.error('Failed to record error:', err);
+  }
+}
+
+export function handlerFor(definition: RouteDefinition) {
+  return async (req: Request, res: Response) => {
+    try {
+      let args = buildArgs(definition, req);
+      const client = req.convexClient;
+      
+      if (definition.blindIndexes) {
+        args = await addBlindIndexes(req, definition.blindIndexes, args);
+      }
+      if (definition.entityHashes) {
+        args = await addEntityHashes(req, definition.entityHashes, args);
+      }
+      if (definition.encrypted) {
+        args = await encryptFields(req, definition.encrypted, args);
+      }
+      
+      const result = definition.kind === 'query' ? await client.query(definition.fn as any, args) :
+        definition.kind === 'mutation' ? await client.mutation(definition.fn as any, args) :
+        await client.action(definition.fn as any, args);
+      
+      let data = definition.paginated ? result.page : result;
+      if (definition.revealable && req.query.reveal === 'true') {
+        const resource = `${definition.method.toUpperCase()} ${definition.path}`;
+        data = await revealFields(req, definition.revealable, data, resource);
+      }
+      
+      if (definition.paginated) {
+        return res.status(definition.successStatus || 200).json({
+          data,
+          page: {
+            cursor: result.continueCursor,
+            isDone: result.isDone,
+            next: result.isDone ? null : nextPageUrl(req, result.continueCursor),
+          },
+        });
+      }
+      
+      res.status(definition.successStatus || 200).json({ data: data ?? null });
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (apiError.status === 403) {
+        await reportDenial(req, definition, error);
+      }
+      if (apiError.status >= 500) {
+        console.error(`${definition.method.toUpperCase()} ${definition.path} failed:`, error);
+        await reportError(req, definition, error);
+      }
+      sendError(res, apiError.status, apiError.code, apiError.message);
+    }
+  };
+}
+
+export function routeClassFor(definition: RouteDefinition) {
+  return definition.rateClass || (definition.kind === 'query' ? 'read' : 'write');
+}
+
+// Mount every tenant route twice: under /api/:domain (path resolution) and
+// under /api (host or subdomain resolution)
+export function registerTenantRoutes(app: Express) {
+  for (const definition of TENANT_ROUTES) {
+    app[definition.method](
+      [`/api/:domain${definition.path}`, `/api${definition.path}`],
+      routeToClient,
+      authenticateTenantUser,
+      rateLimit(routeClassFor(definition)),
+      handlerFor(definition)
+    );
+  }
+}
+
+// ================================================
+// OPENAPI DOCUMENT
+// ================================================
+// api-gateway/src/routes/openapi.ts
+
+import { RouteDefinition, TENANT_ROUTES } from './definitions';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, routeClassFor } from './tenant';
+
+const errorResponse = {
+  description: 'Error',
+  content: {
+    'application/json': {
+      schema: { $ref: '#/components/schemas/Error' },
+    },
+  },
+};
+
+function toOpenApiPath(path: string) {
+  return `/api/{domain}${path.replace(/:(\w+)/g, '{$1}')}`;
+}
+
+function operationFor(definition: RouteDefinition) {
+  const params = Object.entries(definition.params || {});
+  
+  const parameters: any[] = [
+    { name: 'domain', in: 'path', required: true, schema: { type: 'string' } },
+    ...params
+      .filter(([, spec]) => spec.in !== 'body')
+      .map(([name, spec]) => ({
+        name,
+        in: spec.in,
+        required: spec.in === 'path' || !!spec.required,
+        description: spec.description,
+        schema: { type: spec.type },
+      })),
+  ];
+  
+  if (definition.revealable) {
+    parameters.push({
+      name: 'reveal',
+      in: 'query',
+      description: 'Decrypt encrypted fields (requires pii.decrypt, audited)',
+      schema: { type: 'boolean' },
+    });
+  }
+  
+  if (definition.paginated) {
+    parameters.push(
+      { name: 'limit', in: 'query', schema: { type: 'integer', default: DEFAULT_PAGE_SIZE, maximum: MAX_PAGE_SIZE } },
+      { name: 'cursor', in: 'query', schema: { type: 'string' } },
+    );
+  }
+  
+  const bodyParams = params.filter(([, spec]) => spec.in === 'body');
+  
+  return {
+    tags: [definition.tag],
+    summary: definition.summary,
+    'x-rate-limit-class': routeClassFor(definition),
+    operationId: `${definition.tag.toLowerCase()}_${definition.method}_${definition.path.replace(/[/:-]+/g, '_')}`,
+    parameters,
+    requestBody: bodyParams.length ? {
+      required: bodyParams.some(([, spec]) => spec.required),
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: bodyParams.filter(([, spec]) => spec.required).map(([name]) => name),
+            properties: Object.fromEntries(bodyParams.map(([name, spec]) => [
+              name,
+              { type: spec.type, description: spec.description },
+            ])),
+          },
+        },
+      },
+    } : undefined,
+    responses: {
+      [definition.successStatus || 200]: {
+        description: 'Success',
+        content: {
+          'application/json': {
+            schema: { $ref: definition.paginated ? '#/components/schemas/Page' : '#/components/schemas/Data' },
+          },
+        },
+      },
+      400: errorResponse,
+      401: errorResponse,
+      402: { ...errorResponse, description: 'Plan quota exceeded' },
+      403: errorResponse,
+      404: errorResponse,
+      429: {
+        ...errorResponse,
+        description: 'Rate limit exceeded',
+        headers: {
+          'Retry-After': { schema: { type: 'integer' } },
+        },
+      },
+      500: errorResponse,
+    },
+  };
+}
+
+// OpenAPI 3.1 document generated from the route definitions
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  
+  for (const definition of TENANT_ROUTES) {
+    const path = toOpenApiPath(definition.path);
+    paths[path] = { ...paths[path], [definition.method]: operationFor(definition) };
+  }
+  
+  return {
+    openapi: '3.1.0',
+    info: { title: 'Legal SaaS Tenant API', version: '1.0.0' },
+    servers: [{ url: process.env.GATEWAY_PUBLIC_URL || '/' }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+      schemas: {
+        Data: { type: 'object', properties: { data: {} } },
+        Page: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: {} },
+            page: {
+              type: 'object',
+              properties: {
+                cursor: { type: 'string' },
+                isDone: { type: 'boolean' },
+                next: { type: 'string', nullable: true, description: 'This request with the cursor of the next page' },
+              },
+            },
+          },
+        },
+        Error: {
+          type: 'object',
+          properties: {
+            error: {
+              type: 'object',
+              properties: {
+                code: { type: 'string' },
+                message: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,127 @@
+// ================================================
+// TENANT ROUTE TESTS
+// ================================================
+// api-gateway/src/routes/tenant.test.ts
+
+import { describe, expect, it, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { getFunctionName } from 'convex/server';
+import { codedError } from '../../../client-template/convex/lib/errors';
+import { RouteDefinition, TENANT_ROUTES } from './definitions';
+import { handlerFor } from './tenant';
+
+function route(method: RouteDefinition['method'], path: string) {
+  return TENANT_ROUTES.find(r => r.method === method && r.path === path)!;
+}
+
+// Tenant client whose route function fails with the given error, keeping
+// the reports the gateway sends after it
+function failingClient(definition: RouteDefinition, error: Error) {
+  const reports: [string, unknown][] = [];
+  const run = async (fn: any, args: unknown) => {
+    const name = getFunctionName(fn);
+    if (name === getFunctionName(definition.fn)) throw error;
+    reports.push([name, args]);
+    return null;
+  };
+  
+  return {
+    reports,
+    client: { query: vi.fn(run), mutation: vi.fn(run), action: vi.fn(run) },
+  };
+}
+
+async function call(definition: RouteDefinition, client: unknown, request: Partial<Request> = {}) {
+  const req = { params: {}, query: {}, body: {}, originalUrl: '/api/cases', convexClient: client, ...request };
+  const res: any = { status: vi.fn(() => res), json: vi.fn(() => res) };
+  
+  await handlerFor(definition)(req as Request, res as Response);
+  return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+}
+
+describe('tenant route definitions', () => {
+  it('hashes lookup names under the fields the writes index them by', () => {
+    const field = (definition: RouteDefinition, to: string) =>
+      definition.blindIndexes!.find(spec => spec.to === to)!.field;
+    
+    const lookup = route('get', '/cases/lookup');
+    expect(field(lookup, 'clientName')).toBe(field(route('post', '/cases'), 'clientNameIndex'));
+    expect(field(lookup, 'opposingParty')).toBe(field(route('post', '/cases'), 'opposingPartyIndexes'));
+    expect(field(lookup, 'opposingParty')).toBe(field(route('post', '/cases/:caseId/parties'), 'nameIndex'));
+  });
+});
+
+describe('tenant route errors', () => {
+  it('reports denied reads after answering with 403', async () => {
+    const definition = route('get', '/cases');
+    const { client, reports } = failingClient(definition, codedError('permission_denied', 'Permission denied: missing cases.read', {
+      permissions: ['cases.read'],
+    }));
+    
+    const response = await call(definition, client);
+    
+    expect(response).toEqual({
+      status: 403,
+      body: { error: { code: 'permission_denied', message: 'Permission denied: missing cases.read' } },
+    });
+    expect(reports).toEqual([
+      ['permissions:recordDenial', { resource: 'GET /cases', permissions: ['cases.read'] }],
+    ]);
+  });
+  
+  it('does not report denials that name no permissions', async () => {
+    const definition = route('post', '/cases/:caseId/team');
+    const { client, reports } = failingClient(definition, codedError('permission_denied', 'Only the lead attorney can manage this case\'s team'));
+    
+    const response = await call(definition, client, {
+      params: { caseId: 'case1' },
+      body: { userId: 'user1', expectedVersion: 3 },
+    });
+    
+    expect(response.status).toBe(403);
+    expect(reports).toEqual([]);
+  });
+  
+  it('reports reads blocked by an ethical wall', async () => {
+    const definition = route('get', '/cases/:caseId');
+    const { client, reports } = failingClient(definition, codedError('ethical_wall', 'Access blocked by ethical wall', {
+      wallId: 'wall1',
+      caseId: 'case1',
+    }));
+    
+    const response = await call(definition, client, { params: { caseId: 'case1' } });
+    
+    expect(response).toEqual({
+      status: 403,
+      body: { error: { code: 'ethical_wall', message: 'Access blocked by ethical wall' } },
+    });
+    expect(reports).toEqual([
+      ['ethicalWalls:recordBlockedAccess', { wallId: 'wall1', caseId: 'case1', resource: 'GET /cases/:caseId' }],
+    ]);
+  });
+  
+  it('records unexpected errors without the arguments', async () => {
+    process.env.CONTROL_PLANE_SECRET = 'secret';
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const definition = route('get', '/cases/:caseId');
+    const { client, reports } = failingClient(definition, new Error('Server Error'));
+    
+    const response = await call(definition, client, { params: { caseId: 'case1' } });
+    
+    expect(response.status).toBe(500);
+    expect(reports).toEqual([
+      ['systemEvents:recordError', { secret: 'secret', source: 'GET /cases/:caseId', message: 'Server Error' }],
+    ]);
+  });
+  
+  it('still answers when the report fails', async () => {
+    const error = codedError('permission_denied', 'Permission denied: missing cases.read', { permissions: ['cases.read'] });
+    const client = { query: vi.fn(async () => { throw error; }), mutation: vi.fn(async () => { throw new Error('offline'); }) };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    
+    const response = await call(route('get', '/cases'), client);
+    
+    expect(response.status).toBe(403);
+    expect(client.mutation).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,1511 @@
+// ================================================
+// ORGANIZATION LIFECYCLE STATE MACHINE
+// ================================================
+// control-plane/convex/lib/lifecycle.ts
+
+import { v } from "convex/values";
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+// Every state an organization can be in
+export const ORGANIZATION_STATUSES = [
+  "provisioning",
+  "active",
+  "suspended",
+  "failed",
+  "offboarding",
+  "archived",
+  "deleted",
+] as const;
+
+export type OrganizationStatus = typeof ORGANIZATION_STATUSES[number];
+
+// Allowed transitions (from -> to)
+const ALLOWED_TRANSITIONS: Record<OrganizationStatus, OrganizationStatus[]> = {
+  provisioning: ["active", "failed", "deleted"],
+  failed: ["provisioning", "deleted"], // Retry or give up
+  active: ["suspended", "offboarding"],
+  suspended: ["active", "offboarding"],
+  offboarding: ["active", "archived"], // Offboarding can be cancelled
+  archived: ["deleted"],
+  deleted: [], // Terminal
+};
+
+// What tenants in each state may do through the gateway
+const ACCESS_LEVELS: Record<OrganizationStatus, "full" | "read_only" | "none"> = {
+  provisioning: "none",
+  active: "full",
+  suspended: "none",
+  failed: "none",
+  offboarding: "read_only", // Firms export their data while offboarding
+  archived: "none",
+  deleted: "none",
+};
+
+export function isOrganizationStatus(status: string): status is OrganizationStatus {
+  return (ORGANIZATION_STATUSES as readonly string[]).includes(status);
+}
+
+export function canTransition(from: string, to: OrganizationStatus): boolean {
+  return isOrganizationStatus(from) && ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+// Consistent status view shared by every control plane query
+export function describeOrganizationStatus(org: Doc<"organizations">) {
+  const status = isOrganizationStatus(org.deploymentStatus) ?
+    org.deploymentStatus : "failed"; // Unknown legacy values are treated as failed
+  
+  return {
+    deploymentStatus: status,
+    accessLevel: ACCESS_LEVELS[status],
+    statusReason: org.statusReason,
+    statusChangedAt: org.statusChangedAt,
+  };
+}
+
+// What the gateway needs to route a request to an organization
+export const organizationRouteValidator = v.object({
+  _id: v.id("organizations"),
+  name: v.string(),
+  domain: v.string(),
+  projectUrl: v.string(),
+  deploymentStatus: v.string(),
+  accessLevel: v.string(), // "full" | "read_only" | "none"
+  statusReason: v.optional(v.string()),
+  statusChangedAt: v.optional(v.number()),
+  plan: v.string(),
+});
+
+export function toOrganizationRoute(org: Doc<"organizations">) {
+  return {
+    _id: org._id,
+    name: org.name,
+    domain: org.domain,
+    projectUrl: org.projectUrl,
+    plan: org.plan || "standard",
+    ...describeOrganizationStatus(org),
+  };
+}
+
+// Record the history entry for a freshly created organization
+export async function recordInitialStatus(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  actorClerkId: string
+) {
+  await ctx.db.insert("organizationStatusHistory", {
+    organizationId,
+    toStatus: "provisioning",
+    reason: "Organization created",
+    actorClerkId,
+    createdAt: Date.now(),
+  });
+}
+
+// Validate and apply a lifecycle transition, recording it in history
+export async function transitionOrganization(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  toStatus: OrganizationStatus,
+  transition: {
+    reason: string;
+    actorClerkId: string;
+    patch?: Partial<Doc<"organizations">>;
+  }
+) {
+  const org = await ctx.db.get(organizationId);
+  if (!org) throw new Error("Organization not found");
+  
+  if (!transition.reason.trim()) {
+    throw new Error("A reason is required for lifecycle transitions");
+  }
+  
+  if (!canTransition(org.deploymentStatus, toStatus)) {
+    throw new Error(
+      `Invalid status transition: ${org.deploymentStatus} -> ${toStatus}`
+    );
+  }
+  
+  const now = Date.now();
+  
+  await ctx.db.patch(organizationId, {
+    ...transition.patch,
+    deploymentStatus: toStatus,
+    statusReason: transition.reason,
+    statusChangedBy: transition.actorClerkId,
+    statusChangedAt: now,
+    updatedAt: now,
+  });
+  
+  await ctx.db.insert("organizationStatusHistory", {
+    organizationId,
+    fromStatus: org.deploymentStatus,
+    toStatus,
+    reason: transition.reason,
+    actorClerkId: transition.actorClerkId,
+    createdAt: now,
+  });
+}
+
+// ================================================
+// ORGANIZATION LIFECYCLE FUNCTIONS
+// ================================================
+// control-plane/convex/lifecycle.ts
+
+import { v, ObjectType } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { OrganizationStatus, transitionOrganization } from "./lib/lifecycle";
+import { requireOperator } from "./lib/auth";
+import { assertControlPlaneSecret } from "../../client-template/convex/lib/secrets";
+
+const transitionArgs = {
+  organizationId: v.id("organizations"),
+  reason: v.string(),
+  secret: v.optional(v.string()), // Scripts only; operators sign in
+};
+
+// The history records who made the change, as verified by lib/auth.ts
+async function transitionAsCaller(
+  ctx: MutationCtx,
+  args: ObjectType<typeof transitionArgs>,
+  toStatus: OrganizationStatus
+) {
+  const actorClerkId = await requireOperator(ctx, args.secret);
+  await transitionOrganization(ctx, args.organizationId, toStatus, {
+    reason: args.reason,
+    actorClerkId,
+  });
+}
+
+// Suspend an active organization (e.g. non-payment, security incident)
+export const suspendOrganization = mutation({
+  args: transitionArgs,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await transitionAsCaller(ctx, args, "suspended");
+    return null;
+  },
+});
+
+// Reactivate a suspended organization, or cancel offboarding
+export const resumeOrganization = mutation({
+  args: transitionArgs,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await transitionAsCaller(ctx, args, "active");
+    return null;
+  },
+});
+
+// Mark a provisioning run as failed so it can be retried or deleted
+export const markProvisioningFailed = mutation({
+  args: transitionArgs,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await transitionAsCaller(ctx, args, "failed");
+    return null;
+  },
+});
+
+// Move a failed organization back to provisioning for another attempt
+export const retryProvisioning = mutation({
+  args: transitionArgs,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await transitionAsCaller(ctx, args, "provisioning");
+    return null;
+  },
+});
+
+// Start offboarding (tenant becomes read-only for data export)
+export const beginOffboarding = mutation({
+  args: transitionArgs,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await transitionAsCaller(ctx, args, "offboarding");
+    return null;
+  },
+});
+
+// Archive an offboarded organization
+export const archiveOrganization = mutation({
+  args: transitionArgs,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await transitionAsCaller(ctx, args, "archived");
+    return null;
+  },
+});
+
+// Delete an organization (record is kept for audit, domain stays reserved)
+export const deleteOrganization = mutation({
+  args: transitionArgs,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await transitionAsCaller(ctx, args, "deleted");
+    return null;
+  },
+});
+
+// Organizations changed since a timestamp, polled by gateways to invalidate
+// their tenant caches. Only gateways may list the fleet's domains, so they
+// present the CONTROL_PLANE_SECRET.
+export const listOrganizationChangesSince = query({
+  args: {
+    since: v.number(),
+    secret: v.string(),
+  },
+  returns: v.object({
+    changes: v.array(v.object({
+      organizationId: v.id("organizations"),
+      domain: v.string(),
+      updatedAt: v.number(),
+    })),
+    cursor: v.number(), // Pass back as `since` on the next poll
+  }),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const changed = await ctx.db
+      .query("organizations")
+      .withIndex("by_updated", (q) => q.gt("updatedAt", args.since))
+      .take(500);
+    
+    return {
+      changes: changed.map(org => ({
+        organizationId: org._id,
+        domain: org.domain,
+        updatedAt: org.updatedAt,
+      })),
+      cursor: changed.reduce((max, org) => Math.max(max, org.updatedAt), args.since),
+    };
+  },
+});
+
+// Get lifecycle history for an organization (newest first)
+export const getOrganizationStatusHistory = query({
+  args: {
+    organizationId: v.id("organizations"),
+    secret: v.optional(v.string()),
+  },
+  returns: v.array(v.object({
+    fromStatus: v.optional(v.string()),
+    toStatus: v.string(),
+    reason: v.string(),
+    actorClerkId: v.string(),
+    createdAt: v.number(),
+  })),
+  handler: async (ctx, args) => {
+    await requireOperator(ctx, args.secret);
+    
+    const history = await ctx.db
+      .query("organizationStatusHistory")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .order("desc")
+      .collect();
+    
+    return history.map(h => ({
+      fromStatus: h.fromStatus,
+      toStatus: h.toStatus,
+      reason: h.reason,
+      actorClerkId: h.actorClerkId,
+      createdAt: h.createdAt,
+    }));
+  },
+});
+
+// ================================================
+// PROVISIONING WORKFLOW STEPS
+// ================================================
+// control-plane/convex/lib/provisioning.ts
+
+// Ordered steps of a provisioning run
+export const PROVISIONING_STEPS = [
+  "createProject",
+  "deploySchema",
+  "seedEnvironment",
+  "seedData",
+  "registerProject",
+] as const;
+
+export type ProvisioningStep = typeof PROVISIONING_STEPS[number];
+
+// How long a claimed run stays locked without progress
+export const PROVISIONING_LOCK_MS = 10 * 60 * 1000; // 10 minutes
+
+export function initialProvisioningSteps() {
+  return PROVISIONING_STEPS.map(name => ({
+    name,
+    status: "pending",
+    attempts: 0,
+  }));
+}
+
+// ================================================
+// PROVISIONING WORKFLOW FUNCTIONS
+// ================================================
+// control-plane/convex/provisioning.ts
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { transitionOrganization } from "./lib/lifecycle";
+import { requireOperator } from "./lib/auth";
+import {
+  initialProvisioningSteps,
+  PROVISIONING_LOCK_MS,
+  PROVISIONING_STEPS,
+} from "./lib/provisioning";
+
+const stepValidator = v.object({
+  name: v.string(),
+  status: v.string(),
+  attempts: v.number(),
+  output: v.optional(v.any()),
+  error: v.optional(v.string()),
+  completedAt: v.optional(v.number()),
+});
+
+// Claim the organization's provisioning run, creating one or resuming a failed one
+export const claimProvisioningRun = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    secret: v.optional(v.string()), // The provisioning script
+  },
+  returns: v.object({
+    runId: v.id("provisioningRuns"),
+    steps: v.array(stepValidator),
+  }),
+  handler: async (ctx, args) => {
+    const actorClerkId = await requireOperator(ctx, args.secret);
+    
+    const org = await ctx.db.get(args.organizationId);
+    if (!org) throw new Error("Organization not found");
+    
+    // A failed organization goes back to provisioning for the retry
+    if (org.deploymentStatus === "failed") {
+      await transitionOrganization(ctx, args.organizationId, "provisioning", {
+        reason: "Provisioning retried",
+        actorClerkId,
+      });
+    } else if (org.deploymentStatus !== "provisioning") {
+      throw new Error(`Organization cannot be provisioned while ${org.deploymentStatus}`);
+    }
+    
+    const now = Date.now();
+    const latest = await ctx.db
+      .query("provisioningRuns")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .order("desc")
+      .first();
+    
+    if (latest && latest.status !== "completed") {
+      if (latest.status === "running" && (latest.lockedUntil || 0) > now) {
+        throw new Error("Provisioning already in progress");
+      }
+      
+      await ctx.db.patch(latest._id, {
+        status: "running",
+        lockedUntil: now + PROVISIONING_LOCK_MS,
+        updatedAt: now,
+      });
+      
+      return { runId: latest._id, steps: latest.steps };
+    }
+    
+    const steps = initialProvisioningSteps();
+    const runId = await ctx.db.insert("provisioningRuns", {
+      organizationId: args.organizationId,
+      status: "running",
+      steps,
+      lockedUntil: now + PROVISIONING_LOCK_MS,
+      startedBy: actorClerkId,
+      createdAt: now,
+      updatedAt: now,
+    });
+    
+    return { runId, steps };
+  },
+});
+
+// Record the outcome of a single provisioning step
+export const recordProvisioningStep = mutation({
+  args: {
+    runId: v.id("provisioningRuns"),
+    step: v.string(),
+    status: v.string(), // "completed" | "failed"
+    output: v.optional(v.any()),
+    error: v.optional(v.string()),
+    secret: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireOperator(ctx, args.secret);
+    
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Provisioning run not found");
+    
+    if (!(PROVISIONING_STEPS as readonly string[]).includes(args.step)) {
+      throw new Error(`Unknown provisioning step: ${args.step}`);
+    }
+    if (args.status !== "completed" && args.status !== "failed") {
+      throw new Error(`Invalid step status: ${args.status}`);
+    }
+    
+    const now = Date.now();
+    const steps = run.steps.map(s => s.name !== args.step ? s : {
+      ...s,
+      status: args.status,
+      attempts: s.attempts + 1,
+      output: args.status === "completed" ? args.output : s.output,
+      error: args.error,
+      completedAt: args.status === "completed" ? now : undefined,
+    });
+    
+    if (args.status === "failed") {
+      await ctx.db.patch(args.runId, {
+        steps,
+        status: "failed",
+        lockedUntil: undefined,
+        updatedAt: now,
+      });
+      
+      await transitionOrganization(ctx, run.organizationId, "failed", {
+        reason: `Provisioning step ${args.step} failed: ${args.error || "unknown error"}`,
+        actorClerkId: "system",
+      });
+      
+      return null;
+    }
+    
+    const allCompleted = steps.every(s => s.status === "completed");
+    await ctx.db.patch(args.runId, {
+      steps,
+      status: allCompleted ? "completed" : "running",
+      lockedUntil: allCompleted ? undefined : now + PROVISIONING_LOCK_MS,
+      updatedAt: now,
+    });
+    
+    return null;
+  },
+});
+
+// Get the latest provisioning run for an organization
+export const getProvisioningRun = query({
+  args: {
+    organizationId: v.id("organizations"),
+    secret: v.optional(v.string()),
+  },
+  returns: v.union(
+    v.object({
+      _id: v.id("provisioningRuns"),
+      status: v.string(),
+      steps: v.array(stepValidator),
+      createdAt: v.number(),
+      updatedAt: v.number(),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    await requireOperator(ctx, args.secret);
+    
+    const run = await ctx.db
+      .query("provisioningRuns")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .order("desc")
+      .first();
+    
+    if (!run) return null;
+    
+    return {
+      _id: run._id,
+      status: run.status,
+      steps: run.steps,
+      createdAt: run.createdAt,
+      updatedAt: run.updatedAt,
+    };
+  },
+});
+
+// ================================================
+// PROVISIONING DRIVERS
+// ================================================
+// scripts/provisioning/drivers.ts
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+export interface ProvisionedProject {
+  projectId: string;
+  projectUrl: string;
+}
+
+// Everything the orchestrator needs from the outside world.
+// Every method must be safe to call again after a partial failure.
+export interface ProvisioningDriver {
+  createProject(projectName: string): Promise<ProvisionedProject>;
+  deploySchema(project: ProvisionedProject): Promise<void>;
+  setEnvironmentVariables(project: ProvisionedProject, vars: Record<string, string>): Promise<void>;
+  runFunction(project: ProvisionedProject, functionName: string, args: Record<string, unknown>): Promise<void>;
+}
+
+// Driver backed by the Convex CLI
+export function createConvexCliDriver(
+  templatePath = path.join(__dirname, '../../client-template')
+): ProvisioningDriver {
+  const convex = async (args: string[], project?: ProvisionedProject) => {
+    const { stdout } = await execFileAsync('npx', ['convex', ...args], {
+      cwd: templatePath,
+      env: project ?
+        { ...process.env, CONVEX_URL: project.projectUrl } :
+        process.env,
+    });
+    return stdout;
+  };
+  
+  return {
+    async createProject(projectName) {
+      const stdout = await convex(['deploy', '--new', projectName]);
+      
+      const urlMatch = stdout.match(/https:\/\/[^.\s]+\.convex\.cloud/);
+      if (!urlMatch) throw new Error('Failed to extract project URL');
+      
+      const projectUrl = urlMatch[0];
+      return {
+        projectId: projectUrl.split('//')[1].split('.')[0],
+        projectUrl,
+      };
+    },
+    
+    async deploySchema(project) {
+      await convex(['deploy'], project);
+    },
+    
+    async setEnvironmentVariables(project, vars) {
+      for (const [key, value] of Object.entries(vars)) {
+        await convex(['env', 'set', key, value], project);
+      }
+    },
+    
+    async runFunction(project, functionName, args) {
+      await convex(['run', functionName, JSON.stringify(args)], project);
+    },
+  };
+}
+
+// In-memory driver for local runs and tests.
+// `failOnce` makes the named operation throw on its first call only.
+export function createLocalFakeDriver(
+  options: { failOnce?: keyof ProvisioningDriver } = {}
+) {
+  const projects = new Map<string, ProvisionedProject & {
+    deployed: boolean;
+    env: Record<string, string>;
+    functionCalls: { functionName: string; args: Record<string, unknown> }[];
+  }>();
+  let pendingFailure = options.failOnce;
+  
+  const maybeFail = (operation: keyof ProvisioningDriver) => {
+    if (pendingFailure === operation) {
+      pendingFailure = undefined;
+      throw new Error(`Simulated ${operation} failure`);
+    }
+  };
+  
+  const getProject = (project: ProvisionedProject) => {
+    const state = projects.get(project.projectId);
+    if (!state) throw new Error(`Unknown project ${project.projectId}`);
+    return state;
+  };
+  
+  const driver: ProvisioningDriver = {
+    async createProject(projectName) {
+      maybeFail('createProject');
+      
+      // Creating the same project twice returns the existing one
+      const projectId = projectName.replace(/[^a-z0-9-]/gi, '-').toLowerCase();
+      if (!projects.has(projectId)) {
+        projects.set(projectId, {
+          projectId,
+          projectUrl: `https://${projectId}.convex.cloud`,
+          deployed: false,
+          env: {},
+          functionCalls: [],
+        });
+      }
+      const { projectUrl } = projects.get(projectId)!;
+      return { projectId, projectUrl };
+    },
+    
+    async deploySchema(project) {
+      maybeFail('deploySchema');
+      getProject(project).deployed = true;
+    },
+    
+    async setEnvironmentVariables(project, vars) {
+      maybeFail('setEnvironmentVariables');
+      Object.assign(getProject(project).env, vars);
+    },
+    
+    async runFunction(project, functionName, args) {
+      maybeFail('runFunction');
+      const state = getProject(project);
+      if (!state.deployed) throw new Error('Project has not been deployed');
+      state.functionCalls.push({ functionName, args });
+    },
+  };
+  
+  return { driver, projects };
+}
+
+// ================================================
+// MEMBERSHIP GUARDRAILS
+// ================================================
+// control-plane/convex/lib/memberships.ts
+
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getPlan } from "../../../client-template/convex/lib/plans";
+import { requireIdentity } from "./auth";
+
+export const ORGANIZATION_ROLES = ["owner", "admin", "user"] as const;
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export function assertValidRole(role: string): asserts role is OrganizationRole {
+  if (!(ORGANIZATION_ROLES as readonly string[]).includes(role)) {
+    throw new Error(`Invalid role: ${role}`);
+  }
+}
+
+export async function getMembership(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  clerkUserId: string
+) {
+  return await ctx.db
+    .query("userOrganizations")
+    .withIndex("by_organization_and_user", (q) =>
+      q.eq("organizationId", organizationId).eq("clerkUserId", clerkUserId)
+    )
+    .first();
+}
+
+// Members plus (optionally) pending, unexpired invitations
+export async function countSeats(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  includePendingInvitations = false
+) {
+  const members = await ctx.db
+    .query("userOrganizations")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .collect();
+  
+  if (!includePendingInvitations) return members.length;
+  
+  const pending = await ctx.db
+    .query("organizationInvitations")
+    .withIndex("by_organization", (q) =>
+      q.eq("organizationId", organizationId).eq("status", "pending")
+    )
+    .collect();
+  
+  return members.length + pending.filter(i => i.expiresAt > Date.now()).length;
+}
+
+export async function assertSeatAvailable(
+  ctx: QueryCtx,
+  org: Doc<"organizations">,
+  includePendingInvitations = false
+) {
+  const { seatLimit } = getPlan(org.plan);
+  if (await countSeats(ctx, org._id, includePendingInvitations) >= seatLimit) {
+    throw new Error(`Seat limit reached (${seatLimit} seats on this plan)`);
+  }
+}
+
+export async function countOwners(ctx: QueryCtx, organizationId: Id<"organizations">) {
+  const members = await ctx.db
+    .query("userOrganizations")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .collect();
+  return members.filter(m => m.role === "owner").length;
+}
+
+// The caller's membership, or an error when they do not belong to the
+// organization
+export async function requireMember(ctx: QueryCtx, organizationId: Id<"organizations">) {
+  const { clerkUserId } = await requireIdentity(ctx);
+  const member = await getMembership(ctx, organizationId, clerkUserId);
+  if (!member) throw new Error("Not a member of this organization");
+  return member;
+}
+
+// Owners manage everyone; admins manage plain users only. Returns the
+// caller's membership.
+export async function assertCanManage(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  roles: string[] // Current and/or requested roles of the target
+) {
+  const { clerkUserId } = await requireIdentity(ctx);
+  const actor = await getMembership(ctx, organizationId, clerkUserId);
+  if (!actor || (actor.role !== "owner" && actor.role !== "admin")) {
+    throw new Error("Only owners and admins can manage members");
+  }
+  
+  if (actor.role === "admin" && roles.some(r => r !== "user")) {
+    throw new Error("Only owners can manage owners and admins");
+  }
+  
+  return actor;
+}
+
+export function generateSecureToken() {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function hashInvitationToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ================================================
+// INVITATIONS AND MEMBERSHIP FUNCTIONS
+// ================================================
+// control-plane/convex/memberships.ts
+
+import { v } from "convex/values";
+import { action, internalMutation, mutation, query, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { ConvexHttpClient } from "convex/browser";
+import { api as clientApi } from "../../client-template/convex/_generated/api";
+import { assertControlPlaneSecret } from "../../client-template/convex/lib/secrets";
+import { requireIdentity } from "./lib/auth";
+import {
+  assertCanManage,
+  assertSeatAvailable,
+  assertValidRole,
+  countOwners,
+  generateSecureToken,
+  getMembership,
+  hashInvitationToken,
+  INVITATION_TTL_MS,
+  requireMember,
+} from "./lib/memberships";
+
+// Firm role given to organization owners and admins on sync; plain members
+// keep whatever role the firm assigned them (new users start as "client")
+const FIRM_ADMIN_ROLE = "partner";
+
+// Owners and admins who become plain members lose the partner role until
+// the firm assigns them another
+const FIRM_MEMBER_ROLE = "client";
+
+function firmRoleForChange(fromRole: string, toRole: string) {
+  if (toRole !== "user") return FIRM_ADMIN_ROLE;
+  return fromRole !== "user" ? FIRM_MEMBER_ROLE : undefined;
+}
+
+// Mirror a membership change into the firm's own users table
+async function syncFirmUser(
+  projectUrl: string,
+  user: { clerkUserId: string; email: string; name: string; isActive: boolean; role?: string }
+) {
+  const client = new ConvexHttpClient(projectUrl);
+  await client.mutation(clientApi.users.ensureUser, {
+    ...user,
+    controlPlaneSecret: process.env.CONTROL_PLANE_SECRET!,
+  });
+}
+
+// Invite someone to an organization. The token is returned once and only its
+// hash is stored.
+export const createInvitation = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    email: v.string(),
+    role: v.string(),
+  },
+  returns: v.object({
+    invitationId: v.id("organizationInvitations"),
+    token: v.string(),
+    expiresAt: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    assertValidRole(args.role);
+    
+    const org = await ctx.db.get(args.organizationId);
+    if (!org || org.deploymentStatus !== "active") {
+      throw new Error("Organization is not active");
+    }
+    
+    const actor = await assertCanManage(ctx, args.organizationId, [args.role]);
+    
+    const email = args.email.trim().toLowerCase();
+    const pending = await ctx.db
+      .query("organizationInvitations")
+      .withIndex("by_email", (q) => q.eq("email", email).eq("status", "pending"))
+      .collect();
+    
+    if (pending.some(i => i.organizationId === args.organizationId && i.expiresAt > Date.now())) {
+      throw new Error("Invitation already pending");
+    }
+    
+    // Pending invitations hold a seat until they expire
+    await assertSeatAvailable(ctx, org, true);
+    
+    const token = generateSecureToken();
+    const expiresAt = Date.now() + INVITATION_TTL_MS;
+    
+    const invitationId = await ctx.db.insert("organizationInvitations", {
+      organizationId: args.organizationId,
+      email,
+      role: args.role,
+      tokenHash: await hashInvitationToken(token),
+      status: "pending",
+      invitedBy: actor.clerkUserId,
+      expiresAt,
+      createdAt: Date.now(),
+    });
+    
+    return { invitationId, token, expiresAt };
+  },
+});
+
+// Look up a pending, unexpired invitation by its token. Only the person it
+// was sent to may act on it, so a leaked link is useless to anyone else.
+async function getPendingInvitation(ctx: QueryCtx, token: string, email: string | undefined) {
+  const tokenHash = await hashInvitationToken(token);
+  const invitation = await ctx.db
+    .query("organizationInvitations")
+    .withIndex("by_token", (q) => q.eq("tokenHash", tokenHash))
+    .first();
+  
+  if (!invitation) throw new Error("Invitation not found");
+  if (invitation.status !== "pending") {
+    throw new Error(`Invitation already ${invitation.status}`);
+  }
+  if (invitation.expiresAt <= Date.now()) {
+    throw new Error("Invitation has expired");
+  }
+  if (invitation.email !== email) {
+    throw new Error("Invitation was sent to a different email address");
+  }
+  
+  return invitation;
+}
+
+// Consume an invitation token and create the membership. The user and
+// email come from the caller's verified identity (see acceptInvitation).
+export const consumeInvitation = internalMutation({
+  args: {
+    token: v.string(),
+    clerkUserId: v.string(),
+    email: v.string(),
+  },
+  returns: v.object({
+    organizationId: v.id("organizations"),
+    projectUrl: v.string(),
+    role: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const invitation = await getPendingInvitation(ctx, args.token, args.email);
+    
+    const org = await ctx.db.get(invitation.organizationId);
+    if (!org || org.deploymentStatus !== "active") {
+      throw new Error("Organization is not active");
+    }
+    
+    const existing = await getMembership(ctx, invitation.organizationId, args.clerkUserId);
+    if (!existing) {
+      await assertSeatAvailable(ctx, org);
+      await ctx.db.insert("userOrganizations", {
+        clerkUserId: args.clerkUserId,
+        organizationId: invitation.organizationId,
+        role: invitation.role,
+        invitedBy: invitation.invitedBy,
+        addedAt: Date.now(),
+      });
+      await ctx.db.patch(invitation.organizationId, { updatedAt: Date.now() });
+    }
+    
+    await ctx.db.patch(invitation._id, {
+      status: "accepted",
+      acceptedBy: args.clerkUserId,
+      respondedAt: Date.now(),
+    });
+    
+    return {
+      organizationId: invitation.organizationId,
+      projectUrl: org.projectUrl,
+      role: existing?.role || invitation.role,
+    };
+  },
+});
+
+// Accept an invitation and provision the user in the firm's project
+export const acceptInvitation = action({
+  args: {
+    token: v.string(),
+    name: v.string(),
+  },
+  returns: v.object({
+    organizationId: v.id("organizations"),
+    role: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const identity = await requireIdentity(ctx);
+    if (!identity.email) throw new Error("Your account has no email address");
+    
+    const membership = await ctx.runMutation(internal.memberships.consumeInvitation, {
+      token: args.token,
+      clerkUserId: identity.clerkUserId,
+      email: identity.email,
+    });
+    
+    await syncFirmUser(membership.projectUrl, {
+      clerkUserId: identity.clerkUserId,
+      email: identity.email,
+      name: args.name,
+      isActive: true,
+      role: membership.role === "user" ? undefined : FIRM_ADMIN_ROLE,
+    });
+    
+    return {
+      organizationId: membership.organizationId,
+      role: membership.role,
+    };
+  },
+});
+
+// Decline an invitation
+export const declineInvitation = mutation({
+  args: { token: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { email } = await requireIdentity(ctx);
+    const invitation = await getPendingInvitation(ctx, args.token, email);
+    
+    await ctx.db.patch(invitation._id, {
+      status: "declined",
+      respondedAt: Date.now(),
+    });
+    
+    return null;
+  },
+});
+
+// Revoke a pending invitation
+export const revokeInvitation = mutation({
+  args: {
+    invitationId: v.id("organizationInvitations"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const invitation = await ctx.db.get(args.invitationId);
+    if (!invitation) throw new Error("Invitation not found");
+    if (invitation.status !== "pending") {
+      throw new Error(`Invitation already ${invitation.status}`);
+    }
+    
+    await assertCanManage(ctx, invitation.organizationId, [invitation.role]);
+    
+    await ctx.db.patch(args.invitationId, {
+      status: "revoked",
+      respondedAt: Date.now(),
+    });
+    
+    return null;
+  },
+});
+
+// List an organization's pending invitations
+export const listPendingInvitations = query({
+  args: { organizationId: v.id("organizations") },
+  returns: v.array(v.object({
+    _id: v.id("organizationInvitations"),
+    email: v.string(),
+    role: v.string(),
+    invitedBy: v.string(),
+    expiresAt: v.number(),
+    expired: v.boolean(),
+  })),
+  handler: async (ctx, args) => {
+    await assertCanManage(ctx, args.organizationId, []);
+    
+    const invitations = await ctx.db
+      .query("organizationInvitations")
+      .withIndex("by_organization", (q) =>
+        q.eq("organizationId", args.organizationId).eq("status", "pending")
+      )
+      .collect();
+    
+    return invitations.map(i => ({
+      _id: i._id,
+      email: i.email,
+      role: i.role,
+      invitedBy: i.invitedBy,
+      expiresAt: i.expiresAt,
+      expired: i.expiresAt <= Date.now(),
+    }));
+  },
+});
+
+// Change a member's role. The firm role it implies is kept on the
+// membership until the firm's project has it, so a failed sync is finished
+// by calling changeMemberRole again.
+export const updateMemberRole = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    clerkUserId: v.string(),
+    role: v.string(),
+  },
+  returns: v.object({
+    membershipId: v.id("userOrganizations"),
+    projectUrl: v.string(),
+    firmRole: v.optional(v.string()), // Still to be pushed to the firm's project
+  }),
+  handler: async (ctx, args) => {
+    assertValidRole(args.role);
+    
+    const member = await getMembership(ctx, args.organizationId, args.clerkUserId);
+    if (!member) throw new Error("Member not found");
+    
+    await assertCanManage(ctx, args.organizationId, [member.role, args.role]);
+    
+    let pendingFirmRole = member.pendingFirmRole;
+    if (member.role !== args.role) {
+      if (member.role === "owner" && await countOwners(ctx, args.organizationId) <= 1) {
+        throw new Error("Cannot demote the last owner");
+      }
+      
+      pendingFirmRole = firmRoleForChange(member.role, args.role);
+      await ctx.db.patch(member._id, { role: args.role, pendingFirmRole });
+      await ctx.db.patch(args.organizationId, { updatedAt: Date.now() }); // Invalidates gateway caches
+    }
+    
+    const org = await ctx.db.get(args.organizationId);
+    return { membershipId: member._id, projectUrl: org?.projectUrl || "", firmRole: pendingFirmRole };
+  },
+});
+
+export const markFirmRoleSynced = internalMutation({
+  args: {
+    membershipId: v.id("userOrganizations"),
+    firmRole: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    // A later change may have queued another role meanwhile
+    const member = await ctx.db.get(args.membershipId);
+    if (member?.pendingFirmRole === args.firmRole) {
+      await ctx.db.patch(args.membershipId, { pendingFirmRole: undefined });
+    }
+    return null;
+  },
+});
+
+// Change a member's role and mirror it into the firm's project
+export const changeMemberRole = action({
+  args: {
+    organizationId: v.id("organizations"),
+    clerkUserId: v.string(),
+    role: v.string(),
+    email: v.string(),
+    name: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { membershipId, projectUrl, firmRole } = await ctx.runMutation(
+      internal.memberships.updateMemberRole,
+      { organizationId: args.organizationId, clerkUserId: args.clerkUserId, role: args.role }
+    );
+    
+    if (projectUrl && firmRole) {
+      await syncFirmUser(projectUrl, {
+        clerkUserId: args.clerkUserId,
+        email: args.email,
+        name: args.name,
+        isActive: true,
+        role: firmRole,
+      });
+      await ctx.runMutation(internal.memberships.markFirmRoleSynced, { membershipId, firmRole });
+    }
+    
+    return null;
+  },
+});
+
+// Remove a membership row (self-removal is always allowed). Runs with the
+// identity of the removeMember caller. A member who is already gone is not
+// an error, so removeMember can be retried when the firm sync failed.
+export const removeMembership = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    clerkUserId: v.string(),
+  },
+  returns: v.object({ projectUrl: v.string() }),
+  handler: async (ctx, args) => {
+    const member = await getMembership(ctx, args.organizationId, args.clerkUserId);
+    
+    const { clerkUserId } = await requireIdentity(ctx);
+    if (clerkUserId !== args.clerkUserId) {
+      await assertCanManage(ctx, args.organizationId, member ? [member.role] : []);
+    }
+    
+    if (member) {
+      if (member.role === "owner" && await countOwners(ctx, args.organizationId) <= 1) {
+        throw new Error("Cannot remove the last owner");
+      }
+      
+      await ctx.db.delete(member._id);
+      await ctx.db.patch(args.organizationId, { updatedAt: Date.now() }); // Invalidates gateway caches
+    }
+    
+    const org = await ctx.db.get(args.organizationId);
+    return { projectUrl: org?.projectUrl || "" };
+  },
+});
+
+// Remove a member and deactivate them in the firm's project. Safe to retry.
+export const removeMember = action({
+  args: {
+    organizationId: v.id("organizations"),
+    clerkUserId: v.string(),
+    email: v.string(),
+    name: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { projectUrl } = await ctx.runMutation(internal.memberships.removeMembership, {
+      organizationId: args.organizationId,
+      clerkUserId: args.clerkUserId,
+    });
+    
+    if (projectUrl) {
+      await syncFirmUser(projectUrl, {
+        clerkUserId: args.clerkUserId,
+        email: args.email,
+        name: args.name,
+        isActive: false,
+      });
+    }
+    
+    return null;
+  },
+});
+
+// Role of a user in an organization, or null when not a member.
+// Used by the gateway to reject cross-tenant requests; the gateway has
+// already verified the user's token and presents the CONTROL_PLANE_SECRET.
+export const getMembershipRole = query({
+  args: {
+    organizationId: v.id("organizations"),
+    clerkUserId: v.string(),
+    secret: v.string(),
+  },
+  returns: v.union(v.string(), v.null()),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const member = await getMembership(ctx, args.organizationId, args.clerkUserId);
+    return member?.role ?? null;
+  },
+});
+
+// List an organization's members
+export const listMembers = query({
+  args: { organizationId: v.id("organizations") },
+  returns: v.array(v.object({
+    clerkUserId: v.string(),
+    role: v.string(),
+    invitedBy: v.optional(v.string()),
+    addedAt: v.number(),
+  })),
+  handler: async (ctx, args) => {
+    await requireMember(ctx, args.organizationId);
+    
+    const members = await ctx.db
+      .query("userOrganizations")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .collect();
+    
+    return members.map(m => ({
+      clerkUserId: m.clerkUserId,
+      role: m.role,
+      invitedBy: m.invitedBy,
+      addedAt: m.addedAt,
+    }));
+  },
+});
+
+// ================================================
+// CUSTOM DOMAIN MAPPINGS
+// ================================================
+// control-plane/convex/domains.ts
+
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { organizationRouteValidator, toOrganizationRoute } from "./lib/lifecycle";
+import { assertCanManage, generateSecureToken } from "./lib/memberships";
+
+// TXT record that must contain the verification token
+export const VERIFICATION_RECORD_PREFIX = "_legal-verify";
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// How long an unverified mapping holds its hostname. After that anyone may
+// claim it again, so organizations cannot squat on hostnames they don't own.
+const PENDING_MAPPING_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function normalizeHostname(hostname: string) {
+  return hostname.trim().toLowerCase().replace(/:\d+$/, "").replace(/\.$/, "");
+}
+
+// Register a vanity hostname for an organization (starts unverified). Takes
+// over a mapping that was never verified once it has expired.
+export const addCustomDomain = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    hostname: v.string(),
+  },
+  returns: v.object({
+    hostname: v.string(),
+    txtRecordName: v.string(),
+    txtRecordValue: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const actor = await assertCanManage(ctx, args.organizationId, []);
+    
+    const hostname = normalizeHostname(args.hostname);
+    if (!HOSTNAME_PATTERN.test(hostname)) {
+      throw new Error("Invalid hostname");
+    }
+    
+    // Platform subdomains are resolved by name and cannot be claimed
+    const baseDomain = process.env.TENANT_BASE_DOMAIN;
+    if (baseDomain && (hostname === baseDomain || hostname.endsWith(`.${baseDomain}`))) {
+      throw new Error("Hostnames under the platform domain cannot be mapped");
+    }
+    
+    const existing = await ctx.db
+      .query("domainMappings")
+      .withIndex("by_hostname", (q) => q.eq("hostname", hostname))
+      .first();
+    
+    if (existing) {
+      const expired = existing.verificationStatus !== "verified" &&
+        existing.createdAt + PENDING_MAPPING_TTL_MS < Date.now();
+      if (!expired) {
+        throw new Error("Hostname already mapped");
+      }
+      await ctx.db.delete(existing._id);
+    }
+    
+    const verificationToken = generateSecureToken();
+    await ctx.db.insert("domainMappings", {
+      organizationId: args.organizationId,
+      hostname,
+      verificationStatus: "pending",
+      verificationToken,
+      addedBy: actor.clerkUserId,
+      createdAt: Date.now(),
+    });
+    await ctx.db.patch(args.organizationId, { updatedAt: Date.now() });
+    
+    return {
+      hostname,
+      txtRecordName: `${VERIFICATION_RECORD_PREFIX}.${hostname}`,
+      txtRecordValue: verificationToken,
+    };
+  },
+});
+
+// Remove a hostname mapping
+export const removeCustomDomain = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    hostname: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await assertCanManage(ctx, args.organizationId, []);
+    
+    const mapping = await ctx.db
+      .query("domainMappings")
+      .withIndex("by_hostname", (q) => q.eq("hostname", normalizeHostname(args.hostname)))
+      .first();
+    
+    if (!mapping || mapping.organizationId !== args.organizationId) {
+      throw new Error("Hostname not found");
+    }
+    
+    await ctx.db.delete(mapping._id);
+    await ctx.db.patch(args.organizationId, { updatedAt: Date.now() }); // Invalidates gateway caches
+    return null;
+  },
+});
+
+// List an organization's hostnames
+export const listCustomDomains = query({
+  args: { organizationId: v.id("organizations") },
+  returns: v.array(v.object({
+    hostname: v.string(),
+    verificationStatus: v.string(),
+    txtRecordName: v.string(),
+    txtRecordValue: v.string(),
+    verifiedAt: v.optional(v.number()),
+    lastCheckedAt: v.optional(v.number()),
+    lastCheckError: v.optional(v.string()),
+  })),
+  handler: async (ctx, args) => {
+    await assertCanManage(ctx, args.organizationId, []);
+    
+    const mappings = await ctx.db
+      .query("domainMappings")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .collect();
+    
+    return mappings.map(m => ({
+      hostname: m.hostname,
+      verificationStatus: m.verificationStatus,
+      txtRecordName: `${VERIFICATION_RECORD_PREFIX}.${m.hostname}`,
+      txtRecordValue: m.verificationToken,
+      verifiedAt: m.verifiedAt,
+      lastCheckedAt: m.lastCheckedAt,
+      lastCheckError: m.lastCheckError,
+    }));
+  },
+});
+
+// Resolve a request hostname to an organization. Unverified mappings are
+// reported but carry no organization so they can never be routed to.
+export const getOrganizationByHostname = query({
+  args: { hostname: v.string() },
+  returns: v.union(
+    v.object({
+      verificationStatus: v.string(),
+      organization: v.union(organizationRouteValidator, v.null()),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const mapping = await ctx.db
+      .query("domainMappings")
+      .withIndex("by_hostname", (q) => q.eq("hostname", normalizeHostname(args.hostname)))
+      .first();
+    
+    if (!mapping) return null;
+    
+    if (mapping.verificationStatus !== "verified") {
+      return { verificationStatus: mapping.verificationStatus, organization: null };
+    }
+    
+    const org = await ctx.db.get(mapping.organizationId);
+    return {
+      verificationStatus: mapping.verificationStatus,
+      organization: org && org.deploymentStatus !== "deleted" ?
+        toOrganizationRoute(org) : null,
+    };
+  },
+});
+
+export const getMappingForVerification = internalQuery({
+  args: { hostname: v.string() },
+  returns: v.union(
+    v.object({ mappingId: v.id("domainMappings"), verificationToken: v.string() }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const mapping = await ctx.db
+      .query("domainMappings")
+      .withIndex("by_hostname", (q) => q.eq("hostname", normalizeHostname(args.hostname)))
+      .first();
+    
+    return mapping ? { mappingId: mapping._id, verificationToken: mapping.verificationToken } : null;
+  },
+});
+
+// Recorded against the mapping that was checked, which another organization
+// may have taken over meanwhile (see addCustomDomain)
+export const recordVerificationResult = internalMutation({
+  args: {
+    mappingId: v.id("domainMappings"),
+    verified: v.boolean(),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const mapping = await ctx.db.get(args.mappingId);
+    if (!mapping) return null;
+    
+    // A verified domain stays verified when a later re-check fails transiently
+    await ctx.db.patch(mapping._id, {
+      verificationStatus: args.verified ? "verified" :
+        mapping.verificationStatus === "verified" ? "verified" : "failed",
+      verifiedAt: args.verified ? mapping.verifiedAt || Date.now() : mapping.verifiedAt,
+      lastCheckedAt: Date.now(),
+      lastCheckError: args.error,
+    });
+    
+    if (args.verified && mapping.verificationStatus !== "verified") {
+      await ctx.db.patch(mapping.organizationId, { updatedAt: Date.now() });
+    }
+    
+    return null;
+  },
+});
+
+// ================================================
+// CUSTOM DOMAIN VERIFICATION (DNS)
+// ================================================
+// control-plane/convex/domainVerification.ts
+
+"use node";
+
+import { v } from "convex/values";
+import { promises as dns } from "dns";
+import { action } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { normalizeHostname, VERIFICATION_RECORD_PREFIX } from "./domains";
+
+// Check the DNS TXT challenge for a hostname
+export const verifyCustomDomain = action({
+  args: { hostname: v.string() },
+  returns: v.object({
+    verified: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const hostname = normalizeHostname(args.hostname);
+    const mapping = await ctx.runQuery(internal.domains.getMappingForVerification, { hostname });
+    if (!mapping) throw new Error("Hostname not found");
+    
+    let verified = false;
+    let error: string | undefined;
+    
+    try {
+      const records = await dns.resolveTxt(`${VERIFICATION_RECORD_PREFIX}.${hostname}`);
+      verified = records.some(chunks => chunks.join("") === mapping.verificationToken);
+      if (!verified) error = "Verification token not found in TXT records";
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    
+    await ctx.runMutation(internal.domains.recordVerificationResult, {
+      mappingId: mapping.mappingId,
+      verified,
+      error,
+    });
+    
+    return { verified, error };
+  },
+});
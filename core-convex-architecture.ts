@@ -15,33 +15,255 @@ export default defineSchema({
     // Convex project connection info
     projectId: v.string(),
     projectUrl: v.string(),
-    deploymentStatus: v.string(), // "provisioning" | "active" | "suspended"
+    deploymentStatus: v.string(), // "provisioning" | "active" | "suspended" | "failed" | "offboarding" | "archived" | "deleted"
+    
+    // Last lifecycle transition
+    statusReason: v.optional(v.string()),
+    statusChangedBy: v.optional(v.string()), // Clerk user ID or "system"
+    statusChangedAt: v.optional(v.number()),
+    
+    // Client-template schema version applied to this tenant (unset = 1)
+    schemaVersion: v.optional(v.number()),
+    
+    // Subscription plan, drives quotas and rate limits (unset = "standard")
+    plan: v.optional(v.string()), // "standard" | "professional" | "enterprise"
     
     // Basic metadata
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_domain", ["domain"])
-    .index("by_status", ["deploymentStatus"]),
+    .index("by_status", ["deploymentStatus"])
+    .index("by_updated", ["updatedAt"]), // Gateway cache invalidation feed
+
+  // Lifecycle transition history (append-only)
+  organizationStatusHistory: defineTable({
+    organizationId: v.id("organizations"),
+    fromStatus: v.optional(v.string()), // Unset for the initial "provisioning" entry
+    toStatus: v.string(),
+    reason: v.string(),
+    actorClerkId: v.string(), // Clerk user ID or "system"
+    createdAt: v.number(),
+  })
+    .index("by_organization", ["organizationId", "createdAt"])
+    .index("by_status", ["toStatus", "createdAt"]),
+
+  // Provisioning workflow runs (one step entry per provisioning step)
+  provisioningRuns: defineTable({
+    organizationId: v.id("organizations"),
+    status: v.string(), // "running" | "completed" | "failed"
+    
+    steps: v.array(v.object({
+      name: v.string(), // "createProject" | "deploySchema" | "seedEnvironment" | "seedData" | "registerProject"
+      status: v.string(), // "pending" | "completed" | "failed"
+      attempts: v.number(),
+      output: v.optional(v.any()), // Step result reused on resume (e.g. project URL)
+      error: v.optional(v.string()),
+      completedAt: v.optional(v.number()),
+    })),
+    
+    // Prevents two orchestrators working on the same run
+    lockedUntil: v.optional(v.number()),
+    
+    startedBy: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_organization", ["organizationId", "createdAt"])
+    .index("by_status", ["status"]),
+
+  // Fleet-wide schema migration runs
+  fleetMigrationRuns: defineTable({
+    targetVersion: v.number(),
+    dryRun: v.boolean(),
+    haltOnError: v.boolean(),
+    canaryDomains: v.array(v.string()),
+    batchSize: v.number(),
+    
+    status: v.string(), // "running" | "completed" | "halted" | "failed"
+    succeeded: v.number(),
+    failed: v.number(),
+    skipped: v.number(),
+    
+    startedBy: v.string(),
+    createdAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_status", ["status"]),
+
+  // Per-organization migration results
+  schemaMigrations: defineTable({
+    organizationId: v.id("organizations"),
+    fleetRunId: v.optional(v.id("fleetMigrationRuns")),
+    
+    fromVersion: v.number(),
+    toVersion: v.number(),
+    status: v.string(), // "applied" | "failed" | "dry_run"
+    documentsChanged: v.number(),
+    error: v.optional(v.string()),
+    
+    startedAt: v.number(),
+    completedAt: v.number(),
+  })
+    .index("by_organization", ["organizationId", "completedAt"])
+    .index("by_fleet_run", ["fleetRunId"]),
 
   // User to organization mapping
   userOrganizations: defineTable({
     clerkUserId: v.string(),
     organizationId: v.id("organizations"),
     role: v.string(), // "owner" | "admin" | "user"
+    invitedBy: v.optional(v.string()), // Clerk user ID of the inviter
+    pendingFirmRole: v.optional(v.string()), // Not yet synced to the firm's project (see memberships.ts)
     addedAt: v.number(),
   })
     .index("by_user", ["clerkUserId"])
+    .index("by_organization", ["organizationId"])
+    .index("by_organization_and_user", ["organizationId", "clerkUserId"]),
+
+  // Pending and historical invitations
+  organizationInvitations: defineTable({
+    organizationId: v.id("organizations"),
+    email: v.string(), // Lowercased
+    role: v.string(), // "owner" | "admin" | "user"
+    
+    // Only the SHA-256 of the single-use token is stored
+    tokenHash: v.string(),
+    
+    status: v.string(), // "pending" | "accepted" | "declined" | "revoked" | "expired"
+    invitedBy: v.string(),
+    expiresAt: v.number(),
+    respondedAt: v.optional(v.number()),
+    acceptedBy: v.optional(v.string()), // Clerk user ID
+    
+    createdAt: v.number(),
+  })
+    .index("by_token", ["tokenHash"])
+    .index("by_organization", ["organizationId", "status"])
+    .index("by_email", ["email", "status"]),
+
+  // Vanity hostnames mapped to organizations (e.g. "portal.smithlaw.com")
+  domainMappings: defineTable({
+    organizationId: v.id("organizations"),
+    hostname: v.string(), // Lowercased, no port
+    
+    // DNS TXT challenge
+    verificationStatus: v.string(), // "pending" | "verified" | "failed"
+    verificationToken: v.string(),
+    verifiedAt: v.optional(v.number()),
+    lastCheckedAt: v.optional(v.number()),
+    lastCheckError: v.optional(v.string()),
+    
+    addedBy: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_hostname", ["hostname"])
     .index("by_organization", ["organizationId"]),
+
+  // Monthly usage per organization, feeds billing exports
+  usageSnapshots: defineTable({
+    organizationId: v.id("organizations"),
+    period: v.string(), // "YYYY-MM" (UTC)
+    plan: v.string(),
+    
+    // Usage and the plan limits in force when the snapshot was taken
+    seats: v.number(),
+    seatLimit: v.number(),
+    storageBytes: v.number(),
+    storageBytesLimit: v.number(),
+    pagesProcessed: v.number(),
+    pagesLimit: v.number(),
+    
+    createdAt: v.number(),
+  })
+    .index("by_organization", ["organizationId", "period"])
+    .index("by_period", ["period"]),
 });
 
+// ================================================
+// CONTROL PLANE AUTH CONFIG
+// ================================================
+// control-plane/convex/auth.config.ts
+
+// Clerk JWTs (the "convex" template) from the dashboard and the onboarding
+// flow. Scripts and the gateway call without a user; see lib/auth.ts.
+export default {
+  providers: [
+    {
+      domain: process.env.CLERK_JWT_ISSUER_DOMAIN,
+      applicationID: "convex",
+    },
+  ],
+};
+
+// ================================================
+// CONTROL PLANE CALLERS
+// ================================================
+// control-plane/convex/lib/auth.ts
+
+import { ActionCtx, MutationCtx, QueryCtx } from "../_generated/server";
+import { assertControlPlaneSecret } from "../../../client-template/convex/lib/secrets";
+
+// Recorded as the actor of changes made by scripts and the gateway
+export const SYSTEM_ACTOR = "system";
+
+// Actors are always taken from the verified token, never from arguments
+export async function requireIdentity(ctx: QueryCtx | MutationCtx | ActionCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Not authenticated");
+  
+  return {
+    clerkUserId: identity.subject,
+    email: identity.email?.toLowerCase(),
+  };
+}
+
+// Platform staff, by Clerk user ID (comma-separated PLATFORM_OPERATOR_IDS)
+export function isPlatformOperator(clerkUserId: string) {
+  return (process.env.PLATFORM_OPERATOR_IDS || "")
+    .split(",")
+    .map(id => id.trim())
+    .includes(clerkUserId);
+}
+
+// Lifecycle and fleet operations are run by a platform operator, or by a
+// script holding the CONTROL_PLANE_SECRET. Returns the actor to record.
+export async function requireOperator(ctx: QueryCtx | MutationCtx | ActionCtx, secret?: string) {
+  if (secret !== undefined) {
+    assertControlPlaneSecret(secret);
+    return SYSTEM_ACTOR;
+  }
+  
+  const { clerkUserId } = await requireIdentity(ctx);
+  if (!isPlatformOperator(clerkUserId)) throw new Error("Unauthorized");
+  return clerkUserId;
+}
+
 // ================================================
 // CONTROL PLANE CORE FUNCTIONS
 // ================================================
 // control-plane/convex/organizations.ts
 
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
 import { mutation, query } from "./_generated/server";
+import {
+  describeOrganizationStatus,
+  organizationRouteValidator,
+  recordInitialStatus,
+  toOrganizationRoute,
+  transitionOrganization,
+} from "./lib/lifecycle";
+import { requireIdentity, requireOperator } from "./lib/auth";
+import { isPlanName } from "../../client-template/convex/lib/plans";
+import { boundedPage, pageValidator } from "../../client-template/convex/lib/pagination";
+
+// Slugs that collide with gateway routes (/api/:domain/... vs /api/cases/...)
+const RESERVED_DOMAINS = [
+  "api", "www", "app", "admin", "internal", "openapi.json",
+  "cases", "documents", "ingestions", "entities", "ethical-walls",
+  "conflict-checks",
+];
 
 // Register a new organization
 export const createOrganization = mutation({
@@ -49,9 +271,24 @@ export const createOrganization = mutation({
     name: v.string(),
     domain: v.string(),
     ownerClerkId: v.string(),
+    plan: v.optional(v.string()), // Operators only; others start on the default plan
+    secret: v.optional(v.string()), // Control plane secret, for scripts setting a plan
   },
   returns: v.id("organizations"),
   handler: async (ctx, args) => {
+    if (RESERVED_DOMAINS.includes(args.domain)) {
+      throw new Error("Domain is reserved");
+    }
+    
+    // The history records who created the organization, not its owner
+    const actorClerkId = args.plan !== undefined || args.secret !== undefined ?
+      await requireOperator(ctx, args.secret) :
+      (await requireIdentity(ctx)).clerkUserId;
+    
+    if (args.plan !== undefined && !isPlanName(args.plan)) {
+      throw new Error(`Invalid plan: ${args.plan}`);
+    }
+    
     // Check domain uniqueness
     const existing = await ctx.db
       .query("organizations")
@@ -69,6 +306,7 @@ export const createOrganization = mutation({
       projectId: "", // Will be set after provisioning
       projectUrl: "", // Will be set after provisioning  
       deploymentStatus: "provisioning",
+      plan: args.plan,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     });
@@ -81,6 +319,8 @@ export const createOrganization = mutation({
       addedAt: Date.now(),
     });
     
+    await recordInitialStatus(ctx, orgId, actorClerkId);
+    
     return orgId;
   },
 });
@@ -89,12 +329,7 @@ export const createOrganization = mutation({
 export const getOrganizationByDomain = query({
   args: { domain: v.string() },
   returns: v.union(
-    v.object({
-      _id: v.id("organizations"),
-      name: v.string(),
-      projectUrl: v.string(),
-      deploymentStatus: v.string(),
-    }),
+    organizationRouteValidator,
     v.null()
   ),
   handler: async (ctx, args) => {
@@ -103,16 +338,12 @@ export const getOrganizationByDomain = query({
       .withIndex("by_domain", (q) => q.eq("domain", args.domain))
       .first();
     
-    if (!org || org.deploymentStatus !== "active") {
+    // Deleted organizations are indistinguishable from unknown domains
+    if (!org || org.deploymentStatus === "deleted") {
       return null;
     }
     
-    return {
-      _id: org._id,
-      name: org.name,
-      projectUrl: org.projectUrl,
-      deploymentStatus: org.deploymentStatus,
-    };
+    return toOrganizationRoute(org);
   },
 });
 
@@ -122,29 +353,43 @@ export const updateOrganizationProject = mutation({
     organizationId: v.id("organizations"),
     projectId: v.string(),
     projectUrl: v.string(),
+    schemaVersion: v.optional(v.number()),
+    secret: v.optional(v.string()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.organizationId, {
-      projectId: args.projectId,
-      projectUrl: args.projectUrl,
-      deploymentStatus: "active",
-      updatedAt: Date.now(),
+    const actorClerkId = await requireOperator(ctx, args.secret);
+    
+    await transitionOrganization(ctx, args.organizationId, "active", {
+      reason: "Provisioning completed",
+      actorClerkId,
+      patch: {
+        projectId: args.projectId,
+        projectUrl: args.projectUrl,
+        schemaVersion: args.schemaVersion,
+      },
     });
     
     return null;
   },
 });
 
-// Get user's organizations
+// Get user's organizations, a page of memberships at a time
 export const getUserOrganizations = query({
-  args: { clerkUserId: v.string() },
-  returns: v.array(v.object({
+  args: {
+    clerkUserId: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: pageValidator(v.object({
     organizationId: v.id("organizations"),
     organization: v.object({
       name: v.string(),
       domain: v.string(),
       projectUrl: v.string(),
+      deploymentStatus: v.string(),
+      accessLevel: v.string(), // "full" | "read_only" | "none"
+      statusReason: v.optional(v.string()),
+      statusChangedAt: v.optional(v.number()),
     }),
     role: v.string(),
   })),
@@ -152,25 +397,32 @@ export const getUserOrganizations = query({
     const userOrgs = await ctx.db
       .query("userOrganizations")
       .withIndex("by_user", (q) => q.eq("clerkUserId", args.clerkUserId))
-      .collect();
+      .paginate(boundedPage(args.paginationOpts));
     
+    // Deleted organizations are dropped after pagination, so pages may run
+    // short; the cursor still advances correctly
     const results = [];
-    for (const userOrg of userOrgs) {
+    for (const userOrg of userOrgs.page) {
       const org = await ctx.db.get(userOrg.organizationId);
-      if (org && org.deploymentStatus === "active") {
+      if (org && org.deploymentStatus !== "deleted") {
         results.push({
           organizationId: userOrg.organizationId,
           organization: {
             name: org.name,
             domain: org.domain,
             projectUrl: org.projectUrl,
+            ...describeOrganizationStatus(org),
           },
           role: userOrg.role,
         });
       }
     }
     
-    return results;
+    return {
+      page: results,
+      isDone: userOrgs.isDone,
+      continueCursor: userOrgs.continueCursor,
+    };
   },
 });
 
@@ -263,6 +515,22 @@ export default defineSchema({
     .index("by_time", ["createdAt"]),
 });
 
+// ================================================
+// CLIENT PROJECT AUTH CONFIG
+// ================================================
+// client-template/convex/auth.config.ts
+
+// Clerk JWTs (the "convex" template) forwarded by the API gateway or sent
+// directly from the frontend
+export default {
+  providers: [
+    {
+      domain: process.env.CLERK_JWT_ISSUER_DOMAIN,
+      applicationID: "convex",
+    },
+  ],
+};
+
 // ================================================
 // CLIENT PROJECT CORE FUNCTIONS
 // ================================================
@@ -270,6 +538,10 @@ export default defineSchema({
 
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
+import { wrapApi } from "./lib/apiWrapper";
+import { codedError } from "./lib/errors";
+import { isFirmRole, permissionsForRole } from "./lib/permissions";
+import { assertControlPlaneSecret } from "./lib/secrets";
 
 // Get or create user in this law firm
 export const ensureUser = mutation({
@@ -277,9 +549,23 @@ export const ensureUser = mutation({
     clerkUserId: v.string(),
     email: v.string(),
     name: v.string(),
+    
+    // Membership sync from the control plane
+    isActive: v.optional(v.boolean()),
+    role: v.optional(v.string()), // "partner" | "associate" | "paralegal" | "client"
+    controlPlaneSecret: v.optional(v.string()),
   },
   returns: v.id("users"),
   handler: async (ctx, args) => {
+    // Only the control plane may activate or deactivate users or set roles
+    if (args.isActive !== undefined || args.role !== undefined) {
+      assertControlPlaneSecret(args.controlPlaneSecret);
+    }
+    
+    if (args.role !== undefined && !isFirmRole(args.role)) {
+      throw codedError("invalid_argument", `Invalid role: ${args.role}`);
+    }
+    
     // Check if user exists
     const existing = await ctx.db
       .query("users")
@@ -287,17 +573,31 @@ export const ensureUser = mutation({
       .first();
     
     if (existing) {
+      if (args.isActive !== undefined && existing.isActive !== args.isActive) {
+        await ctx.db.patch(existing._id, {
+          isActive: args.isActive,
+          updatedAt: Date.now(),
+        });
+      }
+      if (args.role && isFirmRole(args.role) && existing.role !== args.role) {
+        await ctx.db.patch(existing._id, {
+          role: args.role,
+          permissions: permissionsForRole(args.role),
+          updatedAt: Date.now(),
+        });
+      }
       return existing._id;
     }
     
-    // Create new user
+    // Create new user (least privileged role unless the control plane says otherwise)
+    const role = args.role && isFirmRole(args.role) ? args.role : "client";
     return await ctx.db.insert("users", {
       clerkUserId: args.clerkUserId,
       email: args.email,
       name: args.name,
-      role: "user", // Default role
-      permissions: ["cases.read", "documents.read"],
-      isActive: true,
+      role,
+      permissions: permissionsForRole(role),
+      isActive: args.isActive ?? true,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     });
@@ -338,6 +638,38 @@ export const getCurrentUser = query({
   },
 });
 
+// Assign a firm role, resetting permissions to the role's template
+export const setUserRole = mutation({
+  args: {
+    userId: v.id("users"),
+    role: v.string(), // "partner" | "associate" | "paralegal" | "client"
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "user.role_changed",
+      requires: ["users.manage"],
+    },
+    async (ctx, context, args) => {
+      if (!isFirmRole(args.role)) {
+        throw codedError("invalid_argument", `Invalid role: ${args.role}`);
+      }
+      
+      const user = await ctx.db.get(args.userId);
+      if (!user) throw codedError("not_found", "User not found");
+      
+      await ctx.db.patch(args.userId, {
+        role: args.role,
+        permissions: permissionsForRole(args.role),
+        updatedAt: Date.now(),
+      });
+      
+      return null;
+    }
+  ),
+});
+
 // ================================================
 // CLIENT PROJECT CASES
 // ================================================
@@ -448,52 +780,132 @@ export const create = mutation({
 
 import { ConvexHttpClient } from 'convex/browser';
 import { api } from '../control-plane/convex/_generated/api';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import * as fs from 'fs/promises';
-import * as path from 'path';
-
-const execAsync = promisify(exec);
+import { Id } from '../control-plane/convex/_generated/dataModel';
+import { PROVISIONING_STEPS, ProvisioningStep } from '../control-plane/convex/lib/provisioning';
+import { CURRENT_SCHEMA_VERSION } from '../client-template/convex/migrations/registry';
+import {
+  createConvexCliDriver,
+  ProvisionedProject,
+  ProvisioningDriver,
+} from './provisioning/drivers';
+import { ensureDataKey } from './rotate-keys';
+
+// Environment variables copied from the gateway host into every client project
+const TEMPLATE_ENV_KEYS = [
+  'GOOGLE_CLOUD_PROJECT',
+  'VERTEX_AI_LOCATION',
+  'GEMINI_PRO_MODEL',
+  'GEMINI_FLASH_MODEL',
+  'AWS_S3_BUCKET',
+  'AWS_REGION',
+  'CHUNKR_API_KEY',
+  'DOCETL_API_KEY',
+  'MIGRATION_SECRET',
+  'CONTROL_PLANE_SECRET',
+  'CLERK_JWT_ISSUER_DOMAIN',
+];
+
+export interface ProvisionOptions {
+  driver?: ProvisioningDriver;
+  controlPlane?: ConvexHttpClient;
+  plan?: string; // See client-template/convex/lib/plans.ts
+}
 
-export async function provisionClient(organizationId: string, domain: string) {
+// Provision (or resume provisioning of) a law firm's Convex project.
+// Each step's outcome is stored in the control plane, so re-running after a
+// failure picks up from the last completed step.
+export async function provisionClient(
+  organizationId: Id<'organizations'>,
+  domain: string,
+  options: ProvisionOptions = {}
+) {
+  const driver = options.driver || createConvexCliDriver();
+  const controlPlane = options.controlPlane ||
+    new ConvexHttpClient(process.env.CONTROL_PLANE_URL!);
+  // Runs are recorded as started by "system"
+  const secret = process.env.CONTROL_PLANE_SECRET!;
+  
   console.log(`Provisioning Convex project for ${domain}...`);
   
-  try {
-    // 1. Create new Convex project
-    const projectName = `legal-${domain}`;
-    const templatePath = path.join(__dirname, '../client-template');
-    
-    // Create Convex project
-    const { stdout } = await execAsync(
-      `npx convex deploy --new "${projectName}"`,
-      { cwd: templatePath }
-    );
-    
-    // Extract project URL
-    const urlMatch = stdout.match(/https:\/\/[^.]+\.convex\.cloud/);
-    if (!urlMatch) throw new Error('Failed to extract project URL');
-    
-    const projectUrl = urlMatch[0];
-    const projectId = projectUrl.split('//')[1].split('.')[0];
-    
-    // 2. Deploy schema and functions
-    await execAsync('npx convex deploy', { cwd: templatePath });
-    
-    // 3. Update control plane
-    const controlPlane = new ConvexHttpClient(process.env.CONTROL_PLANE_URL!);
-    await controlPlane.mutation(api.organizations.updateOrganizationProject, {
-      organizationId,
-      projectId,
-      projectUrl,
-    });
-    
-    console.log(`✅ Successfully provisioned ${domain} at ${projectUrl}`);
-    return { projectId, projectUrl };
+  const run = await controlPlane.mutation(api.provisioning.claimProvisioningRun, {
+    organizationId,
+    secret,
+  });
+  
+  // Outputs of steps completed in earlier attempts
+  let project: ProvisionedProject | undefined = run.steps
+    .find(s => s.name === 'createProject' && s.status === 'completed')?.output;
+  
+  const runStep = async (step: ProvisioningStep) => {
+    switch (step) {
+      case 'createProject':
+        project = await driver.createProject(`legal-${domain}`);
+        return project;
+      case 'deploySchema':
+        await driver.deploySchema(project!);
+        return undefined;
+      case 'seedEnvironment': {
+        const vars: Record<string, string> = {
+          CONTROL_PLANE_URL: process.env.CONTROL_PLANE_URL || '',
+          ORGANIZATION_ID: organizationId,
+          ORGANIZATION_DOMAIN: domain,
+          ORGANIZATION_PLAN: options.plan || 'standard',
+        };
+        for (const key of TEMPLATE_ENV_KEYS) {
+          if (process.env[key]) vars[key] = process.env[key]!;
+        }
+        await driver.setEnvironmentVariables(project!, vars);
+        return { keys: Object.keys(vars) };
+      }
+      case 'seedData':
+        await driver.runFunction(project!, 'seed:seedOrganization', { domain });
+        await ensureDataKey(project!.projectUrl);
+        return undefined;
+      case 'registerProject':
+        await controlPlane.mutation(api.organizations.updateOrganizationProject, {
+          organizationId,
+          projectId: project!.projectId,
+          projectUrl: project!.projectUrl,
+          schemaVersion: CURRENT_SCHEMA_VERSION,
+          secret,
+        });
+        return undefined;
+    }
+  };
+  
+  for (const step of PROVISIONING_STEPS) {
+    const previous = run.steps.find(s => s.name === step);
+    if (previous?.status === 'completed') {
+      console.log(`  ↷ ${step} (already completed)`);
+      continue;
+    }
     
-  } catch (error) {
-    console.error(`❌ Failed to provision ${domain}:`, error);
-    throw error;
+    try {
+      const output = await runStep(step);
+      await controlPlane.mutation(api.provisioning.recordProvisioningStep, {
+        runId: run.runId,
+        step,
+        status: 'completed',
+        output,
+        secret,
+      });
+      console.log(`  ✓ ${step}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await controlPlane.mutation(api.provisioning.recordProvisioningStep, {
+        runId: run.runId,
+        step,
+        status: 'failed',
+        error: message,
+        secret,
+      });
+      console.error(`❌ Failed to provision ${domain} at step ${step}:`, error);
+      throw error;
+    }
   }
+  
+  console.log(`✅ Successfully provisioned ${domain} at ${project!.projectUrl}`);
+  return project!;
 }
 
 // ================================================
@@ -503,45 +915,93 @@ export async function provisionClient(organizationId: string, domain: string) {
 
 import { ConvexHttpClient } from 'convex/browser';
 import { Request, Response, NextFunction } from 'express';
-
-// Store client connections
-const clientConnections = new Map<string, ConvexHttpClient>();
-
-// Get or create client connection
-export function getClientConnection(projectUrl: string): ConvexHttpClient {
-  if (!clientConnections.has(projectUrl)) {
-    clientConnections.set(projectUrl, new ConvexHttpClient(projectUrl));
+import { resolveTenant } from './tenantResolution';
+import { getClientConnection, getConnectionPoolMetrics } from './connectionPool';
+import { getTenantCacheMetrics, startTenantCacheInvalidation } from './tenantCache';
+import { getRateLimitMetrics } from './rateLimit';
+import { registerTenantRoutes } from './routes/tenant';
+import { buildOpenApiDocument } from './routes/openapi';
+
+// Single control plane client shared by all requests
+let controlPlaneClient: ConvexHttpClient | undefined;
+
+export function getControlPlaneClient(): ConvexHttpClient {
+  if (!controlPlaneClient) {
+    controlPlaneClient = new ConvexHttpClient(process.env.CONTROL_PLANE_URL!);
+    startTenantCacheInvalidation(controlPlaneClient);
   }
-  return clientConnections.get(projectUrl)!;
+  return controlPlaneClient;
 }
 
+// HTTP status for organizations that cannot be routed to
+const UNAVAILABLE_STATUS_CODES: Record<string, number> = {
+  provisioning: 503,
+  failed: 503,
+  suspended: 423,
+  archived: 410,
+};
+
 // Route to correct Convex project
 export async function routeToClient(req: Request, res: Response, next: NextFunction) {
-  const domain = req.params.domain;
+  // Get organization from control plane (host, subdomain or path; cached)
+  const resolution = await resolveTenant(req, getControlPlaneClient());
+  
+  if ('error' in resolution) {
+    return res.status(resolution.status).json({
+      error: { code: resolution.code, message: resolution.error },
+    });
+  }
   
-  // Get organization from control plane
-  const controlPlane = new ConvexHttpClient(process.env.CONTROL_PLANE_URL!);
-  const org = await controlPlane.query(api.organizations.getOrganizationByDomain, { domain });
+  const org = resolution.organization;
+  
+  if (org.accessLevel === 'none') {
+    return res.status(UNAVAILABLE_STATUS_CODES[org.deploymentStatus] || 503).json({
+      error: {
+        code: 'organization_unavailable',
+        message: 'Organization unavailable',
+        status: org.deploymentStatus,
+        reason: org.statusReason,
+      },
+    });
+  }
   
-  if (!org) {
-    return res.status(404).json({ error: 'Organization not found' });
+  if (org.accessLevel === 'read_only' && req.method !== 'GET') {
+    return res.status(403).json({
+      error: {
+        code: 'organization_read_only',
+        message: 'Organization is read-only',
+        status: org.deploymentStatus,
+      },
+    });
   }
   
   // Attach client connection to request
   req.convexClient = getClientConnection(org.projectUrl);
-  req.organizationDomain = domain;
+  req.organization = org;
+  req.organizationDomain = org.domain;
+  req.tenantSource = resolution.source;
   
   next();
 }
 
-// Example usage
-app.get('/api/:domain/cases', routeToClient, async (req, res) => {
-  try {
-    const cases = await req.convexClient.query(api.cases.list, {
-      status: req.query.status as string,
-    });
-    res.json(cases);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch cases' });
+// Gateway cache and connection metrics
+app.get('/internal/metrics', (req, res) => {
+  if (!process.env.GATEWAY_INTERNAL_TOKEN ||
+      req.get('x-internal-token') !== process.env.GATEWAY_INTERNAL_TOKEN) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Not found' } });
   }
-});
\ No newline at end of file
+  
+  res.json({
+    tenantCache: getTenantCacheMetrics(),
+    connections: getConnectionPoolMetrics(),
+    rateLimits: getRateLimitMetrics(),
+  });
+});
+
+// Tenant REST API (see routes/definitions.ts)
+registerTenantRoutes(app);
+
+// OpenAPI document generated from the route definitions
+app.get('/api/openapi.json', (req, res) => {
+  res.json(buildOpenApiDocument());
+});
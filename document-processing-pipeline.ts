@@ -34,6 +34,12 @@ export default defineSchema({
         outputPath: v.optional(v.string()),
         error: v.optional(v.string()),
       })),
+      local: v.optional(v.object({ // Built-in converter for text, HTML and DOCX
+        status: v.string(),
+        startedAt: v.optional(v.number()),
+        completedAt: v.optional(v.number()),
+        error: v.optional(v.string()),
+      })),
       docetl: v.optional(v.object({
         status: v.string(),
         startedAt: v.optional(v.number()),
@@ -46,6 +52,26 @@ export default defineSchema({
     // Converted content
     markdownStorageId: v.optional(v.id("_storage")), // Converted .md file
     markdownContent: v.optional(v.string()), // For smaller files, store directly
+    pageCount: v.optional(v.number()), // Reported by the converter, counts towards the page quota
+    mentionsRunAt: v.optional(v.number()), // Set while entity mentions are being linked
+    chunksRunAt: v.optional(v.number()), // Set while the chunks are being replaced
+    
+    // Document structure reported by the converter (see lib/documentStructure.ts)
+    pageMap: v.optional(v.array(v.object({
+      page: v.number(),
+      offset: v.number(), // Where the page starts in the markdown
+    }))),
+    outline: v.optional(v.array(v.object({
+      level: v.number(),
+      title: v.string(),
+      pageNumber: v.optional(v.number()),
+    }))),
+    tables: v.optional(v.array(v.object({
+      headers: v.array(v.string()),
+      rowCount: v.number(),
+      offset: v.number(),
+      pageNumber: v.optional(v.number()),
+    }))),
     
     // Metadata
     uploadedBy: v.id("users"),
@@ -82,7 +108,7 @@ export default defineSchema({
         dateOfBirth: v.optional(v.string()),
         identification: v.optional(v.array(v.object({
           type: v.string(), // "ssn" | "driver_license" | "passport"
-          value: v.string(), // Encrypted
+          value: v.string(), // Ciphertext, see lib/fieldEncryption.ts
           issuingAuthority: v.optional(v.string()),
         }))),
       })),
@@ -132,6 +158,9 @@ export default defineSchema({
       })),
     }),
     
+    // Keyed hashes of the identification values (see lib/blindIndex.ts)
+    identifierHashes: v.optional(v.array(v.string())),
+    
     // Extraction metadata
     confidence: v.number(), // 0-1 confidence score from DocETL
     sourceContext: v.string(), // Surrounding text for context
@@ -143,6 +172,20 @@ export default defineSchema({
       height: v.number(),
     })),
     
+    // Mentions linked before they moved to entityMentions. Moved there by
+    // migration 6; declared until every tenant is past that version.
+    locations: v.optional(v.array(v.object({
+      chunkId: v.id("documentChunks"),
+      startOffset: v.number(), // Into the chunk's plainText
+      endOffset: v.number(),
+      context: v.string(), // Surrounding text
+    }))),
+    
+    // Duplicate of another entity in the case (see lib/entityResolution.ts).
+    // The row is kept, with its source document and mentions, so the merge
+    // can be undone.
+    mergedIntoId: v.optional(v.id("entities")),
+    
     // Validation status
     validated: v.boolean(),
     validatedBy: v.optional(v.id("users")),
@@ -157,10 +200,55 @@ export default defineSchema({
     .index("by_type_and_subtype", ["entityType", "entitySubtype"])
     .index("by_name", ["name"])
     .index("by_confidence", ["confidence"])
+    .index("by_merged_into", ["mergedIntoId"])
     .searchIndex("search_entities", {
       searchField: "name",
       filterFields: ["entityType", "caseId"],
     }),
+  
+  // Where entities are mentioned in their document's chunks (see
+  // lib/entityMentions.ts)
+  entityMentions: defineTable({
+    entityId: v.id("entities"),
+    chunkId: v.id("documentChunks"),
+    chunkIndex: v.number(),
+    startOffset: v.number(), // Into the chunk's plainText
+    endOffset: v.number(),
+    context: v.string(), // Surrounding text
+  })
+    .index("by_entity", ["entityId", "chunkIndex", "startOffset"])
+    .index("by_chunk", ["chunkId"]),
+  
+  // Possible duplicates waiting for a reviewer
+  entityMatchCandidates: defineTable({
+    caseId: v.id("cases"),
+    entityId: v.id("entities"), // The newer entity
+    candidateId: v.id("entities"), // What it may duplicate
+    score: v.number(), // 0-1
+    reasons: v.array(v.string()), // "same_name" | "similar_name" | "date_of_birth" | "identifier" | "different_roles"
+    status: v.string(), // "pending" | "merged" | "rejected"
+    reviewedBy: v.optional(v.id("users")),
+    reviewedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_case_and_status", ["caseId", "status"])
+    .index("by_pair", ["entityId", "candidateId"]),
+  
+  // Every merge, automatic or reviewed, and whether it was undone
+  entityMerges: defineTable({
+    caseId: v.id("cases"),
+    entityId: v.id("entities"), // The duplicate
+    intoId: v.id("entities"),
+    method: v.string(), // "automatic" | "review"
+    score: v.number(),
+    reasons: v.array(v.string()),
+    mergedBy: v.optional(v.id("users")), // Unset for automatic merges
+    createdAt: v.number(),
+    undoneBy: v.optional(v.id("users")),
+    undoneAt: v.optional(v.number()),
+  })
+    .index("by_entity", ["entityId"])
+    .index("by_into", ["intoId"]),
 
   // Relationships between entities
   entityRelationships: defineTable({
@@ -197,7 +285,7 @@ export default defineSchema({
     
     // Chunk identification
     chunkIndex: v.number(), // Order in document
-    chunkType: v.string(), // "header" | "paragraph" | "list" | "table" | "footnote"
+    chunkType: v.string(), // "header" | "paragraph" | "list" | "table" | "code" | "footnote"
     
     // Content
     content: v.string(), // Markdown content
@@ -205,7 +293,7 @@ export default defineSchema({
     
     // Structure
     headingLevel: v.optional(v.number()),
-    parentChunkId: v.optional(v.id("documentChunks")),
+    parentChunkId: v.optional(v.id("documentChunks")), // Heading of the enclosing section
     
     // Metadata
     pageNumber: v.optional(v.number()),
@@ -214,6 +302,7 @@ export default defineSchema({
     
     // Entity references in this chunk
     entityIds: v.array(v.id("entities")),
+    entityDensity: v.optional(v.number()), // Entities per 100 words
     
     createdAt: v.number(),
   })
@@ -273,7 +362,7 @@ export default defineSchema({
     
     // Queue management
     priority: v.number(), // 0-10
-    status: v.string(), // "queued" | "processing" | "completed" | "failed"
+    status: v.string(), // "queued" | "processing" | "completed" | "dead_letter" (see lib/processingQueue.ts)
     
     // Processing configuration
     processingConfig: v.object({
@@ -286,13 +375,21 @@ export default defineSchema({
     // Execution tracking
     attempts: v.number(),
     lastAttemptAt: v.optional(v.number()),
+    nextAttemptAt: v.optional(v.number()), // Backoff after a failed attempt
     completedAt: v.optional(v.number()),
     error: v.optional(v.string()),
+    deadLetteredAt: v.optional(v.number()),
+    
+    // Lease held by the worker processing the item
+    leaseOwner: v.optional(v.string()),
+    leaseExpiresAt: v.optional(v.number()),
     
     createdAt: v.number(),
   })
     .index("by_status", ["status"])
     .index("by_priority_and_created", ["priority", "createdAt"])
+    .index("by_status_priority_created", ["status", "priority", "createdAt"])
+    .index("by_status_and_lease", ["status", "leaseExpiresAt"])
     .index("by_ingestion", ["ingestionId"]),
 
   // Existing tables with entity linking...
@@ -339,311 +436,1785 @@ export default defineSchema({
 });
 
 // ================================================
-// DOCUMENT INGESTION API
+// DOCUMENT STRUCTURE
 // ================================================
-// client-template/convex/documentIngestion.ts
+// client-template/convex/lib/documentStructure.ts
 
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { wrapApi } from "./lib/apiWrapper";
+import { v, Infer } from "convex/values";
 
-// Start document ingestion
-export const startIngestion = mutation({
-  args: {
-    storageId: v.id("_storage"),
-    filename: v.string(),
-    mimeType: v.string(),
-    checksum: v.string(),
-    caseId: v.optional(v.id("cases")),
-    processingConfig: v.optional(v.object({
-      useChunkr: v.boolean(),
-      useDocling: v.boolean(),
-      templateId: v.optional(v.id("entityExtractionTemplates")),
-    })),
-  },
-  returns: v.id("documentIngestion"),
-  handler: wrapApi(
-    { 
-      requireAuth: true,
-      auditAction: "document.ingestion_started"
-    },
-    async (ctx, context, args) => {
-      // Check for duplicate
-      const existing = await ctx.db
-        .query("documentIngestion")
-        .withIndex("by_checksum", (q) => q.eq("sourceChecksum", args.checksum))
-        .first();
-      
-      if (existing) {
-        throw new Error("Document already ingested");
-      }
-      
-      // Create ingestion record
-      const ingestionId = await ctx.db.insert("documentIngestion", {
-        sourceStorageId: args.storageId,
-        sourceFilename: args.filename,
-        sourceMimeType: args.mimeType,
-        sourceChecksum: args.checksum,
-        status: "uploaded",
-        stages: {
-          chunkr: args.processingConfig?.useChunkr ? 
-            { status: "pending" } : undefined,
-          docling: args.processingConfig?.useDocling ? 
-            { status: "pending" } : undefined,
-          docetl: { status: "pending" },
-        },
-        uploadedBy: context.userId,
-        caseId: args.caseId,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      });
-      
-      // Queue for processing
-      await ctx.db.insert("processingQueue", {
-        ingestionId,
-        priority: 5,
-        status: "queued",
-        processingConfig: args.processingConfig || {
-          useChunkr: true,
-          useDocling: false,
-        },
-        attempts: 0,
-        createdAt: Date.now(),
-      });
-      
-      return ingestionId;
-    }
-  ),
-});
+// Converters that can fill the markdown stage, in the order of the stage
+// slots on documentIngestion
+export const CONVERTERS = ["chunkr", "docling", "local"] as const;
 
-// Store markdown content after conversion
-export const storeMarkdownContent = mutation({
-  args: {
-    ingestionId: v.id("documentIngestion"),
-    markdownContent: v.string(),
-    markdownStorageId: v.optional(v.id("_storage")),
-    stage: v.string(), // "chunkr" | "docling"
-  },
-  returns: v.null(),
-  handler: async (ctx, args) => {
-    const ingestion = await ctx.db.get(args.ingestionId);
-    if (!ingestion) throw new Error("Ingestion not found");
-    
-    // Update ingestion record
-    await ctx.db.patch(args.ingestionId, {
-      markdownContent: args.markdownContent.length < 1000000 ? 
-        args.markdownContent : undefined, // Store directly if < 1MB
-      markdownStorageId: args.markdownStorageId,
-      stages: {
-        ...ingestion.stages,
-        [args.stage]: {
-          status: "completed",
-          completedAt: Date.now(),
-        },
-      },
-      updatedAt: Date.now(),
-    });
+export type ConverterName = typeof CONVERTERS[number];
+
+export function isConverterName(name: string): name is ConverterName {
+  return (CONVERTERS as readonly string[]).includes(name);
+}
+
+// Markdown this long or longer is kept in file storage rather than on the
+// ingestion, which must stay under the 1 MB document limit
+export const MAX_INLINE_MARKDOWN_LENGTH = 1000000;
+
+// Converters mark where each page starts with an HTML comment on its own
+// line, which renders as nothing and survives markdown round trips
+export const PAGE_MARKER = /^<!-- page (\d+) -->$/;
+
+export function pageMarker(page: number) {
+  return `<!-- page ${page} -->`;
+}
+
+export const pageMapValidator = v.array(v.object({
+  page: v.number(),
+  offset: v.number(), // Where the page starts in the markdown
+}));
+
+export const outlineValidator = v.array(v.object({
+  level: v.number(),
+  title: v.string(),
+  pageNumber: v.optional(v.number()),
+}));
+
+export const tableSummaryValidator = v.array(v.object({
+  headers: v.array(v.string()),
+  rowCount: v.number(),
+  offset: v.number(),
+  pageNumber: v.optional(v.number()),
+}));
+
+export interface DocumentStructure {
+  pageMap: Infer<typeof pageMapValidator>;
+  outline: Infer<typeof outlineValidator>;
+  tables: Infer<typeof tableSummaryValidator>;
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^(```|~~~)/;
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+export function splitTableRow(line: string) {
+  return line.trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim());
+}
+
+// Page map, outline and tables read back from the markdown, for converters
+// that do not report them and for markdown stored through the API
+export function describeMarkdown(markdown: string): DocumentStructure {
+  const structure: DocumentStructure = { pageMap: [], outline: [], tables: [] };
+  const lines = markdown.split("\n");
+  let offset = 0;
+  let page: number | undefined;
+  let fence: string | null = null;
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const lineOffset = offset;
+    offset += lines[i].length + 1;
     
-    // Parse and store chunks
-    await parseAndStoreChunks(ctx, args.ingestionId, args.markdownContent);
+    // Nothing inside a code block is structure
+    if (fence) {
+      if (line.startsWith(fence)) fence = null;
+      continue;
+    }
+    const opening = line.match(FENCE);
+    if (opening) {
+      fence = opening[1];
+      continue;
+    }
     
-    return null;
-  },
-});
-
-// Store extracted entities from DocETL
-export const storeExtractedEntities = mutation({
-  args: {
-    ingestionId: v.id("documentIngestion"),
-    entities: v.array(v.object({
-      entityType: v.string(),
-      entitySubtype: v.optional(v.string()),
-      name: v.string(),
-      aliases: v.optional(v.array(v.string())),
-      attributes: v.any(), // Flexible schema for different entity types
-      confidence: v.number(),
-      sourceContext: v.string(),
-      pageNumber: v.optional(v.number()),
-    })),
-  },
-  returns: v.array(v.id("entities")),
-  handler: wrapApi(
-    { 
-      requireAuth: true,
-      auditAction: "entities.extracted"
-    },
-    async (ctx, context, args) => {
-      const ingestion = await ctx.db.get(args.ingestionId);
-      if (!ingestion) throw new Error("Ingestion not found");
-      
-      const entityIds = [];
-      
-      for (const entity of args.entities) {
-        const entityId = await ctx.db.insert("entities", {
-          ingestionId: args.ingestionId,
-          caseId: ingestion.caseId,
-          entityType: entity.entityType,
-          entitySubtype: entity.entitySubtype,
-          name: entity.name,
-          aliases: entity.aliases,
-          attributes: entity.attributes,
-          confidence: entity.confidence,
-          sourceContext: entity.sourceContext,
-          pageNumber: entity.pageNumber,
-          validated: false,
-          createdAt: Date.now(),
-          updatedAt: Date.now(),
-        });
-        
-        entityIds.push(entityId);
-      }
+    const marker = line.match(PAGE_MARKER);
+    if (marker) {
+      page = Number(marker[1]);
+      structure.pageMap.push({ page, offset: lineOffset });
+      continue;
+    }
+    
+    const heading = line.match(HEADING);
+    if (heading) {
+      structure.outline.push({ level: heading[1].length, title: heading[2], pageNumber: page });
+      continue;
+    }
+    
+    if (line.startsWith("|") && TABLE_SEPARATOR.test(lines[i + 1]?.trim() ?? "")) {
+      let rowCount = 0;
+      while (lines[i + 2 + rowCount]?.trim().startsWith("|")) rowCount++;
       
-      // Update ingestion status
-      await ctx.db.patch(args.ingestionId, {
-        stages: {
-          ...ingestion.stages,
-          docetl: {
-            status: "completed",
-            completedAt: Date.now(),
-            entityCount: entityIds.length,
-          },
-        },
-        status: "completed",
-        updatedAt: Date.now(),
-      });
+      structure.tables.push({ headers: splitTableRow(line), rowCount, offset: lineOffset, pageNumber: page });
       
-      // Auto-link entities to case if applicable
-      if (ingestion.caseId) {
-        await autoLinkEntitiesToCase(ctx, ingestion.caseId, entityIds);
+      // Skip the separator and the rows
+      for (let row = 0; row <= rowCount; row++) {
+        i++;
+        offset += lines[i].length + 1;
       }
-      
-      return entityIds;
     }
-  ),
-});
+  }
+  
+  return structure;
+}
 
-// Helper functions
-async function parseAndStoreChunks(
-  ctx: any, 
-  ingestionId: string, 
-  markdownContent: string
-) {
-  const lines = markdownContent.split('\n');
-  let currentChunk = '';
-  let chunkIndex = 0;
-  let currentType = 'paragraph';
-  
-  for (const line of lines) {
-    // Detect chunk type
-    if (line.startsWith('#')) {
-      // Save previous chunk
-      if (currentChunk) {
-        await ctx.db.insert("documentChunks", {
-          ingestionId,
-          chunkIndex,
-          chunkType: currentType,
-          content: currentChunk,
-          plainText: currentChunk.replace(/[#*_`]/g, ''),
-          headingLevel: currentType === 'header' ? 
-            (currentChunk.match(/^#+/)?.[0].length || 1) : undefined,
-          characterCount: currentChunk.length,
-          wordCount: currentChunk.split(/\s+/).length,
-          entityIds: [], // Will be populated later
-          createdAt: Date.now(),
-        });
-        chunkIndex++;
+// ================================================
+// MARKDOWN CHUNKER
+// ================================================
+// client-template/convex/lib/markdownChunker.ts
+
+import { fromMarkdown } from "mdast-util-from-markdown";
+import { gfmFromMarkdown } from "mdast-util-gfm";
+import { toString } from "mdast-util-to-string";
+import { gfm } from "micromark-extension-gfm";
+import type { List, Nodes, RootContent } from "mdast";
+import { PAGE_MARKER } from "./documentStructure";
+
+// Sizes are in characters of markdown. Tables, code blocks and numbered
+// lists are never split, so they can exceed maxChars.
+export interface ChunkOptions {
+  minChars: number; // Shorter prose is merged into the chunk before it
+  maxChars: number;
+  overlapChars: number; // Carried over when prose is split
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  minChars: 200,
+  maxChars: 2000,
+  overlapChars: 200,
+};
+
+export interface ChunkDraft {
+  chunkType: string; // "header" | "paragraph" | "list" | "table" | "code" | "footnote"
+  content: string;
+  plainText: string;
+  headingLevel?: number;
+  parentIndex?: number; // Index of the heading draft the chunk sits under
+  pageNumber?: number;
+}
+
+interface ProsePiece {
+  content: string;
+  plainText: string;
+  pageNumber?: number;
+}
+
+const SENTENCE_END = /(?<=[.!?;:])\s+/;
+
+// Split markdown into chunks along its structure. Every heading opens a
+// section and becomes a chunk of its own; the chunks in the section (and
+// the headings of its subsections) point to it. Consecutive paragraphs in a
+// section are packed up to maxChars.
+export function chunkMarkdown(markdown: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS) {
+  const tree = fromMarkdown(markdown, {
+    extensions: [gfm()],
+    mdastExtensions: [gfmFromMarkdown()],
+  });
+  
+  const drafts: ChunkDraft[] = [];
+  const sections: { depth: number; index: number }[] = [];
+  let prose: ProsePiece[] = [];
+  let pageNumber: number | undefined;
+  
+  const source = (node: Nodes) =>
+    markdown.slice(node.position!.start.offset!, node.position!.end.offset!);
+  
+  const push = (draft: Omit<ChunkDraft, "parentIndex">) => {
+    drafts.push({ ...draft, parentIndex: sections[sections.length - 1]?.index });
+  };
+  
+  const flushProse = () => {
+    for (const piece of packProse(prose, options)) {
+      push({ chunkType: "paragraph", ...piece });
+    }
+    prose = [];
+  };
+  
+  for (const node of tree.children as RootContent[]) {
+    switch (node.type) {
+      case "html": {
+        const marker = source(node).trim().match(PAGE_MARKER);
+        if (marker) {
+          pageNumber = Number(marker[1]);
+        } else {
+          prose.push({ content: source(node), plainText: "", pageNumber });
+        }
+        break;
       }
-      currentChunk = line;
-      currentType = 'header';
-    } else if (line.startsWith('- ') || line.startsWith('* ')) {
-      currentType = 'list';
-      currentChunk += '\n' + line;
-    } else if (line.trim() === '') {
-      // Paragraph break
-      if (currentChunk) {
-        await ctx.db.insert("documentChunks", {
-          ingestionId,
-          chunkIndex,
-          chunkType: currentType,
-          content: currentChunk,
-          plainText: currentChunk.replace(/[#*_`]/g, ''),
-          characterCount: currentChunk.length,
-          wordCount: currentChunk.split(/\s+/).length,
-          entityIds: [],
-          createdAt: Date.now(),
+      
+      case "heading":
+        flushProse();
+        while (sections.length && sections[sections.length - 1].depth >= node.depth) {
+          sections.pop();
+        }
+        push({
+          chunkType: "header",
+          content: source(node),
+          plainText: toString(node),
+          headingLevel: node.depth,
+          pageNumber,
         });
-        chunkIndex++;
-        currentChunk = '';
-        currentType = 'paragraph';
-      }
-    } else {
-      currentChunk += '\n' + line;
+        sections.push({ depth: node.depth, index: drafts.length - 1 });
+        break;
+      
+      case "table":
+      case "code":
+      case "footnoteDefinition":
+        flushProse();
+        push({
+          chunkType: node.type === "footnoteDefinition" ? "footnote" : node.type,
+          content: source(node),
+          plainText: node.type === "table" ? tablePlainText(node) : toString(node),
+          pageNumber,
+        });
+        break;
+      
+      case "list":
+        flushProse();
+        for (const part of splitList(node, source, options)) {
+          push({ chunkType: "list", ...part, pageNumber });
+        }
+        break;
+      
+      case "paragraph":
+      case "blockquote":
+        prose.push({ content: source(node), plainText: toString(node), pageNumber });
+        break;
+      
+      // Thematic breaks and link definitions carry no text
     }
   }
+  flushProse();
   
-  // Save last chunk
-  if (currentChunk) {
-    await ctx.db.insert("documentChunks", {
-      ingestionId,
-      chunkIndex,
-      chunkType: currentType,
-      content: currentChunk,
-      plainText: currentChunk.replace(/[#*_`]/g, ''),
-      characterCount: currentChunk.length,
-      wordCount: currentChunk.split(/\s+/).length,
-      entityIds: [],
-      createdAt: Date.now(),
+  return drafts;
+}
+
+// Cells separated so words in neighbouring cells do not run together
+function tablePlainText(node: Extract<RootContent, { type: "table" }>) {
+  return node.children
+    .map(row => row.children.map(cell => toString(cell)).join(" | "))
+    .join("\n");
+}
+
+// Numbered lists (numbered allegations, counts, prayers for relief) are
+// kept whole. Bulleted lists over maxChars are split between items.
+function splitList(node: List, source: (node: Nodes) => string, options: ChunkOptions) {
+  const whole = { content: source(node), plainText: toString(node) };
+  if (node.ordered || whole.content.length <= options.maxChars) return [whole];
+  
+  const parts: { content: string; plainText: string }[] = [];
+  let items: typeof node.children = [];
+  let length = 0;
+  
+  const flush = () => {
+    if (!items.length) return;
+    parts.push({
+      content: items.map(item => source(item)).join("\n"),
+      plainText: items.map(item => toString(item)).join("\n"),
     });
+    items = [];
+    length = 0;
+  };
+  
+  for (const item of node.children) {
+    const itemLength = source(item).length;
+    if (length && length + itemLength > options.maxChars) flush();
+    items.push(item);
+    length += itemLength + 1;
   }
+  flush();
+  
+  return parts;
 }
 
-async function autoLinkEntitiesToCase(
-  ctx: any,
-  caseId: string,
-  entityIds: string[]
-) {
-  const case_ = await ctx.db.get(caseId);
-  if (!case_) return;
+// Pack paragraphs into chunks of at most maxChars, not counting overlap.
+// Paragraphs that are too long on their own are split between sentences.
+// Each chunk after the first starts with the end of the one before, so text
+// near the boundary keeps its context.
+function packProse(pieces: ProsePiece[], options: ChunkOptions) {
+  const groups: ProsePiece[][] = [];
+  let current: ProsePiece[] = [];
+  let length = 0;
   
-  const entities = await Promise.all(
-    entityIds.map(id => ctx.db.get(id))
-  );
+  for (const piece of pieces.flatMap(p => splitLongPiece(p, options.maxChars))) {
+    if (current.length && length + piece.content.length > options.maxChars) {
+      groups.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(piece);
+    length += piece.content.length + 2;
+  }
+  if (current.length) groups.push(current);
+  
+  // A short last chunk joins the one before, which can then run past
+  // maxChars by less than minChars
+  if (groups.length > 1 && joinPieces(groups[groups.length - 1]).content.length < options.minChars) {
+    groups.splice(-2, 2, [...groups[groups.length - 2], ...groups[groups.length - 1]]);
+  }
+  
+  return groups.map((group, i) => {
+    const chunk = joinPieces(group);
+    const overlap = i > 0 && overlapOf(joinPieces(groups[i - 1]), options.overlapChars);
+    return overlap ? { ...joinPieces([overlap, chunk]), pageNumber: chunk.pageNumber } : chunk;
+  });
+}
+
+function joinPieces(pieces: ProsePiece[]): ProsePiece {
+  return {
+    content: pieces.map(p => p.content).join("\n\n"),
+    plainText: pieces.map(p => p.plainText).filter(Boolean).join("\n\n"),
+    pageNumber: pieces.find(p => p.pageNumber !== undefined)?.pageNumber,
+  };
+}
+
+// The last overlapChars of a chunk, starting at a word
+function overlapOf(chunk: ProsePiece, overlapChars: number): ProsePiece | null {
+  if (overlapChars <= 0 || chunk.content.length <= overlapChars) return null;
   
-  const primaryEntities = case_.primaryEntities || {
-    victimIds: [],
-    defendantIds: [],
-    witnessIds: [],
+  const tail = (text: string) => {
+    const cut = text.slice(-overlapChars);
+    const space = cut.search(/\s/);
+    return (space === -1 ? cut : cut.slice(space)).trim();
   };
   
-  // Auto-categorize based on entity subtype
-  for (const entity of entities) {
-    if (!entity) continue;
-    
-    switch (entity.entitySubtype) {
-      case 'victim':
-        primaryEntities.victimIds = [
-          ...(primaryEntities.victimIds || []),
-          entity._id
-        ];
-        break;
-      case 'defendant':
-      case 'perpetrator':
-        primaryEntities.defendantIds = [
-          ...(primaryEntities.defendantIds || []),
-          entity._id
-        ];
-        break;
-      case 'witness':
-        primaryEntities.witnessIds = [
-          ...(primaryEntities.witnessIds || []),
-          entity._id
-        ];
-        break;
+  return { content: tail(chunk.content), plainText: tail(chunk.plainText), pageNumber: chunk.pageNumber };
+}
+
+function splitLongPiece(piece: ProsePiece, maxChars: number): ProsePiece[] {
+  if (piece.content.length <= maxChars) return [piece];
+  
+  const parts: string[] = [];
+  let current = "";
+  for (const sentence of splitSentences(piece.content, maxChars)) {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      parts.push(current);
+      current = "";
     }
+    current = current ? `${current} ${sentence}` : sentence;
   }
+  if (current) parts.push(current);
   
-  await ctx.db.patch(caseId, {
-    primaryEntities,
-    updatedAt: Date.now(),
+  return parts.map(content => ({
+    content,
+    plainText: content.replace(/[*_`#>]/g, ""),
+    pageNumber: piece.pageNumber,
+  }));
+}
+
+// Sentences, with any sentence longer than maxChars cut between words
+function splitSentences(text: string, maxChars: number) {
+  return text.split(SENTENCE_END).flatMap(sentence => {
+    if (sentence.length <= maxChars) return [sentence];
+    
+    const words: string[] = [];
+    let current = "";
+    for (const word of sentence.split(/\s+/)) {
+      if (current && current.length + word.length + 1 > maxChars) {
+        words.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${word}` : word;
+    }
+    if (current) words.push(current);
+    return words;
+  });
+}
+
+// ================================================
+// ENTITY MENTION LINKING
+// ================================================
+// client-template/convex/lib/entityMentions.ts
+
+import { v } from "convex/values";
+import { internalMutation, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+
+const MIN_NAME_LENGTH = 2; // Initials alone match too much
+const MAX_MENTIONS_PER_CHUNK = 20; // Per entity; more repeats add little
+const CONTEXT_CHARS = 60;
+const LINK_BATCH_SIZE = 10; // Chunks per scheduled batch
+
+export interface Mention {
+  startOffset: number;
+  endOffset: number;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole-word, case-insensitive pattern for any of an entity's names. Spaces
+// match any run of whitespace, so names broken across lines are found, and
+// longer names win over shorter ones starting at the same place.
+export function mentionPattern(names: string[]) {
+  const alternatives = [...new Set(names.map(n => n.trim()).filter(n => n.length >= MIN_NAME_LENGTH))]
+    .sort((a, b) => b.length - a.length)
+    .map(n => n.split(/\s+/).map(escapeRegExp).join("\\s+"));
+  if (!alternatives.length) return null;
+  
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+}
+
+export function findMentions(text: string, pattern: RegExp): Mention[] {
+  return [...text.matchAll(pattern)].map(match => ({
+    startOffset: match.index!,
+    endOffset: match.index! + match[0].length,
+  }));
+}
+
+export function mentionContext(text: string, mention: Mention) {
+  const start = Math.max(0, mention.startOffset - CONTEXT_CHARS);
+  const end = Math.min(text.length, mention.endOffset + CONTEXT_CHARS);
+  
+  return (start > 0 ? "…" : "") +
+    text.slice(start, end).replace(/\s+/g, " ").trim() +
+    (end < text.length ? "…" : "");
+}
+
+// Rebuild the links between an ingestion's entities and its chunks: where
+// each entity is mentioned (entityMentions, offsets into the chunk's
+// plainText), and the entityIds and entityDensity of every chunk. Runs in
+// scheduled batches of chunks. Safe to re-run, and re-run whenever either
+// side is replaced; a newer run takes over from one still going.
+export async function linkEntityMentions(ctx: MutationCtx, ingestionId: Id<"documentIngestion">) {
+  const runAt = Date.now();
+  await ctx.db.patch(ingestionId, { mentionsRunAt: runAt });
+  await ctx.scheduler.runAfter(0, internal.lib.entityMentions.linkMentionsBatch, {
+    ingestionId,
+    runAt,
+    cursor: null,
   });
-}
\ No newline at end of file
+}
+
+export const linkMentionsBatch = internalMutation({
+  args: {
+    ingestionId: v.id("documentIngestion"),
+    runAt: v.number(),
+    cursor: v.union(v.string(), v.null()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const ingestion = await ctx.db.get(args.ingestionId);
+    if (!ingestion || ingestion.mentionsRunAt !== args.runAt) return null;
+    
+    const entities = await ctx.db
+      .query("entities")
+      .withIndex("by_ingestion", (q) => q.eq("ingestionId", args.ingestionId))
+      .collect();
+    const patterns = entities.map(e => mentionPattern([e.name, ...(e.aliases ?? [])]));
+    
+    const page = await ctx.db
+      .query("documentChunks")
+      .withIndex("by_chunk_index", (q) => q.eq("ingestionId", args.ingestionId))
+      .paginate({ cursor: args.cursor, numItems: LINK_BATCH_SIZE });
+    
+    for (const chunk of page.page) {
+      await linkChunk(ctx, chunk, entities, patterns);
+    }
+    
+    if (page.isDone) {
+      await ctx.db.patch(args.ingestionId, { mentionsRunAt: undefined });
+    } else {
+      await ctx.scheduler.runAfter(0, internal.lib.entityMentions.linkMentionsBatch, {
+        ingestionId: args.ingestionId,
+        runAt: args.runAt,
+        cursor: page.continueCursor,
+      });
+    }
+    return null;
+  },
+});
+
+async function linkChunk(
+  ctx: MutationCtx,
+  chunk: Doc<"documentChunks">,
+  entities: Doc<"entities">[],
+  patterns: (RegExp | null)[]
+) {
+  await deleteChunkMentions(ctx, chunk._id);
+  
+  const entityIds: Id<"entities">[] = [];
+  for (const [i, entity] of entities.entries()) {
+    const mentions = patterns[i] ? findMentions(chunk.plainText, patterns[i]!) : [];
+    if (!mentions.length) continue;
+    
+    entityIds.push(entity._id);
+    for (const mention of mentions.slice(0, MAX_MENTIONS_PER_CHUNK)) {
+      await ctx.db.insert("entityMentions", {
+        entityId: entity._id,
+        chunkId: chunk._id,
+        chunkIndex: chunk.chunkIndex,
+        ...mention,
+        context: mentionContext(chunk.plainText, mention),
+      });
+    }
+  }
+  
+  await ctx.db.patch(chunk._id, {
+    entityIds,
+    entityDensity: chunk.wordCount ?
+      Math.round(entityIds.length * 10000 / chunk.wordCount) / 100 : 0,
+  });
+}
+
+// Copy mentions an entity kept in its own `locations` into entityMentions,
+// skipping chunks since replaced and mentions already there (migration 6)
+export async function moveLegacyLocations(ctx: MutationCtx, entity: Doc<"entities">) {
+  for (const location of entity.locations ?? []) {
+    const chunk = await ctx.db.get(location.chunkId);
+    if (!chunk) continue;
+    
+    const existing = await ctx.db
+      .query("entityMentions")
+      .withIndex("by_entity", (q) =>
+        q.eq("entityId", entity._id).eq("chunkIndex", chunk.chunkIndex).eq("startOffset", location.startOffset))
+      .first();
+    if (existing?.chunkId === chunk._id) continue;
+    
+    await ctx.db.insert("entityMentions", {
+      entityId: entity._id,
+      chunkId: chunk._id,
+      chunkIndex: chunk.chunkIndex,
+      startOffset: location.startOffset,
+      endOffset: location.endOffset,
+      context: location.context,
+    });
+  }
+}
+
+export async function deleteChunkMentions(ctx: MutationCtx, chunkId: Id<"documentChunks">) {
+  const mentions = await ctx.db
+    .query("entityMentions")
+    .withIndex("by_chunk", (q) => q.eq("chunkId", chunkId))
+    .collect();
+  for (const mention of mentions) {
+    await ctx.db.delete(mention._id);
+  }
+}
+
+// ================================================
+// ENTITY RESOLUTION
+// ================================================
+// client-template/convex/lib/entityResolution.ts
+
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { nameSimilarity, normalizeName } from "./conflicts";
+import { codedError } from "./errors";
+
+// The same person named in several documents of a case is extracted once
+// per document. Entities are grouped into clusters: a duplicate points to
+// the entity it was merged into (mergedIntoId), and the entity at the end
+// of the chain stands for the cluster. Merging only sets that pointer, so
+// every extracted row keeps its source document and mentions, and undoing
+// a merge clears it again.
+
+// Types that name one thing wherever they appear. Dates, events and
+// evidence with the same name are usually different things.
+const RESOLVABLE_TYPES = ["person", "organization", "location"];
+
+export const AUTO_MERGE_SCORE = 0.95;
+export const REVIEW_SCORE = 0.75;
+
+const MAX_MERGE_DEPTH = 20;
+
+// Subtypes that cannot describe the same person without someone checking
+const ROLE_GROUPS: Record<string, string> = {
+  victim: "victim",
+  defendant: "accused",
+  perpetrator: "accused",
+  witness: "witness",
+  judge: "judge",
+  attorney: "attorney",
+};
+
+// Case fields kept in step with the clusters, by entity subtype
+const PRIMARY_ENTITY_FIELDS: Record<string, "victimIds" | "defendantIds" | "witnessIds"> = {
+  victim: "victimIds",
+  defendant: "defendantIds",
+  perpetrator: "defendantIds",
+  witness: "witnessIds",
+};
+
+export interface EntityCluster {
+  rootId: Id<"entities">;
+  entityType: string;
+  names: string[];
+  tokens: Set<string>;
+  datesOfBirth: Set<string>;
+  identifierHashes: Set<string>;
+  roles: Set<string>;
+}
+
+export interface EntityMatch {
+  score: number;
+  reasons: string[];
+}
+
+function normalizeDate(date: string) {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? date.trim().toLowerCase() : parsed.toISOString().slice(0, 10);
+}
+
+function addToCluster(cluster: EntityCluster, entity: Doc<"entities">) {
+  for (const name of [entity.name, ...(entity.aliases ?? [])]) {
+    const normalized = normalizeName(name);
+    if (!normalized || cluster.names.includes(normalized)) continue;
+    
+    cluster.names.push(normalized);
+    for (const token of normalized.split(" ")) {
+      if (token.length >= 2) cluster.tokens.add(token);
+    }
+  }
+  
+  const dateOfBirth = entity.attributes.personDetails?.dateOfBirth;
+  if (dateOfBirth) cluster.datesOfBirth.add(normalizeDate(dateOfBirth));
+  for (const hash of entity.identifierHashes ?? []) cluster.identifierHashes.add(hash);
+  
+  const role = ROLE_GROUPS[entity.entitySubtype ?? ""];
+  if (role) cluster.roles.add(role);
+}
+
+function newCluster(rootId: Id<"entities">, entityType: string): EntityCluster {
+  return {
+    rootId,
+    entityType,
+    names: [],
+    tokens: new Set(),
+    datesOfBirth: new Set(),
+    identifierHashes: new Set(),
+    roles: new Set(),
+  };
+}
+
+// Root of every entity, following merges
+export function clusterRoots(entities: Doc<"entities">[]) {
+  const mergedInto = new Map(entities.map(e => [e._id, e.mergedIntoId]));
+  const roots = new Map<Id<"entities">, Id<"entities">>();
+  
+  for (const entity of entities) {
+    let root = entity._id;
+    for (let depth = 0; depth < MAX_MERGE_DEPTH && mergedInto.get(root); depth++) {
+      root = mergedInto.get(root)!;
+    }
+    roots.set(entity._id, root);
+  }
+  return roots;
+}
+
+// Every entity extracted for the case. Loaded once per ingestion and passed
+// through resolution and the refreshes that follow it.
+export async function loadCaseEntities(ctx: MutationCtx, caseId: Id<"cases">) {
+  return await ctx.db
+    .query("entities")
+    .withIndex("by_case", (q) => q.eq("caseId", caseId))
+    .collect();
+}
+
+export async function rootOf(ctx: MutationCtx, entityId: Id<"entities">) {
+  let entity = await ctx.db.get(entityId);
+  for (let depth = 0; depth < MAX_MERGE_DEPTH && entity?.mergedIntoId; depth++) {
+    entity = await ctx.db.get(entity.mergedIntoId);
+  }
+  if (!entity) throw codedError("not_found", "Entity not found");
+  return entity;
+}
+
+// Identifiers decide on their own and differing dates of birth rule a match
+// out. Otherwise the best name or alias similarity counts, raised when the
+// dates of birth agree.
+export function scoreMatch(a: EntityCluster, b: EntityCluster): EntityMatch {
+  if (a.entityType !== b.entityType) return { score: 0, reasons: [] };
+  
+  if ([...a.identifierHashes].some(hash => b.identifierHashes.has(hash))) {
+    return { score: 1, reasons: ["identifier"] };
+  }
+  
+  const bothHaveBirthDates = a.datesOfBirth.size > 0 && b.datesOfBirth.size > 0;
+  const sameBirthDate = [...a.datesOfBirth].some(date => b.datesOfBirth.has(date));
+  if (bothHaveBirthDates && !sameBirthDate) return { score: 0, reasons: [] };
+  
+  let name = 0;
+  for (const x of a.names) {
+    for (const y of b.names) name = Math.max(name, nameSimilarity(x, y));
+  }
+  
+  let score = name;
+  const reasons = [name === 1 ? "same_name" : "similar_name"];
+  
+  if (sameBirthDate) {
+    score = Math.max(score, 0.5 + name / 2);
+    reasons.push("date_of_birth");
+  }
+  
+  // A victim and a defendant with the same name go to a reviewer
+  const roles = new Set([...a.roles, ...b.roles]);
+  if (a.roles.size && b.roles.size && roles.size > Math.max(a.roles.size, b.roles.size)) {
+    score = Math.min(score, AUTO_MERGE_SCORE - 0.01);
+    reasons.push("different_roles");
+  }
+  
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+export async function mergeEntity(
+  ctx: MutationCtx,
+  entity: Doc<"entities">,
+  intoId: Id<"entities">,
+  match: EntityMatch & { method: string; mergedBy?: Id<"users"> }
+) {
+  if (!entity.caseId) throw codedError("invalid_state", "Only entities on a case can be merged");
+  
+  await ctx.db.patch(entity._id, { mergedIntoId: intoId, updatedAt: Date.now() });
+  return await ctx.db.insert("entityMerges", {
+    caseId: entity.caseId,
+    entityId: entity._id,
+    intoId,
+    method: match.method,
+    score: match.score,
+    reasons: match.reasons,
+    mergedBy: match.mergedBy,
+    createdAt: Date.now(),
+  });
+}
+
+// A pair is only ever queued once; a rejected pair is not asked about again
+export async function findMatchCandidate(ctx: MutationCtx, a: Id<"entities">, b: Id<"entities">) {
+  return await ctx.db
+    .query("entityMatchCandidates")
+    .withIndex("by_pair", (q) => q.eq("entityId", a).eq("candidateId", b))
+    .first() ??
+    await ctx.db
+      .query("entityMatchCandidates")
+      .withIndex("by_pair", (q) => q.eq("entityId", b).eq("candidateId", a))
+      .first();
+}
+
+// Compare new entities with the clusters already in the case, and with
+// each other. Confident matches are merged into the existing cluster;
+// uncertain ones are queued for review. `entities` is the whole case (see
+// loadCaseEntities) and is kept in step with the merges. Returns the
+// number merged.
+export async function resolveEntities(
+  ctx: MutationCtx,
+  caseId: Id<"cases">,
+  entityIds: Id<"entities">[],
+  entities: Doc<"entities">[]
+) {
+  const fresh = new Set<string>(entityIds);
+  const roots = clusterRoots(entities);
+  const clusters = new Map<Id<"entities">, EntityCluster>();
+  
+  for (const entity of entities) {
+    if (fresh.has(entity._id) || !RESOLVABLE_TYPES.includes(entity.entityType)) continue;
+    
+    const rootId = roots.get(entity._id)!;
+    if (!clusters.has(rootId)) clusters.set(rootId, newCluster(rootId, entity.entityType));
+    addToCluster(clusters.get(rootId)!, entity);
+  }
+  
+  let merged = 0;
+  
+  for (const entity of entities) {
+    if (!fresh.has(entity._id) || entity.mergedIntoId || !RESOLVABLE_TYPES.includes(entity.entityType)) {
+      continue;
+    }
+    
+    const profile = newCluster(entity._id, entity.entityType);
+    addToCluster(profile, entity);
+    
+    // Only clusters sharing a name word or an identifier are worth scoring
+    const matches = [...clusters.values()]
+      .filter(c => c.entityType === profile.entityType &&
+        ([...profile.tokens].some(t => c.tokens.has(t)) ||
+         [...profile.identifierHashes].some(h => c.identifierHashes.has(h))))
+      .map(c => ({ cluster: c, ...scoreMatch(profile, c) }))
+      .filter(m => m.score >= REVIEW_SCORE)
+      .sort((a, b) => b.score - a.score);
+    
+    const best = matches[0];
+    if (best && best.score >= AUTO_MERGE_SCORE) {
+      await mergeEntity(ctx, entity, best.cluster.rootId, { ...best, method: "automatic" });
+      entity.mergedIntoId = best.cluster.rootId;
+      addToCluster(best.cluster, entity);
+      merged++;
+      continue;
+    }
+    
+    for (const match of matches) {
+      if (await findMatchCandidate(ctx, entity._id, match.cluster.rootId)) continue;
+      
+      await ctx.db.insert("entityMatchCandidates", {
+        caseId,
+        entityId: entity._id,
+        candidateId: match.cluster.rootId,
+        score: match.score,
+        reasons: match.reasons,
+        status: "pending",
+        createdAt: Date.now(),
+      });
+    }
+    clusters.set(entity._id, profile);
+  }
+  
+  return merged;
+}
+
+// Victims, defendants and witnesses of the case, one ID per cluster.
+// Derived data, so the case's updatedAt is left alone.
+export async function refreshPrimaryEntities(
+  ctx: MutationCtx,
+  caseId: Id<"cases">,
+  entities?: Doc<"entities">[]
+) {
+  const c = await ctx.db.get(caseId);
+  if (!c) return;
+  
+  entities = entities ?? await loadCaseEntities(ctx, caseId);
+  const roots = clusterRoots(entities);
+  
+  const ids = {
+    victimIds: new Set<Id<"entities">>(),
+    defendantIds: new Set<Id<"entities">>(),
+    witnessIds: new Set<Id<"entities">>(),
+  };
+  for (const entity of entities) {
+    const field = PRIMARY_ENTITY_FIELDS[entity.entitySubtype ?? ""];
+    if (field) ids[field].add(roots.get(entity._id)!);
+  }
+  
+  const primaryEntities = {
+    ...c.primaryEntities,
+    victimIds: [...ids.victimIds],
+    defendantIds: [...ids.defendantIds],
+    witnessIds: [...ids.witnessIds],
+  };
+  if (JSON.stringify(primaryEntities) === JSON.stringify(c.primaryEntities)) return;
+  
+  await ctx.db.patch(caseId, { primaryEntities });
+}
+
+// ================================================
+// DOCUMENT INGESTION API
+// ================================================
+// client-template/convex/documentIngestion.ts
+
+import { v, Infer, ObjectType } from "convex/values";
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { wrapApi } from "./lib/apiWrapper";
+import { codedError } from "./lib/errors";
+import { assertControlPlaneSecret } from "./lib/secrets";
+import { assertWithinQuota, recordUsage } from "./lib/quotas";
+import { assertRecordAccess, getAccessibleCase } from "./lib/caseAccess";
+import { assertCaseEditable } from "./lib/caseLifecycle";
+import { refreshKeyEntityNames } from "./lib/caseChanges";
+import { chunkMarkdown } from "./lib/markdownChunker";
+import { deleteChunkMentions, linkEntityMentions } from "./lib/entityMentions";
+import { loadCaseEntities, refreshPrimaryEntities, resolveEntities } from "./lib/entityResolution";
+import {
+  describeMarkdown,
+  isConverterName,
+  MAX_INLINE_MARKDOWN_LENGTH,
+  outlineValidator,
+  pageMapValidator,
+  tableSummaryValidator,
+} from "./lib/documentStructure";
+import { assertEncryptedFields, ENCRYPTED_FIELDS } from "./lib/fieldEncryption";
+import { addNameIndexes, blindIndexValidator } from "./lib/blindIndex";
+
+const CHUNK_BATCH_SIZE = 50; // Chunks deleted or inserted per scheduled batch
+
+// Start document ingestion
+export const startIngestion = mutation({
+  args: {
+    storageId: v.id("_storage"),
+    filename: v.string(),
+    mimeType: v.string(),
+    checksum: v.string(),
+    caseId: v.optional(v.id("cases")),
+    processingConfig: v.optional(v.object({
+      useChunkr: v.boolean(),
+      useDocling: v.boolean(),
+      templateId: v.optional(v.id("entityExtractionTemplates")),
+    })),
+  },
+  returns: v.id("documentIngestion"),
+  handler: wrapApi(
+    { 
+      requireAuth: true,
+      auditAction: "document.ingestion_started",
+      rateLimit: "ingestion",
+      requires: ["ingestion.write"],
+    },
+    async (ctx, context, args) => {
+      // Check for duplicate
+      const existing = await ctx.db
+        .query("documentIngestion")
+        .withIndex("by_checksum", (q) => q.eq("sourceChecksum", args.checksum))
+        .first();
+      
+      if (existing) {
+        throw codedError("already_exists", "Document already ingested");
+      }
+      
+      if (args.caseId) {
+        assertCaseEditable(await getAccessibleCase(ctx, context, args.caseId));
+      }
+      
+      // Page counts are only known after conversion, so block new
+      // ingestions once this month's quota is used up
+      await assertWithinQuota(ctx, "pagesProcessed", 1);
+      
+      // Create ingestion record
+      const ingestionId = await ctx.db.insert("documentIngestion", {
+        sourceStorageId: args.storageId,
+        sourceFilename: args.filename,
+        sourceMimeType: args.mimeType,
+        sourceChecksum: args.checksum,
+        status: "uploaded",
+        stages: {
+          chunkr: args.processingConfig?.useChunkr ? 
+            { status: "pending" } : undefined,
+          docling: args.processingConfig?.useDocling ? 
+            { status: "pending" } : undefined,
+          docetl: { status: "pending" },
+        },
+        uploadedBy: context.userId,
+        caseId: args.caseId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      
+      // Queue for processing
+      await ctx.db.insert("processingQueue", {
+        ingestionId,
+        priority: 5,
+        status: "queued",
+        processingConfig: args.processingConfig || {
+          useChunkr: true,
+          useDocling: false,
+        },
+        attempts: 0,
+        createdAt: Date.now(),
+      });
+      
+      return ingestionId;
+    }
+  ),
+});
+
+export const markdownContentArgs = {
+  ingestionId: v.id("documentIngestion"),
+  markdownContent: v.string(),
+  markdownStorageId: v.optional(v.id("_storage")),
+  stage: v.string(), // "chunkr" | "docling" | "local"
+  pageCount: v.optional(v.number()),
+  pageMap: v.optional(pageMapValidator),
+  outline: v.optional(outlineValidator),
+  tables: v.optional(tableSummaryValidator),
+};
+
+export const extractedEntityValidator = v.object({
+  entityType: v.string(),
+  entitySubtype: v.optional(v.string()),
+  name: v.string(),
+  aliases: v.optional(v.array(v.string())),
+  attributes: v.any(), // Flexible schema for different entity types
+  confidence: v.number(),
+  sourceContext: v.string(),
+  pageNumber: v.optional(v.number()),
+});
+
+// Entities hashed by the gateway or the worker. The hashes decide merges
+// and conflict hits, so they are only taken from callers holding the
+// control plane secret.
+export const hashedEntityValidator = v.object({
+  ...extractedEntityValidator.fields,
+  identifierHashes: v.optional(v.array(v.string())),
+  nameIndexes: v.optional(v.array(blindIndexValidator)), // Name, then each alias
+});
+
+// Store markdown content after conversion. Internal: the converters run in
+// the processing queue worker, which stores through recordConversion.
+export const storeMarkdownContent = internalMutation({
+  args: markdownContentArgs,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await saveMarkdownContent(ctx, args);
+    return null;
+  },
+});
+
+// Store extracted entities from DocETL
+export const storeExtractedEntities = mutation({
+  args: {
+    ingestionId: v.id("documentIngestion"),
+    entities: v.array(extractedEntityValidator),
+  },
+  returns: v.array(v.id("entities")),
+  handler: wrapApi(
+    { 
+      requireAuth: true,
+      auditAction: "entities.extracted",
+      rateLimit: "ingestion",
+      requires: ["entities.write"],
+    },
+    async (ctx, context, args) => {
+      const ingestion = await ctx.db.get(args.ingestionId);
+      if (!ingestion) throw codedError("not_found", "Ingestion not found");
+      await assertRecordAccess(ctx, context, ingestion, "Ingestion not found");
+      
+      return await saveExtractedEntities(ctx as MutationCtx, args.ingestionId, args.entities);
+    }
+  ),
+});
+
+// Store extracted entities hashed by the gateway (see lib/blindIndex.ts)
+export const storeHashedEntities = mutation({
+  args: {
+    secret: v.string(),
+    ingestionId: v.id("documentIngestion"),
+    entities: v.array(hashedEntityValidator),
+  },
+  returns: v.array(v.id("entities")),
+  handler: wrapApi(
+    { 
+      requireAuth: true,
+      auditAction: "entities.extracted",
+      rateLimit: "ingestion",
+      requires: ["entities.write"],
+    },
+    async (ctx, context, args) => {
+      assertControlPlaneSecret(args.secret);
+      
+      const ingestion = await ctx.db.get(args.ingestionId);
+      if (!ingestion) throw codedError("not_found", "Ingestion not found");
+      await assertRecordAccess(ctx, context, ingestion, "Ingestion not found");
+      
+      return await saveExtractedEntities(ctx as MutationCtx, args.ingestionId, args.entities);
+    }
+  ),
+});
+
+// Shared with the processing queue worker (see processingQueue.ts)
+export async function saveMarkdownContent(
+  ctx: MutationCtx,
+  args: ObjectType<typeof markdownContentArgs>
+) {
+  const ingestion = await ctx.db.get(args.ingestionId);
+  if (!ingestion) throw codedError("not_found", "Ingestion not found");
+  
+  const stage = args.stage;
+  if (!isConverterName(stage)) throw codedError("invalid_argument", `Unknown converter: ${stage}`);
+  
+  const inline = args.markdownContent.length < MAX_INLINE_MARKDOWN_LENGTH;
+  if (!inline && !args.markdownStorageId) {
+    throw codedError("invalid_argument", "Markdown over 1 MB must be uploaded to storage");
+  }
+  
+  // Converters that do not report the structure get it from the markdown
+  const described = describeMarkdown(args.markdownContent);
+  
+  // Update ingestion record
+  await ctx.db.patch(args.ingestionId, {
+    markdownContent: inline ? args.markdownContent : undefined,
+    markdownStorageId: args.markdownStorageId,
+    pageCount: ingestion.pageCount ?? args.pageCount,
+    pageMap: args.pageMap ?? described.pageMap,
+    outline: args.outline ?? described.outline,
+    tables: args.tables ?? described.tables,
+    stages: {
+      ...ingestion.stages,
+      [stage]: {
+        ...ingestion.stages[stage],
+        status: "completed",
+        completedAt: Date.now(),
+        error: undefined,
+      },
+    },
+    updatedAt: Date.now(),
+  });
+  
+  // Meter pages once per document, even when several converters report
+  if (ingestion.pageCount === undefined && args.pageCount) {
+    await recordUsage(ctx, "pagesProcessed", args.pageCount);
+  }
+  
+  // Parse and store chunks
+  await storeChunks(ctx, args.ingestionId, args.markdownContent);
+}
+
+export async function saveExtractedEntities(
+  ctx: MutationCtx,
+  ingestionId: Id<"documentIngestion">,
+  entities: Infer<typeof hashedEntityValidator>[]
+) {
+  const ingestion = await ctx.db.get(ingestionId);
+  if (!ingestion) throw codedError("not_found", "Ingestion not found");
+  
+  for (const entity of entities) {
+    assertEncryptedFields(entity, ENCRYPTED_FIELDS.entities);
+  }
+  
+  const entityIds = [];
+  
+  for (const entity of entities) {
+    const entityId = await ctx.db.insert("entities", {
+      ingestionId,
+      caseId: ingestion.caseId,
+      entityType: entity.entityType,
+      entitySubtype: entity.entitySubtype,
+      name: entity.name,
+      aliases: entity.aliases,
+      attributes: entity.attributes,
+      identifierHashes: entity.identifierHashes,
+      confidence: entity.confidence,
+      sourceContext: entity.sourceContext,
+      pageNumber: entity.pageNumber,
+      validated: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    
+    // Searched by conflict checks
+    if (entity.nameIndexes) {
+      await addNameIndexes(ctx, { entityId }, entity.nameIndexes);
+    }
+    
+    entityIds.push(entityId);
+  }
+  
+  await linkEntityMentions(ctx, ingestionId);
+  
+  // Update ingestion status
+  await ctx.db.patch(ingestionId, {
+    stages: {
+      ...ingestion.stages,
+      docetl: {
+        status: "completed",
+        startedAt: ingestion.stages.docetl?.startedAt,
+        completedAt: Date.now(),
+        entityCount: entityIds.length,
+      },
+    },
+    status: "completed",
+    updatedAt: Date.now(),
+  });
+  
+  // Merge duplicates of people already in the case, link the parties to
+  // the case and make it findable by its parties and judge
+  if (ingestion.caseId) {
+    const caseEntities = await loadCaseEntities(ctx, ingestion.caseId);
+    await resolveEntities(ctx, ingestion.caseId, entityIds, caseEntities);
+    await refreshPrimaryEntities(ctx, ingestion.caseId, caseEntities);
+    await refreshKeyEntityNames(ctx, ingestion.caseId, caseEntities);
+  }
+  
+  return entityIds;
+}
+
+// Helper functions
+
+// Replace the ingestion's chunks with ones cut from the markdown, so a
+// second conversion does not leave the first one's chunks behind. Runs in
+// scheduled batches: first deleting the old chunks, then inserting the new
+// ones. A newer run takes over from one still going.
+async function storeChunks(
+  ctx: MutationCtx,
+  ingestionId: Id<"documentIngestion">,
+  markdownContent: string
+) {
+  const runAt = Date.now();
+  await ctx.db.patch(ingestionId, { chunksRunAt: runAt });
+  await ctx.scheduler.runAfter(0, internal.documentIngestion.storeChunksBatch, {
+    ingestionId,
+    runAt,
+    markdownContent,
+    nextIndex: null,
+  });
+}
+
+export const storeChunksBatch = internalMutation({
+  args: {
+    ingestionId: v.id("documentIngestion"),
+    runAt: v.number(),
+    // Passed along rather than read back, as it may only be in storage
+    markdownContent: v.string(),
+    nextIndex: v.union(v.number(), v.null()), // Null while deleting
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const ingestion = await ctx.db.get(args.ingestionId);
+    if (!ingestion || ingestion.chunksRunAt !== args.runAt) return null;
+    
+    let nextIndex = args.nextIndex;
+    
+    if (nextIndex === null) {
+      const existing = await ctx.db
+        .query("documentChunks")
+        .withIndex("by_ingestion", (q) => q.eq("ingestionId", args.ingestionId))
+        .take(CHUNK_BATCH_SIZE);
+      for (const chunk of existing) {
+        await deleteChunkMentions(ctx, chunk._id);
+        await ctx.db.delete(chunk._id);
+      }
+      if (existing.length === CHUNK_BATCH_SIZE) {
+        await ctx.scheduler.runAfter(0, internal.documentIngestion.storeChunksBatch, args);
+        return null;
+      }
+      nextIndex = 0;
+    }
+    
+    // Cutting is deterministic, so every batch cuts the same chunks
+    const drafts = chunkMarkdown(args.markdownContent);
+    const end = Math.min(nextIndex + CHUNK_BATCH_SIZE, drafts.length);
+    const chunkIds = new Map<number, Id<"documentChunks">>();
+    
+    for (let chunkIndex = nextIndex; chunkIndex < end; chunkIndex++) {
+      const draft = drafts[chunkIndex];
+      const chunkId = await ctx.db.insert("documentChunks", {
+        ingestionId: args.ingestionId,
+        chunkIndex,
+        chunkType: draft.chunkType,
+        content: draft.content,
+        plainText: draft.plainText,
+        headingLevel: draft.headingLevel,
+        // Headings come before their sections, so the parent is already stored
+        parentChunkId: draft.parentIndex === undefined ? undefined :
+          await storedChunkId(ctx, args.ingestionId, draft.parentIndex, chunkIds),
+        pageNumber: draft.pageNumber,
+        characterCount: draft.content.length,
+        wordCount: draft.plainText.split(/\s+/).filter(Boolean).length,
+        entityIds: [], // Filled by linkEntityMentions
+        createdAt: Date.now(),
+      });
+      
+      chunkIds.set(chunkIndex, chunkId);
+    }
+    
+    if (end < drafts.length) {
+      await ctx.scheduler.runAfter(0, internal.documentIngestion.storeChunksBatch, {
+        ...args,
+        nextIndex: end,
+      });
+      return null;
+    }
+    
+    await ctx.db.patch(args.ingestionId, { chunksRunAt: undefined });
+    
+    // Entities extracted before a re-conversion point at the old chunks
+    await linkEntityMentions(ctx, args.ingestionId);
+    return null;
+  },
+});
+
+// A chunk inserted by this batch, or by an earlier one of the same run
+async function storedChunkId(
+  ctx: MutationCtx,
+  ingestionId: Id<"documentIngestion">,
+  chunkIndex: number,
+  inserted: Map<number, Id<"documentChunks">>
+) {
+  const chunkId = inserted.get(chunkIndex);
+  if (chunkId) return chunkId;
+  
+  const chunk = await ctx.db
+    .query("documentChunks")
+    .withIndex("by_chunk_index", (q) => q.eq("ingestionId", ingestionId).eq("chunkIndex", chunkIndex))
+    .unique();
+  return chunk?._id;
+}
+// ================================================
+// ENTITY SEARCH AND RELATIONSHIPS API
+// ================================================
+// client-template/convex/entities.ts
+
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query } from "./_generated/server";
+import { wrapApi } from "./lib/apiWrapper";
+import { codedError } from "./lib/errors";
+import {
+  assertRecordAccess,
+  createEntityAccessChecker,
+  getAccessibleCase,
+  resolveIngestionRecord,
+} from "./lib/caseAccess";
+
+const MAX_MENTIONS_PER_ENTITY = 200; // Listed for each entity in a cluster
+
+// Search entities by name, optionally filtered by type and case
+export const search = query({
+  args: {
+    query: v.optional(v.string()),
+    entityType: v.optional(v.string()),
+    caseId: v.optional(v.id("cases")),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: v.object({
+    page: v.array(v.any()),
+    isDone: v.boolean(),
+    continueCursor: v.string(),
+  }),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["entities.read"] },
+    async (ctx, context, args) => {
+      if (args.caseId) {
+        await getAccessibleCase(ctx, context, args.caseId);
+      }
+      
+      let results;
+      
+      if (args.query) {
+        results = await ctx.db
+          .query("entities")
+          .withSearchIndex("search_entities", (q) => {
+            let search = q.search("name", args.query!);
+            if (args.entityType) search = search.eq("entityType", args.entityType);
+            if (args.caseId) search = search.eq("caseId", args.caseId);
+            return search;
+          })
+          .paginate(args.paginationOpts);
+      } else if (args.caseId) {
+        results = await ctx.db
+          .query("entities")
+          .withIndex("by_case", (q) => q.eq("caseId", args.caseId))
+          .filter((q) => args.entityType ?
+            q.eq(q.field("entityType"), args.entityType) : true)
+          .paginate(args.paginationOpts);
+      } else if (args.entityType) {
+        results = await ctx.db
+          .query("entities")
+          .withIndex("by_type", (q) => q.eq("entityType", args.entityType!))
+          .paginate(args.paginationOpts);
+      } else {
+        results = await ctx.db
+          .query("entities")
+          .order("desc")
+          .paginate(args.paginationOpts);
+      }
+      
+      // Filtering after pagination may return short pages; the cursor
+      // still advances correctly. Merged duplicates are represented by the
+      // entity they were merged into.
+      const canAccess = createEntityAccessChecker(ctx, context);
+      const visible = [];
+      for (const e of results.page) {
+        if (!e.mergedIntoId && await canAccess(e)) visible.push(e);
+      }
+      
+      return {
+        page: visible.map(e => ({
+          _id: e._id,
+          entityType: e.entityType,
+          entitySubtype: e.entitySubtype,
+          name: e.name,
+          aliases: e.aliases,
+          caseId: e.caseId,
+          confidence: e.confidence,
+          validated: e.validated,
+        })),
+        isDone: results.isDone,
+        continueCursor: results.continueCursor,
+      };
+    }
+  ),
+});
+
+// Relationships where the entity is on either side
+export const getRelationships = query({
+  args: {
+    entityId: v.id("entities"),
+  },
+  returns: v.array(v.object({
+    _id: v.id("entityRelationships"),
+    direction: v.string(), // "outgoing" | "incoming"
+    relatedEntityId: v.id("entities"),
+    relatedEntityName: v.optional(v.string()),
+    relationshipType: v.string(),
+    relationshipSubtype: v.optional(v.string()),
+    confidence: v.number(),
+    validated: v.boolean(),
+  })),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["entities.read"] },
+    async (ctx, context, args) => {
+      const entity = await ctx.db.get(args.entityId);
+      if (!entity) throw codedError("not_found", "Entity not found");
+      
+      await assertRecordAccess(
+        ctx, context, await resolveIngestionRecord(ctx, entity), "Entity not found"
+      );
+      const canAccess = createEntityAccessChecker(ctx, context);
+      
+      const outgoing = await ctx.db
+        .query("entityRelationships")
+        .withIndex("by_from_entity", (q) => q.eq("fromEntityId", args.entityId))
+        .collect();
+      
+      const incoming = await ctx.db
+        .query("entityRelationships")
+        .withIndex("by_to_entity", (q) => q.eq("toEntityId", args.entityId))
+        .collect();
+      
+      const relationships = [
+        ...outgoing.map(r => ({ r, direction: "outgoing", relatedEntityId: r.toEntityId })),
+        ...incoming.map(r => ({ r, direction: "incoming", relatedEntityId: r.fromEntityId })),
+      ];
+      
+      const results = [];
+      for (const { r, direction, relatedEntityId } of relationships) {
+        // Relationships into matters the caller cannot see are left out
+        const related = await ctx.db.get(relatedEntityId);
+        if (related && !(await canAccess(related))) continue;
+        
+        results.push({
+          _id: r._id,
+          direction,
+          relatedEntityId,
+          relatedEntityName: related?.name,
+          relationshipType: r.relationshipType,
+          relationshipSubtype: r.relationshipSubtype,
+          confidence: r.confidence,
+          validated: r.validated,
+        });
+      }
+      
+      return results;
+    }
+  ),
+});
+
+// Every place the entity is mentioned, in document order, including the
+// mentions of duplicates merged into it
+export const getMentions = query({
+  args: {
+    entityId: v.id("entities"),
+  },
+  returns: v.array(v.object({
+    ingestionId: v.id("documentIngestion"),
+    chunkId: v.id("documentChunks"),
+    chunkIndex: v.number(),
+    pageNumber: v.optional(v.number()),
+    startOffset: v.number(), // Into the chunk's plainText
+    endOffset: v.number(),
+    context: v.string(),
+  })),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["entities.read"] },
+    async (ctx, context, args) => {
+      const entity = await ctx.db.get(args.entityId);
+      if (!entity) throw codedError("not_found", "Entity not found");
+      
+      await assertRecordAccess(
+        ctx, context, await resolveIngestionRecord(ctx, entity), "Entity not found"
+      );
+      
+      const members = [entity];
+      for (let i = 0; i < members.length; i++) {
+        const merged = await ctx.db
+          .query("entities")
+          .withIndex("by_merged_into", (q) => q.eq("mergedIntoId", members[i]._id))
+          .collect();
+        members.push(...merged);
+      }
+      
+      const results = [];
+      for (const member of members) {
+        const mentions = await ctx.db
+          .query("entityMentions")
+          .withIndex("by_entity", (q) => q.eq("entityId", member._id))
+          .take(MAX_MENTIONS_PER_ENTITY);
+        
+        for (const mention of mentions) {
+          const chunk = await ctx.db.get(mention.chunkId);
+          if (!chunk) continue;
+          
+          results.push({
+            ingestionId: chunk.ingestionId,
+            chunkId: mention.chunkId,
+            chunkIndex: chunk.chunkIndex,
+            pageNumber: chunk.pageNumber,
+            startOffset: mention.startOffset,
+            endOffset: mention.endOffset,
+            context: mention.context,
+          });
+        }
+      }
+      
+      return results;
+    }
+  ),
+});
+// ================================================
+// ENTITY RESOLUTION API
+// ================================================
+// client-template/convex/entityResolution.ts
+
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { wrapApi } from "./lib/apiWrapper";
+import { assertRecordAccess, getAccessibleCase, resolveIngestionRecord } from "./lib/caseAccess";
+import { assertCaseEditable } from "./lib/caseLifecycle";
+import { codedError } from "./lib/errors";
+import { boundedPage, pageValidator } from "./lib/pagination";
+import {
+  findMatchCandidate,
+  mergeEntity,
+  refreshPrimaryEntities,
+  rootOf,
+} from "./lib/entityResolution";
+
+const entitySummaryValidator = v.object({
+  _id: v.id("entities"),
+  ingestionId: v.id("documentIngestion"),
+  entityType: v.string(),
+  entitySubtype: v.optional(v.string()),
+  name: v.string(),
+  aliases: v.optional(v.array(v.string())),
+  confidence: v.number(),
+});
+
+function summarize(e: Doc<"entities">) {
+  return {
+    _id: e._id,
+    ingestionId: e.ingestionId,
+    entityType: e.entityType,
+    entitySubtype: e.entitySubtype,
+    name: e.name,
+    aliases: e.aliases,
+    confidence: e.confidence,
+  };
+}
+
+// Possible duplicates in a case waiting for a decision, newest first
+export const listMatchCandidates = query({
+  args: {
+    caseId: v.id("cases"),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: pageValidator(v.object({
+    _id: v.id("entityMatchCandidates"),
+    entity: entitySummaryValidator,
+    candidate: entitySummaryValidator,
+    score: v.number(),
+    reasons: v.array(v.string()),
+    createdAt: v.number(),
+  })),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["entities.read"] },
+    async (ctx, context, args) => {
+      await getAccessibleCase(ctx, context, args.caseId);
+      
+      const results = await ctx.db
+        .query("entityMatchCandidates")
+        .withIndex("by_case_and_status", (q) =>
+          q.eq("caseId", args.caseId).eq("status", "pending"))
+        .order("desc")
+        .paginate(boundedPage(args.paginationOpts));
+      
+      const page = [];
+      for (const match of results.page) {
+        const entity = await ctx.db.get(match.entityId);
+        const candidate = await ctx.db.get(match.candidateId);
+        if (!entity || !candidate) continue;
+        
+        page.push({
+          _id: match._id,
+          entity: summarize(entity),
+          candidate: summarize(candidate),
+          score: match.score,
+          reasons: match.reasons,
+          createdAt: match.createdAt,
+        });
+      }
+      
+      return { page, isDone: results.isDone, continueCursor: results.continueCursor };
+    }
+  ),
+});
+
+// Merge a queued pair, or record that they are different. Returns the
+// merge, if one was made.
+export const reviewMatchCandidate = mutation({
+  args: {
+    candidateId: v.id("entityMatchCandidates"),
+    decision: v.string(), // "merge" | "reject"
+  },
+  returns: v.union(v.id("entityMerges"), v.null()),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "entity.match_reviewed",
+      requires: ["entities.write"],
+    },
+    async (ctx, context, args) => {
+      if (args.decision !== "merge" && args.decision !== "reject") {
+        throw codedError("invalid_argument", `Invalid decision: ${args.decision}`);
+      }
+      
+      const match = await ctx.db.get(args.candidateId);
+      if (!match) throw codedError("not_found", "Match candidate not found");
+      
+      assertCaseEditable(await getAccessibleCase(ctx, context, match.caseId));
+      if (match.status !== "pending") {
+        throw codedError("invalid_state", `Match candidate was already ${match.status}`);
+      }
+      
+      let mergeId = null;
+      if (args.decision === "merge") {
+        const entity = await rootOf(ctx as MutationCtx, match.entityId);
+        const into = await rootOf(ctx as MutationCtx, match.candidateId);
+        
+        // Other merges may already have put both in one cluster
+        if (entity._id !== into._id) {
+          mergeId = await mergeEntity(ctx as MutationCtx, entity, into._id, {
+            score: match.score,
+            reasons: match.reasons,
+            method: "review",
+            mergedBy: context.userId,
+          });
+          await refreshPrimaryEntities(ctx as MutationCtx, match.caseId);
+        }
+      }
+      
+      await ctx.db.patch(args.candidateId, {
+        status: args.decision === "merge" ? "merged" : "rejected",
+        reviewedBy: context.userId,
+        reviewedAt: Date.now(),
+      });
+      
+      context.audit = {
+        resourceType: "entity",
+        resourceId: match.entityId,
+        metadata: {
+          decision: args.decision,
+          candidateId: match.candidateId,
+          score: match.score,
+          mergeId,
+        },
+      };
+      
+      return mergeId;
+    }
+  ),
+});
+
+// Merges of an entity into others and of others into it, newest first
+export const listMerges = query({
+  args: {
+    entityId: v.id("entities"),
+  },
+  returns: v.array(v.object({
+    _id: v.id("entityMerges"),
+    entityId: v.id("entities"),
+    entityName: v.optional(v.string()),
+    intoId: v.id("entities"),
+    intoName: v.optional(v.string()),
+    method: v.string(),
+    score: v.number(),
+    reasons: v.array(v.string()),
+    mergedBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    undoneAt: v.optional(v.number()),
+  })),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["entities.read"] },
+    async (ctx, context, args) => {
+      const entity = await ctx.db.get(args.entityId);
+      if (!entity) throw codedError("not_found", "Entity not found");
+      
+      await assertRecordAccess(
+        ctx, context, await resolveIngestionRecord(ctx, entity), "Entity not found"
+      );
+      
+      const merges = [
+        ...await ctx.db
+          .query("entityMerges")
+          .withIndex("by_entity", (q) => q.eq("entityId", args.entityId))
+          .collect(),
+        ...await ctx.db
+          .query("entityMerges")
+          .withIndex("by_into", (q) => q.eq("intoId", args.entityId))
+          .collect(),
+      ].sort((a, b) => b.createdAt - a.createdAt);
+      
+      const results = [];
+      for (const merge of merges) {
+        results.push({
+          _id: merge._id,
+          entityId: merge.entityId,
+          entityName: (await ctx.db.get(merge.entityId))?.name,
+          intoId: merge.intoId,
+          intoName: (await ctx.db.get(merge.intoId))?.name,
+          method: merge.method,
+          score: merge.score,
+          reasons: merge.reasons,
+          mergedBy: merge.mergedBy,
+          createdAt: merge.createdAt,
+          undoneAt: merge.undoneAt,
+        });
+      }
+      
+      return results;
+    }
+  ),
+});
+
+// Undo a merge. The duplicate stands on its own again (with anything that
+// was merged into it), and the pair is not suggested again.
+export const unmerge = mutation({
+  args: {
+    mergeId: v.id("entityMerges"),
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "entity.unmerged",
+      requires: ["entities.write"],
+    },
+    async (ctx, context, args) => {
+      const merge = await ctx.db.get(args.mergeId);
+      if (!merge) throw codedError("not_found", "Merge not found");
+      
+      assertCaseEditable(await getAccessibleCase(ctx, context, merge.caseId));
+      if (merge.undoneAt) throw codedError("invalid_state", "Merge was already undone");
+      
+      const entity = await ctx.db.get(merge.entityId);
+      if (entity?.mergedIntoId === merge.intoId) {
+        await ctx.db.patch(merge.entityId, { mergedIntoId: undefined, updatedAt: Date.now() });
+      }
+      await ctx.db.patch(args.mergeId, { undoneBy: context.userId, undoneAt: Date.now() });
+      
+      const review = { status: "rejected", reviewedBy: context.userId, reviewedAt: Date.now() };
+      const existing = await findMatchCandidate(ctx as MutationCtx, merge.entityId, merge.intoId);
+      if (existing) {
+        await ctx.db.patch(existing._id, review);
+      } else {
+        await ctx.db.insert("entityMatchCandidates", {
+          caseId: merge.caseId,
+          entityId: merge.entityId,
+          candidateId: merge.intoId,
+          score: merge.score,
+          reasons: merge.reasons,
+          ...review,
+          createdAt: Date.now(),
+        });
+      }
+      
+      await refreshPrimaryEntities(ctx as MutationCtx, merge.caseId);
+      
+      context.audit = {
+        resourceType: "entity",
+        resourceId: merge.entityId,
+        metadata: { mergeId: args.mergeId, intoId: merge.intoId, method: merge.method },
+      };
+      
+      return null;
+    }
+  ),
+});
@@ -0,0 +1,537 @@
+// ================================================
+// LOCAL CONVERTER TESTS
+// ================================================
+// document-processor/src/converters.test.ts
+
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONVERTER_ROUTES, htmlToMarkdown, localConverter, selectConverters } from './converters';
+import { PermanentStageError } from './stages';
+
+// mammoth reads real .docx archives; the fake returns the HTML it would
+// produce, so the tests stay offline and need no binary fixtures
+vi.mock('mammoth', () => ({
+  convertToHtml: vi.fn(async () => ({
+    value: '<h1>Order</h1><p>The motion is <strong>granted</strong>.</p>',
+    messages: [],
+  })),
+}));
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+function fixture(mimeType: string, text: string) {
+  return { bytes: new TextEncoder().encode(text), filename: 'fixture', mimeType };
+}
+
+const COMPLAINT_HTML = `<html>
+<head><title>Complaint</title><script>alert("x")</script></head>
+<body>
+<h1>Complaint</h1>
+<p>Filed by <b>Jane Doe</b> &amp; others.</p>
+<ol>
+  <li>First count</li>
+  <li>Second count
+    <ul><li>Detail</li></ul>
+  </li>
+</ol>
+<table>
+  <tr><th>Party</th><th>Role</th></tr>
+  <tr><td>Jane Doe</td><td>Plaintiff</td></tr>
+</table>
+<pre>line 1
+line 2</pre>
+</body>
+</html>`;
+
+describe('localConverter', () => {
+  it('splits plain text into pages at form feeds', async () => {
+    const result = await localConverter.convert(fixture('text/plain', 'First page\fSecond page'));
+    
+    expect(result.markdown).toBe('<!-- page 1 -->\n\nFirst page\n\n<!-- page 2 -->\n\nSecond page');
+    expect(result.pageCount).toBe(2);
+    expect(result.pageMap.map(p => p.page)).toEqual([1, 2]);
+  });
+  
+  it('keeps plain text from being read as markdown', async () => {
+    const result = await localConverter.convert(fixture('text/plain; charset=utf-8', '# Not a heading\n| not | a table |'));
+    
+    expect(result.markdown).toBe('\\# Not a heading\n\\| not | a table |');
+    expect(result.outline).toEqual([]);
+    expect(result.tables).toEqual([]);
+  });
+  
+  it('meters unpaged documents in page equivalents', async () => {
+    const result = await localConverter.convert(fixture('text/markdown', 'word '.repeat(501)));
+    
+    expect(result.pageCount).toBe(2);
+  });
+  
+  it('converts HTML to markdown with its structure', async () => {
+    const result = await localConverter.convert(fixture('text/html', COMPLAINT_HTML));
+    
+    expect(result.markdown).toBe([
+      '# Complaint',
+      'Filed by **Jane Doe** & others.',
+      '1. First count\n2. Second count\n   - Detail',
+      '| Party | Role |\n| --- | --- |\n| Jane Doe | Plaintiff |',
+      '```\nline 1\nline 2\n```',
+    ].join('\n\n'));
+    expect(result.outline).toEqual([{ level: 1, title: 'Complaint' }]);
+    expect(result.tables).toMatchObject([{ headers: ['Party', 'Role'], rowCount: 1 }]);
+  });
+  
+  it('converts DOCX through its HTML', async () => {
+    const result = await localConverter.convert(fixture(DOCX_MIME_TYPE, 'PK'));
+    
+    expect(result.markdown).toBe('# Order\n\nThe motion is **granted**.');
+    expect(result.pageCount).toBe(1);
+  });
+  
+  it('rejects formats it cannot read as permanent failures', async () => {
+    await expect(localConverter.convert(fixture('application/pdf', '%PDF-1.7')))
+      .rejects.toBeInstanceOf(PermanentStageError);
+  });
+});
+
+describe('htmlToMarkdown', () => {
+  it('escapes pipes in table cells and decodes numeric entities', () => {
+    expect(htmlToMarkdown('<table><tr><td>a|b</td><td>&#169; &#x2014;</td></tr></table>'))
+      .toBe('| a\\|b | © — |\n| --- | --- |');
+  });
+  
+  it('drops comments and layout markup', () => {
+    expect(htmlToMarkdown('<div><!-- draft --><span>Signed</span></div><hr><div>Dated</div>'))
+      .toBe('Signed\n\nDated');
+  });
+});
+
+describe('selectConverters', () => {
+  it('always allows the local converter', () => {
+    const config = { useChunkr: false, useDocling: false };
+    
+    expect(selectConverters('text/html', DEFAULT_CONVERTER_ROUTES, config)).toEqual(['local']);
+    expect(selectConverters('application/pdf', DEFAULT_CONVERTER_ROUTES, config)).toEqual([]);
+  });
+});
+
+// ================================================
+// MARKDOWN CHUNKER TESTS
+// ================================================
+// client-template/convex/lib/markdownChunker.test.ts
+
+import { describe, expect, it } from "vitest";
+import { chunkMarkdown } from "./markdownChunker";
+import { pageMarker } from "./documentStructure";
+
+const SMALL = { minChars: 20, maxChars: 80, overlapChars: 0 };
+
+describe("chunkMarkdown", () => {
+  it("makes every heading a chunk that the chunks under it point to", () => {
+    const drafts = chunkMarkdown([
+      "# Complaint",
+      "The plaintiff alleges as follows.",
+      "## Facts",
+      "The contract was signed in May.",
+      "## Claims",
+      "Breach of contract.",
+    ].join("\n\n"));
+    
+    expect(drafts.map(d => [d.chunkType, d.plainText, d.parentIndex])).toEqual([
+      ["header", "Complaint", undefined],
+      ["paragraph", "The plaintiff alleges as follows.", 0],
+      ["header", "Facts", 0],
+      ["paragraph", "The contract was signed in May.", 2],
+      ["header", "Claims", 0],
+      ["paragraph", "Breach of contract.", 4],
+    ]);
+    expect(drafts.filter(d => d.chunkType === "header").map(d => d.headingLevel)).toEqual([1, 2, 2]);
+  });
+  
+  it("takes page numbers from the page markers", () => {
+    const drafts = chunkMarkdown([
+      pageMarker(1),
+      "Text on the first page.",
+      pageMarker(2),
+      "# Exhibit A",
+      "Text on the second page.",
+    ].join("\n\n"));
+    
+    expect(drafts.map(d => [d.plainText, d.pageNumber])).toEqual([
+      ["Text on the first page.", 1],
+      ["Exhibit A", 2],
+      ["Text on the second page.", 2],
+    ]);
+  });
+  
+  it("never splits tables, code or numbered lists", () => {
+    const markdown = [
+      "| Party | Role |\n| --- | --- |\n| Jane Doe | Plaintiff |\n| Acme Corporation | Defendant |",
+      "```\nExhibit 1: Purchase agreement\nExhibit 2: Delivery notes\nExhibit 3: Invoices\n```",
+      "1. The defendant breached the contract.\n2. The plaintiff suffered damages as a result.",
+    ].join("\n\n");
+    
+    const drafts = chunkMarkdown(markdown, SMALL);
+    
+    expect(drafts.map(d => d.chunkType)).toEqual(["table", "code", "list"]);
+    expect(drafts[0].plainText).toBe("Party | Role\nJane Doe | Plaintiff\nAcme Corporation | Defendant");
+    expect(drafts.every(d => d.content.length > SMALL.maxChars)).toBe(true);
+  });
+  
+  it("splits long bulleted lists between items", () => {
+    const items = ["- Deposition of the plaintiff", "- Deposition of the defendant", "- Records of the bank"];
+    const drafts = chunkMarkdown(items.join("\n"), { ...SMALL, maxChars: 50 });
+    
+    expect(drafts.map(d => d.content)).toEqual(items);
+    expect(drafts.every(d => d.chunkType === "list")).toBe(true);
+  });
+  
+  it("packs paragraphs up to maxChars and carries the overlap over", () => {
+    const paragraphs = [
+      "The parties met on the first of May.",
+      "They agreed on a price for the goods.",
+      "The goods were never delivered to the buyer.",
+    ];
+    const drafts = chunkMarkdown(paragraphs.join("\n\n"), { ...SMALL, overlapChars: 12 });
+    
+    expect(drafts).toHaveLength(2);
+    expect(drafts[0].content).toBe(`${paragraphs[0]}\n\n${paragraphs[1]}`);
+    expect(drafts[1].content).toBe(`the goods.\n\n${paragraphs[2]}`);
+  });
+  
+  it("splits a paragraph that is too long between sentences", () => {
+    const sentences = [
+      "The first sentence is about the contract.",
+      "The second sentence is about the delivery.",
+      "The third one is short.",
+    ];
+    const drafts = chunkMarkdown(sentences.join(" "), SMALL);
+    
+    expect(drafts.map(d => d.content)).toEqual([
+      sentences[0],
+      `${sentences[1]} ${sentences[2]}`,
+    ]);
+  });
+  
+  it("merges a short last chunk into the one before", () => {
+    const drafts = chunkMarkdown("A paragraph of some length here.\n\nAnother one, also long.\n\nEnd.", {
+      ...SMALL,
+      maxChars: 60,
+    });
+    
+    expect(drafts.map(d => d.content)).toEqual([
+      "A paragraph of some length here.\n\nAnother one, also long.\n\nEnd.",
+    ]);
+  });
+});
+
+// ================================================
+// PROCESSING QUEUE LEASE TESTS
+// ================================================
+// client-template/convex/lib/processingQueue.test.ts
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MutationCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import {
+  claimNextItem,
+  getLeasedItem,
+  LEASE_MS,
+  MAX_ATTEMPTS,
+  releaseFailedItem,
+  retryDelay,
+} from "./processingQueue";
+
+const NOW = Date.UTC(2024, 0, 1);
+
+// Just enough of ctx.db for the queue: index reads by equality and the
+// filters claimNextItem uses
+function fakeCtx(rows: any[]) {
+  const value = (operand: any, row: any) => typeof operand === "function" ? operand(row) : operand;
+  const filters = {
+    field: (name: string) => (row: any) => row[name],
+    eq: (a: any, b: any) => (row: any) => value(a, row) === value(b, row),
+    lte: (a: any, b: any) => (row: any) => value(a, row) <= value(b, row),
+    or: (...predicates: any[]) => (row: any) => predicates.some(p => p(row)),
+  };
+  
+  const db = {
+    get: async (id: string) => rows.find(row => row._id === id) ?? null,
+    patch: async (id: string, patch: Record<string, unknown>) => {
+      Object.assign(rows.find(row => row._id === id), patch);
+    },
+    query: (table: string) => ({
+      withIndex: (_name: string, range: (q: any) => any) => {
+        const equal: [string, unknown][] = [];
+        const q = { eq: (field: string, v: unknown) => (equal.push([field, v]), q) };
+        range(q);
+        let matches = rows.filter(row => row._table === table && equal.every(([field, v]) => row[field] === v));
+        
+        const results = {
+          filter: (build: (q: any) => any) => {
+            const predicate = build(filters);
+            matches = matches.filter(predicate);
+            return results;
+          },
+          first: async () => matches[0] ?? null,
+        };
+        return results;
+      },
+    }),
+  };
+  return { db } as unknown as MutationCtx;
+}
+
+function queueItem(id: string, fields: Record<string, unknown> = {}): Record<string, any> {
+  return {
+    _table: "processingQueue",
+    _id: id,
+    ingestionId: `ingestion-${id}`,
+    status: "queued",
+    priority: 5,
+    attempts: 0,
+    ...fields,
+  };
+}
+
+function ingestion(id: string) {
+  return { _table: "documentIngestion", _id: id, status: "processing" };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("claimNextItem", () => {
+  it("takes the highest priority item that is due, oldest first", async () => {
+    const rows = [
+      queueItem("low", { priority: 1 }),
+      queueItem("backingOff", { priority: 9, nextAttemptAt: NOW + 1000 }),
+      queueItem("first", { priority: 7 }),
+      queueItem("second", { priority: 7 }),
+    ];
+    
+    const item = await claimNextItem(fakeCtx(rows), "worker1");
+    
+    expect(item).toMatchObject({
+      _id: "first",
+      status: "processing",
+      leaseOwner: "worker1",
+      leaseExpiresAt: NOW + LEASE_MS,
+      attempts: 1,
+    });
+  });
+  
+  it("takes items whose backoff has passed", async () => {
+    const rows = [queueItem("retry", { nextAttemptAt: NOW, attempts: 2 })];
+    
+    expect(await claimNextItem(fakeCtx(rows), "worker1")).toMatchObject({ _id: "retry", attempts: 3 });
+  });
+  
+  it("returns null when nothing is due", async () => {
+    const rows = [
+      queueItem("leased", { status: "processing" }),
+      queueItem("later", { nextAttemptAt: NOW + 1 }),
+    ];
+    
+    expect(await claimNextItem(fakeCtx(rows), "worker1")).toBeNull();
+  });
+});
+
+describe("getLeasedItem", () => {
+  const leased = () => queueItem("item1", { status: "processing", leaseOwner: "worker1", leaseExpiresAt: NOW + 1000 });
+  
+  it("returns the item while the worker holds the lease", async () => {
+    const ctx = fakeCtx([leased()]);
+    
+    expect(await getLeasedItem(ctx, "item1" as Id<"processingQueue">, "worker1")).toMatchObject({ _id: "item1" });
+  });
+  
+  it("fails once the lease has expired or passed to another worker", async () => {
+    const ctx = fakeCtx([leased()]);
+    
+    await expect(getLeasedItem(ctx, "item1" as Id<"processingQueue">, "worker2"))
+      .rejects.toMatchObject({ data: { code: "lease_lost" } });
+    
+    vi.setSystemTime(NOW + 1001);
+    await expect(getLeasedItem(ctx, "item1" as Id<"processingQueue">, "worker1"))
+      .rejects.toMatchObject({ data: { code: "lease_lost" } });
+  });
+});
+
+describe("retryDelay", () => {
+  it("doubles with each attempt up to an hour, give or take a fifth", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    
+    expect([1, 2, 3].map(retryDelay)).toEqual([30_000, 60_000, 120_000]);
+    expect(retryDelay(20)).toBe(60 * 60 * 1000);
+    
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(retryDelay(1)).toBe(24_000);
+  });
+});
+
+describe("releaseFailedItem", () => {
+  it("puts retryable failures back on the queue after a backoff", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const item = queueItem("item1", { status: "processing", leaseOwner: "worker1", attempts: 2 });
+    const rows = [item, ingestion("ingestion-item1")];
+    
+    expect(await releaseFailedItem(fakeCtx(rows), item as any, "Chunkr timed out", true)).toBe("queued");
+    expect(item).toMatchObject({
+      status: "queued",
+      leaseOwner: undefined,
+      nextAttemptAt: NOW + 60_000,
+      error: "Chunkr timed out",
+    });
+    expect(rows[1].status).toBe("processing");
+  });
+  
+  it("dead-letters items out of attempts or failing permanently, failing the ingestion", async () => {
+    const exhausted = queueItem("item1", { status: "processing", attempts: MAX_ATTEMPTS });
+    const permanent = queueItem("item2", { status: "processing", attempts: 1 });
+    const rows = [exhausted, permanent, ingestion("ingestion-item1"), ingestion("ingestion-item2")];
+    const ctx = fakeCtx(rows);
+    
+    expect(await releaseFailedItem(ctx, exhausted as any, "Chunkr timed out", true)).toBe("dead_letter");
+    expect(await releaseFailedItem(ctx, permanent as any, "Unsupported format", false)).toBe("dead_letter");
+    
+    expect(rows.map(row => row.status)).toEqual(["dead_letter", "dead_letter", "failed", "failed"]);
+    expect(exhausted.deadLetteredAt).toBe(NOW);
+  });
+});
+
+// ================================================
+// WORKER STAGE TESTS
+// ================================================
+// document-processor/src/worker.test.ts
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getFunctionName } from 'convex/server';
+import { ConvexHttpClient } from 'convex/browser';
+import { KeyManagementService } from '../../api-gateway/src/kms';
+import { DEFAULT_CONVERTER_ROUTES } from './converters';
+import { PermanentStageError } from './stages';
+import { processItem, StageAdapters } from './worker';
+
+const lease = { secret: 'secret', queueId: 'queue1' as any, workerId: 'worker1' };
+
+// Tenant client keeping the functions the worker called, by name
+function fakeClient() {
+  const calls: [string, any][] = [];
+  const run = async (fn: any, args: any) => {
+    calls.push([getFunctionName(fn), args]);
+    return null;
+  };
+  return { calls, client: { mutation: vi.fn(run), query: vi.fn(run) } as unknown as ConvexHttpClient };
+}
+
+function converter(result: string | Error) {
+  return {
+    convert: vi.fn(async (_source: unknown) => {
+      if (result instanceof Error) throw result;
+      return { markdown: result, pageCount: 1, pageMap: [], outline: [], tables: [] };
+    }),
+  };
+}
+
+function adapters(converters: Partial<Record<'chunkr' | 'docling' | 'local', ReturnType<typeof converter>>>) {
+  return {
+    converters: { chunkr: converter('unused'), docling: converter('unused'), local: converter('unused'), ...converters },
+    routes: DEFAULT_CONVERTER_ROUTES,
+    docetl: { extract: vi.fn(async (_input: unknown) => []) },
+  } as StageAdapters;
+}
+
+function claimed(fields: Record<string, unknown> = {}) {
+  return {
+    queueId: lease.queueId,
+    ingestionId: 'ingestion1',
+    attempt: 1,
+    leaseExpiresAt: 0,
+    processingConfig: { useChunkr: true, useDocling: true },
+    source: { url: 'https://storage.test/source', filename: 'complaint.pdf', mimeType: 'application/pdf' },
+    stages: {},
+    ...fields,
+  } as any;
+}
+
+const kms = {} as KeyManagementService; // Only used for entities with identifiers
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response('%PDF-1.7')));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('processItem', () => {
+  it('tries the routed converters in order until one succeeds, then extracts', async () => {
+    const { client, calls } = fakeClient();
+    const stages = adapters({ chunkr: converter(new Error('Chunkr unavailable')), docling: converter('# Complaint') });
+    
+    await processItem(client, claimed(), lease, stages, kms);
+    
+    expect(calls.map(([name, args]) => [name, args.stage, args.status])).toEqual([
+      ['processingQueue:updateStage', 'chunkr', 'processing'],
+      ['processingQueue:updateStage', 'chunkr', 'failed'],
+      ['processingQueue:updateStage', 'docling', 'processing'],
+      ['processingQueue:recordConversion', 'docling', undefined],
+      ['processingQueue:updateStage', 'docetl', 'processing'],
+      ['processingQueue:recordExtraction', undefined, undefined],
+      ['processingQueue:complete', undefined, undefined],
+    ]);
+    expect(calls[1][1].error).toBe('Chunkr unavailable');
+    expect(calls[3][1]).toMatchObject({ ingestionId: 'ingestion1', markdownContent: '# Complaint', pageCount: 1 });
+    expect(stages.docetl.extract).toHaveBeenCalledWith({ markdown: '# Complaint', templateId: undefined, customConfig: undefined });
+  });
+  
+  it('skips the conversion recorded on an earlier attempt', async () => {
+    const { client, calls } = fakeClient();
+    const stages = adapters({});
+    
+    await processItem(client, claimed({ markdownContent: '# Converted before' }), lease, stages, kms);
+    
+    expect(stages.converters.chunkr.convert).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+    expect(stages.docetl.extract).toHaveBeenCalledWith(expect.objectContaining({ markdown: '# Converted before' }));
+    expect(calls.map(([name]) => name)).toEqual([
+      'processingQueue:updateStage',
+      'processingQueue:recordExtraction',
+      'processingQueue:complete',
+    ]);
+  });
+  
+  it('only completes items whose stages all finished before', async () => {
+    const { client, calls } = fakeClient();
+    const stages = adapters({});
+    
+    await processItem(client, claimed({
+      markdownContent: '# Converted before',
+      stages: { docetl: { status: 'completed' } },
+    }), lease, stages, kms);
+    
+    expect(stages.docetl.extract).not.toHaveBeenCalled();
+    expect(calls.map(([name]) => name)).toEqual(['processingQueue:complete']);
+  });
+  
+  it('rethrows the last converter failure when every converter fails', async () => {
+    const { client, calls } = fakeClient();
+    const stages = adapters({ chunkr: converter(new Error('Chunkr unavailable')), docling: converter(new Error('Docling unavailable')) });
+    
+    await expect(processItem(client, claimed(), lease, stages, kms)).rejects.toThrow('Docling unavailable');
+    expect(calls.map(([name]) => name)).not.toContain('processingQueue:complete');
+  });
+  
+  it('fails permanently when no converter is enabled for the type', async () => {
+    const { client } = fakeClient();
+    const item = claimed({ processingConfig: { useChunkr: false, useDocling: false } });
+    
+    await expect(processItem(client, item, lease, adapters({}), kms)).rejects.toBeInstanceOf(PermanentStageError);
+  });
+});
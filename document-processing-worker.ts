@@ -0,0 +1,1269 @@
+// ================================================
+// PROCESSING QUEUE LEASES
+// ================================================
+// client-template/convex/lib/processingQueue.ts
+
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { codedError } from "./errors";
+
+export const QUEUE_STATUSES = ["queued", "processing", "completed", "dead_letter"] as const;
+
+export type QueueStatus = typeof QUEUE_STATUSES[number];
+
+// A worker must finish or renew its lease within this time, or the item is
+// handed to another worker
+export const LEASE_MS = 5 * 60 * 1000;
+
+// Attempts count claims, so an item that keeps crashing its worker (and
+// never reports a failure) is still dead-lettered
+export const MAX_ATTEMPTS = 5;
+
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// Priorities run 0-10, highest first
+const MAX_PRIORITY = 10;
+
+// Exponential backoff with jitter, so items that failed together (e.g. during
+// a converter outage) do not all come back at once
+export function retryDelay(attempts: number) {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1), MAX_BACKOFF_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// Take the highest-priority item that is due, oldest first within a priority
+export async function claimNextItem(ctx: MutationCtx, workerId: string) {
+  const now = Date.now();
+  
+  for (let priority = MAX_PRIORITY; priority >= 0; priority--) {
+    const item = await ctx.db
+      .query("processingQueue")
+      .withIndex("by_status_priority_created", (q) =>
+        q.eq("status", "queued").eq("priority", priority))
+      .filter((q) =>
+        q.or(
+          q.eq(q.field("nextAttemptAt"), undefined),
+          q.lte(q.field("nextAttemptAt"), now)
+        )
+      )
+      .first();
+    
+    if (!item) continue;
+    
+    await ctx.db.patch(item._id, {
+      status: "processing",
+      leaseOwner: workerId,
+      leaseExpiresAt: now + LEASE_MS,
+      attempts: item.attempts + 1,
+      lastAttemptAt: now,
+      nextAttemptAt: undefined,
+    });
+    return (await ctx.db.get(item._id))!;
+  }
+  
+  return null;
+}
+
+// Workers only write through a lease they still hold. A worker that stalled
+// past its lease finds the item taken and must stop.
+export async function getLeasedItem(
+  ctx: MutationCtx,
+  queueId: Id<"processingQueue">,
+  workerId: string
+) {
+  const item = await ctx.db.get(queueId);
+  if (!item || item.status !== "processing" || item.leaseOwner !== workerId ||
+      (item.leaseExpiresAt ?? 0) < Date.now()) {
+    throw codedError("lease_lost", `Lease lost on queue item ${queueId}`);
+  }
+  return item;
+}
+
+// Back to the queue after a backoff, or to the dead-letter state once the
+// attempts are used up (or the failure cannot be retried)
+export async function releaseFailedItem(
+  ctx: MutationCtx,
+  item: Doc<"processingQueue">,
+  error: string,
+  retryable: boolean
+) {
+  const now = Date.now();
+  const release = { leaseOwner: undefined, leaseExpiresAt: undefined, error };
+  
+  if (retryable && item.attempts < MAX_ATTEMPTS) {
+    await ctx.db.patch(item._id, {
+      ...release,
+      status: "queued",
+      nextAttemptAt: now + retryDelay(item.attempts),
+    });
+    return "queued";
+  }
+  
+  await ctx.db.patch(item._id, { ...release, status: "dead_letter", deadLetteredAt: now });
+  if (await ctx.db.get(item.ingestionId)) {
+    await ctx.db.patch(item.ingestionId, { status: "failed", updatedAt: now });
+  }
+  return "dead_letter";
+}
+
+// ================================================
+// PROCESSING QUEUE API
+// ================================================
+// client-template/convex/processingQueue.ts
+
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query } from "./_generated/server";
+import { wrapApi } from "./lib/apiWrapper";
+import { assertRecordAccess, createCaseAccessChecker } from "./lib/caseAccess";
+import { codedError } from "./lib/errors";
+import { boundedPage, pageValidator } from "./lib/pagination";
+import { assertControlPlaneSecret } from "./lib/secrets";
+import { ConverterName, isConverterName } from "./lib/documentStructure";
+import {
+  claimNextItem,
+  getLeasedItem,
+  LEASE_MS,
+  releaseFailedItem,
+} from "./lib/processingQueue";
+import {
+  hashedEntityValidator,
+  markdownContentArgs,
+  saveExtractedEntities,
+  saveMarkdownContent,
+} from "./documentIngestion";
+
+// Expired leases handled per call; the rest wait for the next poll
+const RECLAIM_BATCH_SIZE = 100;
+
+// Reported by the worker; completion is recorded with the stage's results
+const REPORTED_STAGE_STATUSES = ["processing", "failed"];
+
+const leaseArgs = {
+  secret: v.string(),
+  queueId: v.id("processingQueue"),
+  workerId: v.string(),
+};
+
+const stageValidator = v.object({
+  status: v.string(),
+  startedAt: v.optional(v.number()),
+  completedAt: v.optional(v.number()),
+  error: v.optional(v.string()),
+});
+
+// Claim the next due item under a lease. Returns what the worker needs to
+// run the stages, including work finished on earlier attempts.
+export const claim = mutation({
+  args: {
+    secret: v.string(),
+    workerId: v.string(),
+  },
+  returns: v.union(
+    v.object({
+      queueId: v.id("processingQueue"),
+      ingestionId: v.id("documentIngestion"),
+      attempt: v.number(),
+      leaseExpiresAt: v.number(),
+      processingConfig: v.object({
+        useChunkr: v.boolean(),
+        useDocling: v.boolean(),
+        templateId: v.optional(v.id("entityExtractionTemplates")),
+        customConfig: v.optional(v.any()),
+      }),
+      source: v.object({
+        url: v.string(),
+        filename: v.string(),
+        mimeType: v.string(),
+      }),
+      markdownContent: v.optional(v.string()), // Set once a converter has succeeded
+      markdownUrl: v.optional(v.string()), // Instead of the content when it is large
+      stages: v.object({
+        chunkr: v.optional(stageValidator),
+        docling: v.optional(stageValidator),
+        local: v.optional(stageValidator),
+        docetl: v.optional(stageValidator),
+      }),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const item = await claimNextItem(ctx, args.workerId);
+    if (!item) return null;
+    
+    const ingestion = await ctx.db.get(item.ingestionId);
+    const url = ingestion && await ctx.storage.getUrl(ingestion.sourceStorageId);
+    if (!ingestion || !url) {
+      await releaseFailedItem(ctx, item, "Source document not found", false);
+      return null;
+    }
+    
+    await ctx.db.patch(item.ingestionId, { status: "processing", updatedAt: Date.now() });
+    
+    const markdownUrl = !ingestion.markdownContent && ingestion.markdownStorageId ?
+      await ctx.storage.getUrl(ingestion.markdownStorageId) : null;
+    
+    return {
+      queueId: item._id,
+      ingestionId: item.ingestionId,
+      attempt: item.attempts,
+      leaseExpiresAt: item.leaseExpiresAt!,
+      processingConfig: item.processingConfig,
+      source: {
+        url,
+        filename: ingestion.sourceFilename,
+        mimeType: ingestion.sourceMimeType,
+      },
+      markdownContent: ingestion.markdownContent,
+      markdownUrl: markdownUrl ?? undefined,
+      stages: {
+        chunkr: ingestion.stages.chunkr && toStage(ingestion.stages.chunkr),
+        docling: ingestion.stages.docling && toStage(ingestion.stages.docling),
+        local: ingestion.stages.local && toStage(ingestion.stages.local),
+        docetl: ingestion.stages.docetl && toStage(ingestion.stages.docetl),
+      },
+    };
+  },
+});
+
+function toStage(stage: { status: string; startedAt?: number; completedAt?: number; error?: string }) {
+  return {
+    status: stage.status,
+    startedAt: stage.startedAt,
+    completedAt: stage.completedAt,
+    error: stage.error,
+  };
+}
+
+// Renew the lease during long conversions
+export const heartbeat = mutation({
+  args: leaseArgs,
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    await getLeasedItem(ctx, args.queueId, args.workerId);
+    const leaseExpiresAt = Date.now() + LEASE_MS;
+    await ctx.db.patch(args.queueId, { leaseExpiresAt });
+    return leaseExpiresAt;
+  },
+});
+
+// Upload URL for converted markdown too large to store on the ingestion
+export const generateMarkdownUploadUrl = mutation({
+  args: leaseArgs,
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    await getLeasedItem(ctx, args.queueId, args.workerId);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Record that a stage started or failed on the ingestion, for status pages
+export const updateStage = mutation({
+  args: {
+    ...leaseArgs,
+    stage: v.string(), // "chunkr" | "docling" | "local" | "docetl"
+    status: v.string(), // "processing" | "failed"
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    if (!isConverterName(args.stage) && args.stage !== "docetl") {
+      throw codedError("invalid_argument", `Unknown stage: ${args.stage}`);
+    }
+    if (!REPORTED_STAGE_STATUSES.includes(args.status)) {
+      throw codedError("invalid_argument", `Invalid stage status: ${args.status}`);
+    }
+    
+    const item = await getLeasedItem(ctx, args.queueId, args.workerId);
+    const ingestion = await ctx.db.get(item.ingestionId);
+    if (!ingestion) throw codedError("not_found", "Ingestion not found");
+    
+    const stage = args.stage as ConverterName | "docetl";
+    await ctx.db.patch(item.ingestionId, {
+      stages: {
+        ...ingestion.stages,
+        [stage]: {
+          ...ingestion.stages[stage],
+          status: args.status,
+          startedAt: args.status === "processing" ? Date.now() : ingestion.stages[stage]?.startedAt,
+          error: args.error,
+        },
+      },
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+export const recordConversion = mutation({
+  args: {
+    ...leaseArgs,
+    ...markdownContentArgs,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const item = await getLeasedItem(ctx, args.queueId, args.workerId);
+    if (item.ingestionId !== args.ingestionId) {
+      throw codedError("invalid_argument", "Queue item is for a different ingestion");
+    }
+    
+    const { secret, queueId, workerId, ...content } = args;
+    await saveMarkdownContent(ctx, content);
+    return null;
+  },
+});
+
+// Identification values must already be encrypted by the worker
+export const recordExtraction = mutation({
+  args: {
+    ...leaseArgs,
+    entities: v.array(hashedEntityValidator),
+  },
+  returns: v.array(v.id("entities")),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const item = await getLeasedItem(ctx, args.queueId, args.workerId);
+    const entityIds = await saveExtractedEntities(ctx, item.ingestionId, args.entities);
+    
+    await ctx.db.insert("auditLogs", {
+      action: "entities.extracted",
+      resourceType: "ingestion",
+      resourceId: item.ingestionId,
+      metadata: { entityCount: entityIds.length, attempt: item.attempts },
+      ipAddress: "internal",
+      userAgent: "document-processor",
+      createdAt: Date.now(),
+    });
+    return entityIds;
+  },
+});
+
+export const complete = mutation({
+  args: leaseArgs,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    await getLeasedItem(ctx, args.queueId, args.workerId);
+    await ctx.db.patch(args.queueId, {
+      status: "completed",
+      completedAt: Date.now(),
+      leaseOwner: undefined,
+      leaseExpiresAt: undefined,
+      error: undefined,
+    });
+    return null;
+  },
+});
+
+// Report a failed attempt. Returns where the item went.
+export const fail = mutation({
+  args: {
+    ...leaseArgs,
+    error: v.string(),
+    retryable: v.boolean(),
+  },
+  returns: v.string(), // "queued" | "dead_letter"
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const item = await getLeasedItem(ctx, args.queueId, args.workerId);
+    return await releaseFailedItem(ctx, item, args.error, args.retryable);
+  },
+});
+
+// Items whose worker died or stalled count as a failed attempt
+export const reclaimExpired = mutation({
+  args: {
+    secret: v.string(),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const expired = await ctx.db
+      .query("processingQueue")
+      .withIndex("by_status_and_lease", (q) =>
+        q.eq("status", "processing").lt("leaseExpiresAt", Date.now()))
+      .take(RECLAIM_BATCH_SIZE);
+    
+    for (const item of expired) {
+      await releaseFailedItem(ctx, item, `Lease held by ${item.leaseOwner} expired`, true);
+    }
+    return expired.length;
+  },
+});
+
+// Dead-lettered items for operators to inspect, most recent first
+export const listDeadLetters = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: pageValidator(v.object({
+    _id: v.id("processingQueue"),
+    ingestionId: v.id("documentIngestion"),
+    filename: v.optional(v.string()),
+    caseId: v.optional(v.id("cases")),
+    attempts: v.number(),
+    error: v.optional(v.string()),
+    deadLetteredAt: v.optional(v.number()),
+  })),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["ingestion.read"] },
+    async (ctx, context, args) => {
+      const results = await ctx.db
+        .query("processingQueue")
+        .withIndex("by_status", (q) => q.eq("status", "dead_letter"))
+        .order("desc")
+        .paginate(boundedPage(args.paginationOpts));
+      
+      // Filtering after pagination may return short pages; the cursor
+      // still advances correctly
+      const canAccess = createCaseAccessChecker(ctx, context);
+      const page = [];
+      for (const item of results.page) {
+        const ingestion = await ctx.db.get(item.ingestionId);
+        if (!ingestion || !(await canAccess(ingestion))) continue;
+        
+        page.push({
+          _id: item._id,
+          ingestionId: item.ingestionId,
+          filename: ingestion.sourceFilename,
+          caseId: ingestion.caseId,
+          attempts: item.attempts,
+          error: item.error,
+          deadLetteredAt: item.deadLetteredAt,
+        });
+      }
+      
+      return { page, isDone: results.isDone, continueCursor: results.continueCursor };
+    }
+  ),
+});
+
+// Put a dead-lettered item back in the queue with a fresh set of attempts
+export const retryDeadLetter = mutation({
+  args: {
+    queueId: v.id("processingQueue"),
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "ingestion.requeued",
+      rateLimit: "ingestion",
+      requires: ["ingestion.write"],
+    },
+    async (ctx, context, args) => {
+      const item = await ctx.db.get(args.queueId);
+      if (!item) throw codedError("not_found", "Queue item not found");
+      
+      const ingestion = await ctx.db.get(item.ingestionId);
+      if (!ingestion) throw codedError("not_found", "Queue item not found");
+      await assertRecordAccess(ctx, context, ingestion, "Queue item not found");
+      
+      if (item.status !== "dead_letter") {
+        throw codedError("invalid_state", `Queue item is ${item.status}, only dead-lettered items can be retried`);
+      }
+      
+      await ctx.db.patch(args.queueId, {
+        status: "queued",
+        attempts: 0,
+        nextAttemptAt: undefined,
+        deadLetteredAt: undefined,
+      });
+      await ctx.db.patch(item.ingestionId, { status: "uploaded", updatedAt: Date.now() });
+      
+      context.audit = {
+        resourceType: "ingestion",
+        resourceId: item.ingestionId,
+        metadata: { queueId: args.queueId, previousAttempts: item.attempts, error: item.error },
+      };
+      return null;
+    }
+  ),
+});
+
+// ================================================
+// PROCESSING STAGE ADAPTERS
+// ================================================
+// document-processor/src/stages.ts
+
+import { BlindIndex } from '../../client-template/convex/lib/blindIndex';
+
+// Each pipeline stage sits behind an interface so the worker can be run
+// against local fakes in tests, or against other services. Converters are
+// in converters.ts.
+
+export interface ExtractedEntity {
+  entityType: string;
+  entitySubtype?: string;
+  name: string;
+  aliases?: string[];
+  attributes: any; // Identification values in plaintext; the worker encrypts them
+  identifierHashes?: string[]; // Added by the worker, see lib/blindIndex.ts
+  nameIndexes?: BlindIndex[]; // Likewise
+  confidence: number;
+  sourceContext: string;
+  pageNumber?: number;
+}
+
+export interface Extractor {
+  extract(input: { markdown: string; templateId?: string; customConfig?: unknown }): Promise<ExtractedEntity[]>;
+}
+
+// Failures that another attempt cannot fix (bad input, rejected
+// credentials). The item goes straight to the dead-letter state.
+export class PermanentStageError extends Error {}
+
+// Per-request timeout; large PDFs take a while to convert
+const STAGE_TIMEOUT_MS = 4 * 60 * 1000;
+
+// Call a hosted stage service, sorting failures into retryable and permanent
+export async function serviceRequest(service: string, url: string | undefined, init: RequestInit = {}) {
+  if (!url) throw new PermanentStageError(`${service} is not configured`);
+  
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(STAGE_TIMEOUT_MS) });
+  
+  if (!response.ok) {
+    const message = `${service} returned ${response.status}: ${(await response.text()).slice(0, 500)}`;
+    // Client errors other than timeouts and throttling will fail again
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+    throw retryable ? new Error(message) : new PermanentStageError(message);
+  }
+  return response;
+}
+
+// DocETL, configured through the environment
+export function docetlExtractor(env: NodeJS.ProcessEnv = process.env): Extractor {
+  return {
+    async extract(input) {
+      const response = await serviceRequest('DocETL', env.DOCETL_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(env.DOCETL_API_KEY ? { Authorization: `Bearer ${env.DOCETL_API_KEY}` } : {}),
+        },
+        body: JSON.stringify(input),
+      });
+      return (await response.json()).entities;
+    },
+  };
+}
+
+// ================================================
+// DOCUMENT CONVERTERS
+// ================================================
+// document-processor/src/converters.ts
+
+import * as mammoth from 'mammoth';
+import {
+  ConverterName,
+  describeMarkdown,
+  DocumentStructure,
+  isConverterName,
+  pageMarker,
+} from '../../client-template/convex/lib/documentStructure';
+import { PermanentStageError, serviceRequest } from './stages';
+
+export interface SourceDocument {
+  bytes: Uint8Array;
+  filename: string;
+  mimeType: string;
+}
+
+// Markdown with a page marker at the start of each page (see
+// lib/documentStructure.ts), and the page map, outline and tables found in it
+export interface ConversionResult extends DocumentStructure {
+  markdown: string;
+  pageCount?: number;
+}
+
+export interface Converter {
+  convert(source: SourceDocument): Promise<ConversionResult>;
+}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Converters tried for each MIME type, in order. "type/*" and "*" catch
+// anything without a more specific entry.
+export type ConverterRoutes = Record<string, ConverterName[]>;
+
+export const DEFAULT_CONVERTER_ROUTES: ConverterRoutes = {
+  'application/pdf': ['chunkr', 'docling'],
+  [DOCX_MIME_TYPE]: ['local', 'docling'],
+  'text/html': ['local', 'docling'],
+  'text/markdown': ['local'],
+  'text/plain': ['local'],
+  'image/*': ['chunkr', 'docling'],
+  '*': ['docling', 'chunkr'],
+};
+
+// Formats without fixed pages are metered in page equivalents
+const WORDS_PER_PAGE = 500;
+
+const CHUNKR_POLL_MS = 2 * 1000;
+const CHUNKR_TASK_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Docling replaces page breaks with this, and we replace it with markers
+const DOCLING_PAGE_BREAK = '<!-- docling-page-break -->';
+
+function baseMimeType(mimeType: string) {
+  return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+function isPaged(mimeType: string) {
+  const type = baseMimeType(mimeType);
+  return type === 'application/pdf' || type.startsWith('image/');
+}
+
+// CONVERTER_ROUTES overrides entries of the defaults, e.g.
+// "application/pdf=docling,chunkr;text/html=local"
+export function converterRoutes(env: NodeJS.ProcessEnv = process.env): ConverterRoutes {
+  const routes = { ...DEFAULT_CONVERTER_ROUTES };
+  
+  for (const entry of (env.CONVERTER_ROUTES || '').split(';').filter(e => e.trim())) {
+    const [mimeType, names = ''] = entry.split('=');
+    const converters = names.split(',').map(n => n.trim()).filter(Boolean);
+    if (!mimeType.trim() || !converters.length || !converters.every(isConverterName)) {
+      throw new Error(`Invalid CONVERTER_ROUTES entry: ${entry}`);
+    }
+    routes[baseMimeType(mimeType)] = converters;
+  }
+  
+  return routes;
+}
+
+// Converters to try for a document. The per-ingestion flags can switch the
+// hosted services off; the local converter is always allowed.
+export function selectConverters(
+  mimeType: string,
+  routes: ConverterRoutes,
+  config: { useChunkr: boolean; useDocling: boolean }
+) {
+  const type = baseMimeType(mimeType);
+  const route = routes[type] ?? routes[`${type.split('/')[0]}/*`] ?? routes['*'] ?? [];
+  
+  return route.filter(name =>
+    name === 'local' || (name === 'chunkr' ? config.useChunkr : config.useDocling)
+  );
+}
+
+// One page marker per page, so page numbers survive chunking
+function pagedResult(pages: string[]): ConversionResult {
+  const markdown = pages
+    .map((page, i) => `${pageMarker(i + 1)}\n\n${page.trim()}`)
+    .join('\n\n');
+  return { markdown, pageCount: pages.length, ...describeMarkdown(markdown) };
+}
+
+function unpagedResult(markdown: string): ConversionResult {
+  const words = markdown.split(/\s+/).filter(Boolean).length;
+  return {
+    markdown,
+    pageCount: Math.max(1, Math.ceil(words / WORDS_PER_PAGE)),
+    ...describeMarkdown(markdown),
+  };
+}
+
+// Chunkr runs conversions as tasks: create one, then poll until it is done
+export function chunkrConverter(env: NodeJS.ProcessEnv = process.env): Converter {
+  const baseUrl = env.CHUNKR_URL || 'https://api.chunkr.ai';
+  
+  return {
+    async convert(source) {
+      if (!env.CHUNKR_API_KEY) throw new PermanentStageError('Chunkr is not configured');
+      const headers = { 'Content-Type': 'application/json', Authorization: env.CHUNKR_API_KEY };
+      
+      let response = await serviceRequest('Chunkr', `${baseUrl}/api/v1/task/parse`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          file: Buffer.from(source.bytes).toString('base64'),
+          file_name: source.filename,
+        }),
+      });
+      let task = await response.json();
+      
+      const deadline = Date.now() + CHUNKR_TASK_TIMEOUT_MS;
+      while (task.status === 'Starting' || task.status === 'Processing') {
+        if (Date.now() > deadline) throw new Error(`Chunkr task ${task.task_id} did not finish in time`);
+        await new Promise(resolve => setTimeout(resolve, CHUNKR_POLL_MS));
+        
+        response = await serviceRequest('Chunkr', `${baseUrl}/api/v1/task/${task.task_id}`, { headers });
+        task = await response.json();
+      }
+      
+      if (task.status !== 'Succeeded') {
+        throw new PermanentStageError(`Chunkr task ${task.task_id} ${task.status}: ${task.message ?? 'no reason given'}`);
+      }
+      
+      // Segments carry their page; running headers and footers would repeat
+      // on every page, so they are dropped
+      const pages: string[] = [];
+      for (const chunk of task.output?.chunks ?? []) {
+        for (const segment of chunk.segments ?? []) {
+          if (segment.segment_type === 'PageHeader' || segment.segment_type === 'PageFooter') continue;
+          
+          const page = Math.max(1, segment.page_number ?? 1);
+          while (pages.length < page) pages.push('');
+          pages[page - 1] += `${segment.markdown || segment.content || ''}\n\n`;
+        }
+      }
+      
+      return isPaged(source.mimeType) ? pagedResult(pages) : unpagedResult(pages.join('\n\n').trim());
+    },
+  };
+}
+
+// Docling Serve converts synchronously and returns the markdown directly
+export function doclingConverter(env: NodeJS.ProcessEnv = process.env): Converter {
+  return {
+    async convert(source) {
+      const form = new FormData();
+      form.append('files', new Blob([source.bytes], { type: source.mimeType }), source.filename);
+      form.append('to_formats', 'md');
+      form.append('image_export_mode', 'placeholder');
+      form.append('md_page_break_placeholder', DOCLING_PAGE_BREAK);
+      
+      const url = env.DOCLING_URL && `${env.DOCLING_URL}/v1/convert/file`;
+      const response = await serviceRequest('Docling', url, {
+        method: 'POST',
+        headers: env.DOCLING_API_KEY ? { 'X-Api-Key': env.DOCLING_API_KEY } : {},
+        body: form,
+      });
+      const result = await response.json();
+      
+      if (result.status !== 'success' && result.status !== 'partial_success') {
+        const errors = (result.errors ?? []).map((e: { error_message?: string }) => e.error_message);
+        throw new PermanentStageError(`Docling could not convert the document: ${errors.join('; ') || result.status}`);
+      }
+      
+      const markdown: string = result.document?.md_content ?? '';
+      return isPaged(source.mimeType) ?
+        pagedResult(markdown.split(DOCLING_PAGE_BREAK)) :
+        unpagedResult(markdown.split(DOCLING_PAGE_BREAK).join('\n\n'));
+    },
+  };
+}
+
+// Built-in conversion of text, HTML and DOCX, for firms without the hosted
+// services and for offline tests
+export const localConverter: Converter = {
+  async convert(source) {
+    const text = () => new TextDecoder().decode(source.bytes);
+    
+    switch (baseMimeType(source.mimeType)) {
+      case 'text/plain': {
+        // Form feeds separate pages in text exported from page-based tools
+        const pages = text().split('\f').map(escapePlainText);
+        return pages.length > 1 ? pagedResult(pages) : unpagedResult(pages[0]);
+      }
+      case 'text/markdown':
+        return unpagedResult(text());
+      case 'text/html':
+        return unpagedResult(htmlToMarkdown(text()));
+      case DOCX_MIME_TYPE: {
+        const { value } = await mammoth.convertToHtml({ buffer: Buffer.from(source.bytes) });
+        return unpagedResult(htmlToMarkdown(value));
+      }
+      default:
+        throw new PermanentStageError(`The local converter cannot read ${source.mimeType}`);
+    }
+  },
+};
+
+export function createConverters(env: NodeJS.ProcessEnv = process.env): Record<ConverterName, Converter> {
+  return {
+    chunkr: chunkrConverter(env),
+    docling: doclingConverter(env),
+    local: localConverter,
+  };
+}
+
+// Keep plain text from being read as headings, quotes, tables or code
+function escapePlainText(text: string) {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^(\s*)(#|>|\||```|~~~)/, '$1\\$2'))
+    .join('\n');
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity.toLowerCase()] ?? match;
+    const code = entity[1] === 'x' || entity[1] === 'X' ?
+      parseInt(entity.slice(2), 16) :
+      parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+function tableToMarkdown(rows: string[][]) {
+  const width = Math.max(...rows.map(row => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (cells[i] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`;
+  
+  return [
+    line(rows[0]),
+    line(Array(width).fill('---')),
+    ...rows.slice(1).map(line),
+  ].join('\n');
+}
+
+const SKIPPED_TAGS = ['script', 'style', 'head', 'title', 'noscript', 'template'];
+const BLOCK_TAGS = [
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav',
+  'blockquote', 'address', 'figure', 'figcaption', 'body', 'html', 'hr',
+];
+
+// Enough HTML for documents (including DOCX run through mammoth): headings,
+// paragraphs, nested lists, tables, preformatted text and emphasis. Layout
+// markup is dropped.
+export function htmlToMarkdown(html: string) {
+  const blocks: { text: string; listItem: boolean }[] = [];
+  const lists: { ordered: boolean; next: number }[] = [];
+  let prefix = '';
+  let line = '';
+  let skipping: string | null = null;
+  let pre: string | null = null;
+  let table: string[][] | null = null;
+  let row: string[] | null = null;
+  let cell: string | null = null;
+  
+  const flush = () => {
+    const text = line.split('\n').map(l => l.trim()).filter(Boolean).join('  \n');
+    line = '';
+    if (!text) return;
+    
+    blocks.push({ text: prefix + text, listItem: prefix !== '' && !prefix.startsWith('#') });
+    prefix = '';
+  };
+  const write = (text: string) => {
+    if (cell !== null) cell += text;
+    else if (pre !== null) pre += text;
+    else line += text;
+  };
+  
+  for (const [token, closing, tagName] of html.matchAll(/<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>|[^<]+|</g)) {
+    if (token.startsWith('<!--')) continue;
+    
+    if (!tagName) {
+      if (skipping) continue;
+      const text = decodeEntities(token);
+      write(pre !== null ? text : text.replace(/\s+/g, ' '));
+      continue;
+    }
+    
+    const tag = tagName.toLowerCase();
+    const isClosing = closing === '/';
+    
+    if (skipping) {
+      if (isClosing && tag === skipping) skipping = null;
+      continue;
+    }
+    if (SKIPPED_TAGS.includes(tag)) {
+      if (!isClosing && !token.endsWith('/>')) skipping = tag;
+      continue;
+    }
+    
+    if (pre !== null) {
+      if (tag === 'pre' && isClosing) {
+        blocks.push({ text: `\`\`\`\n${pre.replace(/^\n|\n$/g, '')}\n\`\`\``, listItem: false });
+        pre = null;
+      } else if (tag === 'br') {
+        pre += '\n';
+      }
+      continue;
+    }
+    
+    switch (tag) {
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        if (cell !== null) break;
+        flush();
+        prefix = isClosing ? '' : `${'#'.repeat(Number(tag[1]))} `;
+        break;
+      case 'ul': case 'ol':
+        if (cell !== null) break;
+        flush();
+        if (isClosing) lists.pop();
+        else lists.push({ ordered: tag === 'ol', next: 1 });
+        break;
+      case 'li': {
+        if (cell !== null) {
+          write(' ');
+          break;
+        }
+        flush();
+        const list = lists[lists.length - 1];
+        prefix = isClosing || !list ? '' :
+          '   '.repeat(lists.length - 1) + (list.ordered ? `${list.next++}. ` : '- ');
+        break;
+      }
+      case 'table':
+        if (isClosing && table) {
+          if (row?.length) table.push(row);
+          if (table.length) blocks.push({ text: tableToMarkdown(table), listItem: false });
+          table = row = cell = null;
+        } else if (!isClosing) {
+          flush();
+          table = [];
+        }
+        break;
+      case 'tr':
+        if (!table) break;
+        if (row?.length) table.push(row);
+        row = isClosing ? null : [];
+        break;
+      case 'td': case 'th':
+        if (!row) break;
+        if (isClosing && cell !== null) {
+          row.push(cell.replace(/\s+/g, ' ').trim());
+          cell = null;
+        } else if (!isClosing) {
+          cell = '';
+        }
+        break;
+      case 'pre':
+        if (isClosing || cell !== null) break;
+        flush();
+        pre = '';
+        break;
+      case 'br':
+        write(cell !== null ? ' ' : '\n');
+        break;
+      case 'strong': case 'b':
+        write('**');
+        break;
+      case 'em': case 'i':
+        write('_');
+        break;
+      case 'code':
+        write('`');
+        break;
+      default:
+        if (!BLOCK_TAGS.includes(tag)) break;
+        if (cell !== null) write(' ');
+        else flush();
+    }
+  }
+  flush();
+  
+  // List items stay on consecutive lines so each list reads as one block
+  return blocks
+    .map((block, i) => {
+      if (i === 0) return block.text;
+      return (block.listItem && blocks[i - 1].listItem ? '\n' : '\n\n') + block.text;
+    })
+    .join('');
+}
+
+// ================================================
+// PROCESSING QUEUE WORKER
+// ================================================
+// document-processor/src/worker.ts
+
+import { randomUUID } from 'crypto';
+import { ConvexHttpClient } from 'convex/browser';
+import { FunctionReturnType } from 'convex/server';
+import { ConvexError } from 'convex/values';
+import { api as controlPlaneApi } from '../../control-plane/convex/_generated/api';
+import { api } from '../../client-template/convex/_generated/api';
+import { Id } from '../../client-template/convex/_generated/dataModel';
+import {
+  collectFieldValues,
+  ENCRYPTED_FIELDS,
+  encryptValue,
+  importDataKey,
+  replaceFieldValues,
+} from '../../client-template/convex/lib/fieldEncryption';
+import { importBlindIndexKey, withEntityHashes } from '../../client-template/convex/lib/blindIndex';
+import { ConverterName, MAX_INLINE_MARKDOWN_LENGTH } from '../../client-template/convex/lib/documentStructure';
+import { errorCode } from '../../client-template/convex/lib/errors';
+import { getKms, KeyManagementService } from '../../api-gateway/src/kms';
+import { Converter, ConverterRoutes, converterRoutes, createConverters, selectConverters } from './converters';
+import { docetlExtractor, ExtractedEntity, Extractor, PermanentStageError } from './stages';
+
+const HEARTBEAT_MS = 60 * 1000; // Well inside the lease
+const IDLE_POLL_MS = 15 * 1000;
+const ITEMS_PER_TENANT_PASS = 5; // So one tenant's backlog cannot hold up the rest
+
+const ENTITY_ENCRYPTED_PATHS = ENCRYPTED_FIELDS.entities.map(path => `entities[].${path}`);
+
+export interface StageAdapters {
+  converters: Record<ConverterName, Converter>;
+  routes: ConverterRoutes;
+  docetl: Extractor;
+}
+
+// The hosted services and the local converter, configured through the
+// environment
+export function defaultStageAdapters(env: NodeJS.ProcessEnv = process.env): StageAdapters {
+  return {
+    converters: createConverters(env),
+    routes: converterRoutes(env),
+    docetl: docetlExtractor(env),
+  };
+}
+
+export interface WorkerOptions {
+  adapters?: StageAdapters;
+  kms?: KeyManagementService;
+  workerId?: string;
+}
+
+interface Lease {
+  secret: string;
+  queueId: Id<'processingQueue'>;
+  workerId: string;
+}
+
+type ClaimedItem = NonNullable<FunctionReturnType<typeof api.processingQueue.claim>>;
+
+// Hash names and identification values, then encrypt the identification
+// values with the tenant's keys before they leave the worker
+async function encryptEntities(
+  client: ConvexHttpClient,
+  secret: string,
+  kms: KeyManagementService,
+  entities: ExtractedEntity[]
+) {
+  if (!entities.length) return entities;
+  
+  const keys = await client.query(api.encryption.listDataKeys, { secret });
+  const active = keys.find(k => k.purpose === 'encryption' && k.status === 'active');
+  const blindIndex = keys.find(k => k.purpose === 'blind_index' && k.status === 'active');
+  if (!active || !blindIndex) throw new PermanentStageError('Encryption unavailable: no active data key');
+  
+  const args = {
+    entities: await withEntityHashes(await importBlindIndexKey(await kms.unwrapKey(blindIndex)), entities),
+  };
+  const values = collectFieldValues(args, ENTITY_ENCRYPTED_PATHS);
+  if (!values.length) return args.entities;
+  
+  const key = await importDataKey(await kms.unwrapKey(active));
+  const encrypted = await Promise.all(values.map(value => encryptValue(key, active.keyId, value)));
+  return replaceFieldValues(args, ENTITY_ENCRYPTED_PATHS, encrypted).entities;
+}
+
+async function downloadSource(url: string) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Source document download failed: ${response.status}`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Markdown too large for the ingestion record goes to file storage first;
+// it is still sent with the conversion, which chunks it
+async function uploadLargeMarkdown(client: ConvexHttpClient, lease: Lease, markdown: string) {
+  if (markdown.length < MAX_INLINE_MARKDOWN_LENGTH) return undefined;
+  
+  const uploadUrl = await client.mutation(api.processingQueue.generateMarkdownUploadUrl, lease);
+  const response = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/markdown' },
+    body: markdown,
+  });
+  if (!response.ok) throw new Error(`Converted markdown upload failed: ${response.status}`);
+  const { storageId } = await response.json();
+  return storageId as Id<'_storage'>;
+}
+
+async function loadMarkdown(item: { markdownContent?: string; markdownUrl?: string }) {
+  if (item.markdownContent !== undefined) return item.markdownContent;
+  if (!item.markdownUrl) return undefined;
+  
+  const response = await fetch(item.markdownUrl);
+  if (!response.ok) throw new Error(`Converted markdown download failed: ${response.status}`);
+  return await response.text();
+}
+
+// Run the stages an item still needs. The converters routed for the MIME
+// type are tried in order until one succeeds; work recorded on an earlier
+// attempt is not repeated.
+export async function processItem(
+  client: ConvexHttpClient,
+  item: ClaimedItem,
+  lease: Lease,
+  adapters: StageAdapters,
+  kms: KeyManagementService
+) {
+  let markdown = await loadMarkdown(item);
+  
+  if (markdown === undefined) {
+    const converters = selectConverters(item.source.mimeType, adapters.routes, item.processingConfig);
+    if (!converters.length) {
+      throw new PermanentStageError(`No converter enabled for ${item.source.mimeType}`);
+    }
+    
+    const source = {
+      bytes: await downloadSource(item.source.url),
+      filename: item.source.filename,
+      mimeType: item.source.mimeType,
+    };
+    
+    let lastError: unknown;
+    for (const stage of converters) {
+      try {
+        await client.mutation(api.processingQueue.updateStage, { ...lease, stage, status: 'processing' });
+        const result = await adapters.converters[stage].convert(source);
+        await client.mutation(api.processingQueue.recordConversion, {
+          ...lease,
+          ingestionId: item.ingestionId,
+          markdownContent: result.markdown,
+          markdownStorageId: await uploadLargeMarkdown(client, lease, result.markdown),
+          stage,
+          pageCount: result.pageCount,
+          pageMap: result.pageMap,
+          outline: result.outline,
+          tables: result.tables,
+        });
+        markdown = result.markdown;
+        break;
+      } catch (error) {
+        lastError = error;
+        await client.mutation(api.processingQueue.updateStage, {
+          ...lease,
+          stage,
+          status: 'failed',
+          error: errorMessage(error),
+        });
+      }
+    }
+    
+    if (markdown === undefined) throw lastError;
+  }
+  
+  if (item.stages.docetl?.status !== 'completed') {
+    await client.mutation(api.processingQueue.updateStage, { ...lease, stage: 'docetl', status: 'processing' });
+    const entities = await adapters.docetl.extract({
+      markdown,
+      templateId: item.processingConfig.templateId,
+      customConfig: item.processingConfig.customConfig,
+    });
+    await client.mutation(api.processingQueue.recordExtraction, {
+      ...lease,
+      entities: await encryptEntities(client, lease.secret, kms, entities),
+    });
+  }
+  
+  await client.mutation(api.processingQueue.complete, lease);
+}
+
+function errorMessage(error: unknown) {
+  if (error instanceof ConvexError) return String(error.data?.message ?? error.message);
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Process up to `maxItems` due items from one tenant's queue. Returns how
+// many items were attempted.
+export async function processTenantQueue(
+  projectUrl: string,
+  options: WorkerOptions = {},
+  maxItems = ITEMS_PER_TENANT_PASS
+) {
+  const secret = process.env.CONTROL_PLANE_SECRET!;
+  const client = new ConvexHttpClient(projectUrl);
+  const adapters = options.adapters || defaultStageAdapters();
+  const kms = options.kms || getKms();
+  const workerId = options.workerId || `worker-${randomUUID()}`;
+  
+  await client.mutation(api.processingQueue.reclaimExpired, { secret });
+  
+  let attempted = 0;
+  while (attempted < maxItems) {
+    const item = await client.mutation(api.processingQueue.claim, { secret, workerId });
+    if (!item) return attempted;
+    attempted++;
+    
+    const lease = { secret, queueId: item.queueId, workerId };
+    const heartbeat = setInterval(() => {
+      client.mutation(api.processingQueue.heartbeat, lease).catch(() => {
+        // Lease lost; the next write through it fails and ends the attempt
+      });
+    }, HEARTBEAT_MS);
+    
+    try {
+      await processItem(client, item, lease, adapters, kms);
+    } catch (error) {
+      const message = errorMessage(error);
+      if (errorCode(error) === 'lease_lost') {
+        console.warn(`  ⚠️  ${item.queueId}: ${message}`);
+        continue;
+      }
+      
+      const outcome = await client.mutation(api.processingQueue.fail, {
+        ...lease,
+        error: message,
+        retryable: !(error instanceof PermanentStageError),
+      }).catch(() => 'lease_lost');
+      console.error(`  ❌ ${item.queueId} (attempt ${item.attempt}) -> ${outcome}: ${message}`);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+  return attempted;
+}
+
+// Poll every live tenant until stopped, taking a few items from each in
+// turn. Several workers can run side by side; leases keep them off each
+// other's items. With `once`, stops when no tenant has anything due.
+export async function runWorker(options: WorkerOptions & { once?: boolean; signal?: AbortSignal } = {}) {
+  const controlPlane = new ConvexHttpClient(process.env.CONTROL_PLANE_URL!);
+  const workerOptions = {
+    ...options,
+    adapters: options.adapters || defaultStageAdapters(),
+    kms: options.kms || getKms(),
+    workerId: options.workerId || `worker-${randomUUID()}`,
+  };
+  
+  let pass = 0;
+  while (!options.signal?.aborted) {
+    const targets = await controlPlane.query(controlPlaneApi.migrations.listMigrationTargets, {
+      secret: process.env.CONTROL_PLANE_SECRET!,
+    });
+    let attempted = 0;
+    
+    // Each pass starts one tenant further on, so none is always served first
+    for (let i = 0; i < targets.length && !options.signal?.aborted; i++) {
+      const target = targets[(pass + i) % targets.length];
+      try {
+        attempted += await processTenantQueue(target.projectUrl, workerOptions);
+      } catch (error) {
+        console.error(`❌ Queue processing failed for ${target.domain}:`, error);
+      }
+    }
+    pass++;
+    
+    if (!attempted) {
+      if (options.once) return;
+      await new Promise(resolve => setTimeout(resolve, IDLE_POLL_MS));
+    }
+  }
+}
+
+// Usage: npx tsx document-processor/src/worker.ts [--once]
+if (require.main === module) {
+  const controller = new AbortController();
+  process.on('SIGTERM', () => controller.abort());
+  process.on('SIGINT', () => controller.abort());
+  
+  runWorker({ once: process.argv.includes('--once'), signal: controller.signal }).catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,1222 @@
+// ================================================
+// FIELD ENCRYPTION FORMAT
+// ================================================
+// client-template/convex/lib/fieldEncryption.ts
+
+// Envelope encryption for sensitive columns. Values are encrypted with a
+// per-tenant data key (AES-256-GCM); data keys are stored wrapped by a KMS
+// master key (see dataKeys in the schema and api-gateway/src/kms.ts).
+// Encryption and decryption happen in the gateway and the key rotation
+// script, which can reach the KMS. Tenant functions only ever see
+// ciphertext and refuse plaintext in encrypted fields.
+//
+// Shared with the gateway and scripts, so only Web Crypto is used here.
+
+import { codedError } from "./errors";
+
+export const CIPHERTEXT_PREFIX = "enc:v1";
+
+// Encrypted fields per table. Paths are dot separated; "[]" maps over an
+// array, so "a[].b" is the b of every element of a.
+export const ENCRYPTED_FIELDS = {
+  cases: ["clientName_encrypted", "opposingParty_encrypted"],
+  entities: ["attributes.personDetails.identification[].value"],
+  caseParties: ["name_encrypted", "aliases_encrypted[]"],
+  conflictChecks: ["subjects[].name_encrypted", "hits[].subjectName", "hits[].matchedName"],
+} as const;
+
+export type EncryptedTable = keyof typeof ENCRYPTED_FIELDS;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+// "enc:v1:<keyId>:<iv>:<data>"
+export function isCiphertext(value: unknown): value is string {
+  return typeof value === "string" &&
+    value.startsWith(`${CIPHERTEXT_PREFIX}:`) &&
+    value.split(":").length === 5;
+}
+
+export function ciphertextKeyId(ciphertext: string): string {
+  if (!isCiphertext(ciphertext)) throw new Error("Value is not ciphertext");
+  return ciphertext.split(":")[2];
+}
+
+export function generateDataKey(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(32));
+}
+
+export async function importDataKey(raw: Uint8Array): Promise<CryptoKey> {
+  return await crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+// The key ID is authenticated with the data, so a ciphertext cannot be
+// relabelled with another key
+export async function encryptValue(key: CryptoKey, keyId: string, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(keyId) },
+    key,
+    encoder.encode(plaintext)
+  );
+  
+  return [CIPHERTEXT_PREFIX, keyId, toBase64(iv), toBase64(new Uint8Array(data))].join(":");
+}
+
+export async function decryptValue(key: CryptoKey, ciphertext: string): Promise<string> {
+  const [, , keyId, iv, data] = ciphertext.split(":");
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv), additionalData: encoder.encode(keyId) },
+    key,
+    fromBase64(data)
+  );
+  
+  return decoder.decode(plaintext);
+}
+
+// Copy of value with every string at path replaced by fn(string). Missing
+// fields are left missing.
+function mapPath(value: any, segments: string[], fn: (value: string) => string): any {
+  if (value === undefined || value === null) return value;
+  if (segments.length === 0) return typeof value === "string" ? fn(value) : value;
+  
+  const [head, ...rest] = segments;
+  const overArray = head.endsWith("[]");
+  const name = overArray ? head.slice(0, -2) : head;
+  
+  const target = name ? value[name] : value;
+  if (target === undefined) return value;
+  
+  const mapped = !overArray ? mapPath(target, rest, fn) :
+    Array.isArray(target) ? target.map(item => mapPath(item, rest, fn)) :
+    target;
+  
+  return name ? { ...value, [name]: mapped } : mapped;
+}
+
+// Strings at the given paths, in path then document order
+export function collectFieldValues(value: any, paths: readonly string[]): string[] {
+  const values: string[] = [];
+  for (const path of paths) {
+    mapPath(value, path.split("."), (s) => {
+      values.push(s);
+      return s;
+    });
+  }
+  return values;
+}
+
+// Inverse of collectFieldValues: put values back in the same order
+export function replaceFieldValues<T>(value: T, paths: readonly string[], values: string[]): T {
+  let next: any = value;
+  let index = 0;
+  
+  for (const path of paths) {
+    next = mapPath(next, path.split("."), () => values[index++]);
+  }
+  if (index !== values.length) {
+    throw new Error(`Expected ${index} field values, got ${values.length}`);
+  }
+  return next;
+}
+
+// Patch for ctx.db.patch: the top-level fields touched by the paths
+export function fieldPatch(doc: any, paths: readonly string[], values: string[]) {
+  const next = replaceFieldValues(doc, paths, values);
+  const fields = new Set(paths.map(p => p.split(".")[0].replace(/\[\]$/, "")));
+  return Object.fromEntries([...fields].map(f => [f, next[f]]));
+}
+
+export function assertEncryptedFields(value: any, paths: readonly string[]) {
+  for (const path of paths) {
+    if (collectFieldValues(value, [path]).some(s => !isCiphertext(s))) {
+      throw codedError("invalid_argument", `Field ${path} must be encrypted`);
+    }
+  }
+}
+
+// ================================================
+// BLIND INDEXES
+// ================================================
+// client-template/convex/lib/blindIndex.ts
+
+import { v } from "convex/values";
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { normalizeName, soundex } from "./conflicts";
+import { isCiphertext, toBase64 } from "./fieldEncryption";
+
+// Encrypted names cannot be searched, so the gateway also sends keyed
+// hashes (HMAC-SHA256 with the tenant's blind index key) of the normalized
+// name, of each of its words and of each word's Soundex code. Lookups hash
+// the search terms the same way and match hashes, so the plaintext never
+// reaches the database.
+
+// opposingParty hashes were written by cases.update before parties moved to
+// caseParties; the field is kept so removeBlindIndexes clears them
+export const BLIND_INDEX_FIELDS = ["clientName", "opposingParty"] as const;
+
+// Party and entity names searched by conflict checks are hashed under one
+// field whatever their role, so a client on one matter matches an opposing
+// party on another. Lookups by party name use the same hashes.
+export const PARTY_NAME_FIELD = "partyName";
+
+export type BlindIndexField = typeof BLIND_INDEX_FIELDS[number] | typeof PARTY_NAME_FIELD;
+
+export const blindIndexValidator = v.object({
+  exact: v.string(), // Hash of the whole normalized name
+  tokens: v.array(v.string()), // Hash of each normalized word
+  phonetic: v.optional(v.array(v.string())), // Hash of each word's Soundex code; missing on older indexes
+});
+
+export interface BlindIndex {
+  exact: string;
+  tokens: string[];
+  phonetic?: string[];
+}
+
+// Truncated so hashes stay compact; 128 bits keeps collisions negligible
+const HASH_BYTES = 16;
+
+const MIN_TOKEN_LENGTH = 2;
+
+export async function importBlindIndexKey(raw: Uint8Array): Promise<CryptoKey> {
+  return await crypto.subtle.importKey("raw", raw, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+}
+
+// The field and kind are hashed in, so equal names in different fields
+// (or a one-word name and a token) never share a hash
+async function keyedHash(key: CryptoKey, field: BlindIndexField | "identification", kind: string, value: string) {
+  const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${field}:${kind}:${value}`));
+  return toBase64(new Uint8Array(mac).slice(0, HASH_BYTES));
+}
+
+export async function computeBlindIndex(key: CryptoKey, field: BlindIndexField, name: string): Promise<BlindIndex> {
+  const normalized = normalizeName(name);
+  const tokens = [...new Set(normalized.split(" ").filter(t => t.length >= MIN_TOKEN_LENGTH))];
+  const codes = [...new Set(tokens.map(soundex).filter((code): code is string => !!code))];
+  
+  return {
+    exact: await keyedHash(key, field, "exact", normalized),
+    tokens: await Promise.all(tokens.map(token => keyedHash(key, field, "token", token))),
+    phonetic: await Promise.all(codes.map(code => keyedHash(key, field, "phonetic", code))),
+  };
+}
+
+// Identification numbers of extracted people (SSN, driver's license,
+// passport) are encrypted too. Their hashes let entity resolution match
+// the same person across documents without decrypting.
+export async function computeIdentifierHash(key: CryptoKey, type: string, value: string) {
+  const normalized = value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return await keyedHash(key, "identification", type.toLowerCase(), normalized);
+}
+
+// Only people and organizations can be parties to a matter
+export const CONFLICT_ENTITY_TYPES = ["person", "organization"];
+
+export interface HashedEntity {
+  entityType: string;
+  name: string;
+  aliases?: string[];
+  attributes?: any;
+  identifierHashes?: string[];
+  nameIndexes?: BlindIndex[]; // Name, then each alias
+}
+
+// Hash identification values for entity resolution and names for conflict
+// checks. Must run while the identification values are still plaintext.
+export async function withEntityHashes<T extends HashedEntity>(key: CryptoKey, entities: T[]): Promise<T[]> {
+  return await Promise.all(entities.map(async (entity) => {
+    const hashes: Pick<HashedEntity, "identifierHashes" | "nameIndexes"> = {};
+    
+    if (CONFLICT_ENTITY_TYPES.includes(entity.entityType)) {
+      hashes.nameIndexes = await Promise.all(
+        [entity.name, ...(entity.aliases ?? [])].map(name => computeBlindIndex(key, PARTY_NAME_FIELD, name))
+      );
+    }
+    
+    const identification: { type: string; value: unknown }[] =
+      entity.attributes?.personDetails?.identification ?? [];
+    const plaintext = identification.filter(id => typeof id.value === "string" && !isCiphertext(id.value));
+    if (plaintext.length) {
+      const identifierHashes = await Promise.all(
+        plaintext.map(id => computeIdentifierHash(key, id.type, id.value as string))
+      );
+      hashes.identifierHashes = [...new Set(identifierHashes)];
+    }
+    return { ...entity, ...hashes };
+  }));
+}
+
+// Replace a case's hashes for one field (null clears them)
+export async function setBlindIndex(
+  ctx: MutationCtx,
+  caseId: Id<"cases">,
+  field: BlindIndexField,
+  index: BlindIndex | null
+) {
+  const existing = await ctx.db
+    .query("blindIndexEntries")
+    .withIndex("by_case", (q) => q.eq("caseId", caseId).eq("field", field))
+    .collect();
+  for (const entry of existing) {
+    await ctx.db.delete(entry._id);
+  }
+  
+  if (!index) return;
+  
+  await ctx.db.insert("blindIndexEntries", { caseId, field, kind: "exact", hash: index.exact });
+  for (const hash of index.tokens) {
+    await ctx.db.insert("blindIndexEntries", { caseId, field, kind: "token", hash });
+  }
+}
+
+export async function removeBlindIndexes(ctx: MutationCtx, caseId: Id<"cases">) {
+  for (const field of BLIND_INDEX_FIELDS) {
+    await setBlindIndex(ctx, caseId, field, null);
+  }
+}
+
+export type NameIndexOwner = { partyId: Id<"caseParties"> } | { entityId: Id<"entities"> };
+
+// A nameIndexEntries row
+export interface NameIndexEntry {
+  partyId?: Id<"caseParties">;
+  entityId?: Id<"entities">;
+  variant: number;
+  nameTokens: number;
+  kind: string; // "exact" | "token" | "phonetic"
+  hash: string;
+}
+
+// Rows holding the name hashes of a party or entity for conflict checks,
+// the name's first and then one set per alias
+export function nameIndexRows(owner: NameIndexOwner, indexes: BlindIndex[]): NameIndexEntry[] {
+  return indexes.flatMap((index, variant) => {
+    const entry = { ...owner, variant, nameTokens: index.tokens.length };
+    return [
+      { ...entry, kind: "exact", hash: index.exact },
+      ...index.tokens.map(hash => ({ ...entry, kind: "token", hash })),
+      ...(index.phonetic ?? []).map(hash => ({ ...entry, kind: "phonetic", hash })),
+    ];
+  });
+}
+
+export async function addNameIndexes(ctx: MutationCtx, owner: NameIndexOwner, indexes: BlindIndex[]) {
+  for (const entry of nameIndexRows(owner, indexes)) {
+    await ctx.db.insert("nameIndexEntries", entry);
+  }
+}
+
+export async function removePartyNameIndexes(ctx: MutationCtx, partyId: Id<"caseParties">) {
+  const entries = await ctx.db
+    .query("nameIndexEntries")
+    .withIndex("by_party", (q) => q.eq("partyId", partyId))
+    .collect();
+  for (const entry of entries) {
+    await ctx.db.delete(entry._id);
+  }
+}
+
+async function casesWithHash(ctx: QueryCtx, hash: string) {
+  const entries = await ctx.db
+    .query("blindIndexEntries")
+    .withIndex("by_hash", (q) => q.eq("hash", hash))
+    .collect();
+  return new Set(entries.map(e => e.caseId));
+}
+
+// Cases whose name matches exactly, or contains every word of the lookup
+export async function findCasesByBlindIndex(
+  ctx: QueryCtx,
+  index: BlindIndex,
+  match: "exact" | "tokens"
+): Promise<Set<Id<"cases">>> {
+  if (match === "exact") return await casesWithHash(ctx, index.exact);
+  if (index.tokens.length === 0) return new Set();
+  
+  let matches: Set<Id<"cases">> | null = null;
+  for (const hash of index.tokens) {
+    const cases = await casesWithHash(ctx, hash);
+    matches = matches ? new Set([...matches].filter(id => cases.has(id))) : cases;
+    if (matches.size === 0) break;
+  }
+  return matches!;
+}
+
+async function namesWithHash(ctx: QueryCtx, hash: string) {
+  const entries = await ctx.db
+    .query("nameIndexEntries")
+    .withIndex("by_hash", (q) => q.eq("hash", hash))
+    .collect();
+  return new Set(entries.filter(e => e.partyId).map(e => `${e.partyId}:${e.variant}`));
+}
+
+// Cases with a party in the given role whose name or an alias matches
+// exactly, or contains every word of the lookup. The index must be hashed
+// under PARTY_NAME_FIELD.
+export async function findCasesByPartyName(
+  ctx: QueryCtx,
+  index: BlindIndex,
+  role: string,
+  match: "exact" | "tokens"
+): Promise<Set<Id<"cases">>> {
+  if (match === "tokens" && index.tokens.length === 0) return new Set();
+  
+  let names: Set<string> | null = null;
+  for (const hash of match === "exact" ? [index.exact] : index.tokens) {
+    const found = await namesWithHash(ctx, hash);
+    names = names ? new Set([...names].filter(name => found.has(name))) : found;
+    if (names.size === 0) break;
+  }
+  
+  const caseIds = new Set<Id<"cases">>();
+  for (const partyId of new Set([...names!].map(name => name.split(":")[0]))) {
+    const party = await ctx.db.get(partyId as Id<"caseParties">);
+    if (party?.role === role) caseIds.add(party.caseId);
+  }
+  return caseIds;
+}
+
+// ================================================
+// CONTROL PLANE SECRET
+// ================================================
+// client-template/convex/lib/secrets.ts
+
+// Scripts, the document processor and the control plane authenticate to
+// tenant projects with the CONTROL_PLANE_SECRET seeded at provisioning time.
+
+// Compares every byte instead of stopping at the first difference, so the
+// time taken does not reveal how much of a guess was right
+export function timingSafeEqual(a: string, b: string) {
+  const x = new TextEncoder().encode(a);
+  const y = new TextEncoder().encode(b);
+  
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    diff |= (x[i] ?? 0) ^ (y[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+export function isControlPlaneSecret(secret: string | undefined) {
+  const expected = process.env.CONTROL_PLANE_SECRET;
+  return !!expected && secret !== undefined && timingSafeEqual(secret, expected);
+}
+
+export function assertControlPlaneSecret(secret: string | undefined) {
+  if (!isControlPlaneSecret(secret)) throw new Error("Unauthorized");
+}
+
+// ================================================
+// TENANT DATA KEYS
+// ================================================
+// client-template/convex/encryption.ts
+
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { wrapApi } from "./lib/apiWrapper";
+import { codedError } from "./lib/errors";
+import { assertControlPlaneSecret } from "./lib/secrets";
+import {
+  ciphertextKeyId,
+  collectFieldValues,
+  ENCRYPTED_FIELDS,
+  EncryptedTable,
+  fieldPatch,
+  isCiphertext,
+} from "./lib/fieldEncryption";
+
+const wrappedKeyValidator = v.object({
+  keyId: v.string(),
+  wrappedKey: v.string(),
+  masterKeyId: v.string(),
+});
+
+function assertEncryptedTable(table: string): asserts table is EncryptedTable {
+  if (!(table in ENCRYPTED_FIELDS)) throw codedError("invalid_argument", `Unknown encrypted table: ${table}`);
+}
+
+async function getActiveKey(ctx: QueryCtx, purpose = "encryption") {
+  return await ctx.db
+    .query("dataKeys")
+    .withIndex("by_purpose_status", (q) => q.eq("purpose", purpose).eq("status", "active"))
+    .first();
+}
+
+// Key that new values are encrypted with. A wrapped key is useless without
+// the KMS, so any signed-in user may fetch it.
+export const getActiveDataKey = query({
+  args: {},
+  returns: v.union(wrappedKeyValidator, v.null()),
+  handler: wrapApi(
+    { requireAuth: true },
+    async (ctx, context, args) => {
+      const key = await getActiveKey(ctx);
+      if (!key) return null;
+      
+      return { keyId: key.keyId, wrappedKey: key.wrappedKey, masterKeyId: key.masterKeyId };
+    }
+  ),
+});
+
+// Key the gateway hashes names with for blind index writes and lookups
+export const getBlindIndexKey = query({
+  args: {},
+  returns: v.union(wrappedKeyValidator, v.null()),
+  handler: wrapApi(
+    { requireAuth: true },
+    async (ctx, context, args) => {
+      const key = await getActiveKey(ctx, "blind_index");
+      if (!key) return null;
+      
+      return { keyId: key.keyId, wrappedKey: key.wrappedKey, masterKeyId: key.masterKeyId };
+    }
+  ),
+});
+
+// Release the keys needed to decrypt a response. This is the permission
+// gate for reading encrypted fields, and every release is audited.
+export const authorizeDecrypt = mutation({
+  args: {
+    keyIds: v.array(v.string()),
+    resource: v.string(), // Route or function the values were read from
+  },
+  returns: v.array(wrappedKeyValidator),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "pii.decrypted",
+      rateLimit: "read",
+      requires: ["pii.decrypt"],
+    },
+    async (ctx, context, args) => {
+      const keys = [];
+      
+      for (const keyId of new Set(args.keyIds)) {
+        const key = await ctx.db
+          .query("dataKeys")
+          .withIndex("by_key_id", (q) => q.eq("keyId", keyId))
+          .first();
+        if (!key) throw codedError("not_found", `Data key not found: ${keyId}`);
+        
+        keys.push({ keyId: key.keyId, wrappedKey: key.wrappedKey, masterKeyId: key.masterKeyId });
+      }
+      
+      context.audit = {
+        resourceType: "encryption",
+        resourceId: args.resource,
+        metadata: { keyIds: args.keyIds },
+      };
+      return keys;
+    }
+  ),
+});
+
+// Activate a new data key; the previous one is retired but kept for
+// decryption until the rotation job has re-encrypted its values
+export const registerDataKey = mutation({
+  args: {
+    secret: v.string(),
+    wrappedKey: v.string(),
+    masterKeyId: v.string(),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const latest = await ctx.db
+      .query("dataKeys")
+      .withIndex("by_purpose_version", (q) => q.eq("purpose", "encryption"))
+      .order("desc")
+      .first();
+    const version = (latest?.version ?? 0) + 1;
+    const keyId = `dk${version}`;
+    
+    const active = await getActiveKey(ctx);
+    if (active) {
+      await ctx.db.patch(active._id, { status: "retired", retiredAt: Date.now() });
+    }
+    
+    await ctx.db.insert("dataKeys", {
+      keyId,
+      purpose: "encryption",
+      version,
+      wrappedKey: args.wrappedKey,
+      masterKeyId: args.masterKeyId,
+      status: "active",
+      createdAt: Date.now(),
+    });
+    
+    await ctx.db.insert("auditLogs", {
+      action: "encryption.key_activated",
+      resourceType: "encryption",
+      resourceId: keyId,
+      metadata: { masterKeyId: args.masterKeyId, retiredKeyId: active?.keyId },
+      ipAddress: "internal",
+      userAgent: "key-rotation",
+      createdAt: Date.now(),
+    });
+    
+    return keyId;
+  },
+});
+
+// Set the tenant's blind index key. Only done once: replacing it would
+// invalidate every stored hash.
+export const registerBlindIndexKey = mutation({
+  args: {
+    secret: v.string(),
+    wrappedKey: v.string(),
+    masterKeyId: v.string(),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const existing = await getActiveKey(ctx, "blind_index");
+    if (existing) return existing.keyId;
+    
+    const keyId = "bi1";
+    await ctx.db.insert("dataKeys", {
+      keyId,
+      purpose: "blind_index",
+      version: 1,
+      wrappedKey: args.wrappedKey,
+      masterKeyId: args.masterKeyId,
+      status: "active",
+      createdAt: Date.now(),
+    });
+    
+    await ctx.db.insert("auditLogs", {
+      action: "encryption.key_activated",
+      resourceType: "encryption",
+      resourceId: keyId,
+      metadata: { masterKeyId: args.masterKeyId, purpose: "blind_index" },
+      ipAddress: "internal",
+      userAgent: "key-rotation",
+      createdAt: Date.now(),
+    });
+    
+    return keyId;
+  },
+});
+
+export const listDataKeys = query({
+  args: {
+    secret: v.string(),
+  },
+  returns: v.array(v.object({
+    keyId: v.string(),
+    purpose: v.string(),
+    wrappedKey: v.string(),
+    masterKeyId: v.string(),
+    status: v.string(),
+  })),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const keys = await ctx.db.query("dataKeys").collect();
+    return keys.map(k => ({
+      keyId: k.keyId,
+      purpose: k.purpose,
+      wrappedKey: k.wrappedKey,
+      masterKeyId: k.masterKeyId,
+      status: k.status,
+    }));
+  },
+});
+
+// Store a data key re-wrapped under a new master key
+export const rewrapDataKey = mutation({
+  args: {
+    secret: v.string(),
+    keyId: v.string(),
+    wrappedKey: v.string(),
+    masterKeyId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    const key = await ctx.db
+      .query("dataKeys")
+      .withIndex("by_key_id", (q) => q.eq("keyId", args.keyId))
+      .first();
+    if (!key) throw codedError("not_found", `Data key not found: ${args.keyId}`);
+    
+    await ctx.db.patch(key._id, { wrappedKey: args.wrappedKey, masterKeyId: args.masterKeyId });
+    
+    await ctx.db.insert("auditLogs", {
+      action: "encryption.key_rewrapped",
+      resourceType: "encryption",
+      resourceId: args.keyId,
+      metadata: { from: key.masterKeyId, to: args.masterKeyId },
+      ipAddress: "internal",
+      userAgent: "key-rotation",
+      createdAt: Date.now(),
+    });
+    
+    return null;
+  },
+});
+
+// One page of rows with values encrypted under a retired key, or not yet
+// encrypted at all (rows written before field encryption existed)
+export const listStaleCiphertexts = query({
+  args: {
+    secret: v.string(),
+    table: v.string(), // See ENCRYPTED_FIELDS
+    cursor: v.union(v.string(), v.null()),
+    batchSize: v.number(),
+  },
+  returns: v.object({
+    activeKeyId: v.union(v.string(), v.null()),
+    rows: v.array(v.object({
+      id: v.string(),
+      values: v.array(v.string()), // Every encrypted value in the row, in collectFieldValues order
+    })),
+    continueCursor: v.string(),
+    isDone: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    assertEncryptedTable(args.table);
+    
+    const active = await getActiveKey(ctx);
+    const paths = ENCRYPTED_FIELDS[args.table];
+    
+    const page = await ctx.db
+      .query(args.table)
+      .paginate({ cursor: args.cursor, numItems: args.batchSize });
+    
+    const rows = [];
+    for (const doc of page.page) {
+      const values = collectFieldValues(doc, paths);
+      if (values.some(value => !isCiphertext(value) || ciphertextKeyId(value) !== active?.keyId)) {
+        rows.push({ id: doc._id as string, values });
+      }
+    }
+    
+    return {
+      activeKeyId: active?.keyId ?? null,
+      rows,
+      continueCursor: page.continueCursor,
+      isDone: page.isDone,
+    };
+  },
+});
+
+// Write re-encrypted values. Rows whose values changed since they were read
+// are skipped and picked up by the next run.
+export const applyReencryption = mutation({
+  args: {
+    secret: v.string(),
+    table: v.string(),
+    updates: v.array(v.object({
+      id: v.string(),
+      from: v.array(v.string()),
+      to: v.array(v.string()),
+    })),
+  },
+  returns: v.object({
+    updated: v.number(),
+    skipped: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    assertEncryptedTable(args.table);
+    
+    const paths = ENCRYPTED_FIELDS[args.table];
+    let updated = 0;
+    let skipped = 0;
+    
+    for (const update of args.updates) {
+      const id = ctx.db.normalizeId(args.table, update.id);
+      const doc = id ? await ctx.db.get(id) : null;
+      const current = doc ? collectFieldValues(doc, paths) : [];
+      
+      if (!doc || current.join("\n") !== update.from.join("\n")) {
+        skipped++;
+        continue;
+      }
+      
+      await ctx.db.patch(id!, fieldPatch(doc, paths, update.to));
+      updated++;
+    }
+    
+    return { updated, skipped };
+  },
+});
+
+// ================================================
+// LOCAL KEY MANAGEMENT SERVICE
+// ================================================
+// api-gateway/src/kms.ts
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { fromBase64, toBase64 } from '../../client-template/convex/lib/fieldEncryption';
+
+export interface WrappedKey {
+  masterKeyId: string;
+  wrappedKey: string;
+}
+
+// Master keys never leave the KMS; callers only wrap and unwrap data keys
+export interface KeyManagementService {
+  activeKeyId(): Promise<string>;
+  wrapKey(dataKey: Uint8Array): Promise<WrappedKey>;
+  unwrapKey(wrapped: WrappedKey): Promise<Uint8Array>;
+  rotateMasterKey(): Promise<string>; // Returns the new active master key ID
+}
+
+interface Keyring {
+  activeKeyId: string;
+  keys: Record<string, string>; // Master key ID -> base64 AES-256 key
+}
+
+// Stand-in for a cloud KMS: master keys kept in a JSON keyring on local
+// disk. Created with a fresh key on first use. Only for development and
+// single-host installs; the file must be readable by the gateway and the
+// key rotation script.
+export class LocalFileKms implements KeyManagementService {
+  constructor(private path: string) {}
+  
+  private load(): Keyring {
+    if (!existsSync(this.path)) {
+      const keyring = { activeKeyId: 'mk1', keys: { mk1: this.newMasterKey() } };
+      this.save(keyring);
+      return keyring;
+    }
+    return JSON.parse(readFileSync(this.path, 'utf8'));
+  }
+  
+  private save(keyring: Keyring) {
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(keyring, null, 2), { mode: 0o600 });
+  }
+  
+  private newMasterKey() {
+    return toBase64(crypto.getRandomValues(new Uint8Array(32)));
+  }
+  
+  private async masterKey(keyring: Keyring, masterKeyId: string) {
+    const raw = keyring.keys[masterKeyId];
+    if (!raw) throw new Error(`Unknown master key: ${masterKeyId}`);
+    return await crypto.subtle.importKey('raw', fromBase64(raw), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+  
+  async activeKeyId() {
+    return this.load().activeKeyId;
+  }
+  
+  async wrapKey(dataKey: Uint8Array): Promise<WrappedKey> {
+    const keyring = this.load();
+    const masterKeyId = keyring.activeKeyId;
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    
+    const wrapped = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(masterKeyId) },
+      await this.masterKey(keyring, masterKeyId),
+      dataKey
+    );
+    
+    return { masterKeyId, wrappedKey: `${toBase64(iv)}:${toBase64(new Uint8Array(wrapped))}` };
+  }
+  
+  async unwrapKey({ masterKeyId, wrappedKey }: WrappedKey): Promise<Uint8Array> {
+    const [iv, data] = wrappedKey.split(':');
+    
+    const dataKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(masterKeyId) },
+      await this.masterKey(this.load(), masterKeyId),
+      fromBase64(data)
+    );
+    
+    return new Uint8Array(dataKey);
+  }
+  
+  // Old master keys stay in the keyring so existing wrapped keys still open
+  async rotateMasterKey() {
+    const keyring = this.load();
+    const version = Object.keys(keyring.keys).length + 1;
+    const masterKeyId = `mk${version}`;
+    
+    keyring.keys[masterKeyId] = this.newMasterKey();
+    keyring.activeKeyId = masterKeyId;
+    this.save(keyring);
+    
+    return masterKeyId;
+  }
+}
+
+let kms: KeyManagementService | null = null;
+
+export function getKms(): KeyManagementService {
+  if (!kms) {
+    const provider = process.env.KMS_PROVIDER || 'local';
+    if (provider !== 'local') throw new Error(`Unsupported KMS_PROVIDER: ${provider}`);
+    
+    kms = new LocalFileKms(process.env.LOCAL_KMS_KEYRING || '.kms/keyring.json');
+  }
+  return kms;
+}
+
+// ================================================
+// GATEWAY FIELD ENCRYPTION
+// ================================================
+// api-gateway/src/fieldEncryption.ts
+
+import { Request } from 'express';
+import { api } from '../../client-template/convex/_generated/api';
+import {
+  ciphertextKeyId,
+  collectFieldValues,
+  decryptValue,
+  encryptValue,
+  importDataKey,
+  isCiphertext,
+  replaceFieldValues,
+} from '../../client-template/convex/lib/fieldEncryption';
+import {
+  BlindIndex,
+  BlindIndexField,
+  computeBlindIndex,
+  importBlindIndexKey,
+  withEntityHashes,
+} from '../../client-template/convex/lib/blindIndex';
+import { getKms, WrappedKey } from './kms';
+
+// Blind index of the plaintext argument `from`, sent as argument `to`. When
+// they are the same argument (lookups) the plaintext is replaced. Both are
+// paths in the format of lib/fieldEncryption.ts that differ only in their
+// last segment; a `from` ending in "[]" gives an array of indexes.
+export interface BlindIndexSpec {
+  from: string;
+  to: string;
+  field: BlindIndexField;
+}
+
+// Raised before the request reaches the tenant, so the gateway maps it itself
+export class EncryptionUnavailableError extends Error {}
+
+const DATA_KEY_TTL_MS = 5 * 60 * 1000; // Unwrapped keys are held briefly in memory only
+
+// Keyed by project URL and key ID
+const dataKeys = new Map<string, { key: CryptoKey; expiresAt: number }>();
+
+async function unwrapDataKey(
+  projectUrl: string,
+  wrapped: WrappedKey & { keyId: string },
+  importKey: (raw: Uint8Array) => Promise<CryptoKey> = importDataKey
+) {
+  const cacheKey = `${projectUrl}|${wrapped.keyId}`;
+  const cached = dataKeys.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.key;
+  
+  const key = await importKey(await getKms().unwrapKey(wrapped));
+  dataKeys.set(cacheKey, { key, expiresAt: Date.now() + DATA_KEY_TTL_MS });
+  return key;
+}
+
+// Encrypt plaintext arguments with the tenant's active data key
+export async function encryptFields<T>(req: Request, paths: string[], args: T): Promise<T> {
+  const values = collectFieldValues(args, paths);
+  if (!values.length) return args;
+  
+  const active = await req.convexClient.query(api.encryption.getActiveDataKey, {});
+  if (!active) throw new EncryptionUnavailableError('Encryption unavailable: no active data key');
+  
+  const key = await unwrapDataKey(req.organization.projectUrl, active);
+  const encrypted = await Promise.all(values.map(value => encryptValue(key, active.keyId, value)));
+  
+  return replaceFieldValues(args, paths, encrypted);
+}
+
+async function blindIndexKey(req: Request) {
+  const wrapped = await req.convexClient.query(api.encryption.getBlindIndexKey, {});
+  if (!wrapped) throw new EncryptionUnavailableError('Encryption unavailable: no blind index key');
+  
+  return await unwrapDataKey(req.organization.projectUrl, wrapped, importBlindIndexKey);
+}
+
+// Copy of value with the index of every name at `from` set at `to`
+async function indexAt(
+  value: any,
+  parents: string[],
+  from: string,
+  to: string,
+  index: (name: string) => Promise<BlindIndex>
+): Promise<any> {
+  if (value === undefined || value === null) return value;
+  
+  if (parents.length) {
+    const [head, ...rest] = parents;
+    const overArray = head.endsWith('[]');
+    const name = overArray ? head.slice(0, -2) : head;
+    
+    const target = name ? value[name] : value;
+    if (target === undefined) return value;
+    
+    const mapped = !overArray ? await indexAt(target, rest, from, to, index) :
+      Array.isArray(target) ? await Promise.all(target.map(item => indexAt(item, rest, from, to, index))) :
+      target;
+    return name ? { ...value, [name]: mapped } : mapped;
+  }
+  
+  const names = from.endsWith('[]') ? value[from.slice(0, -2)] : value[from];
+  if (typeof names === 'string') return { ...value, [to]: await index(names) };
+  if (Array.isArray(names) && names.every(name => typeof name === 'string')) {
+    return { ...value, [to]: await Promise.all(names.map(index)) };
+  }
+  return value;
+}
+
+// Must run before encryptFields, while the arguments are still plaintext
+export async function addBlindIndexes(
+  req: Request,
+  specs: BlindIndexSpec[],
+  args: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const present = specs.filter(spec => collectFieldValues(args, [spec.from]).length);
+  if (!present.length) return args;
+  
+  const key = await blindIndexKey(req);
+  let next = args;
+  for (const spec of present) {
+    const from = spec.from.split('.');
+    const to = spec.to.split('.');
+    next = await indexAt(next, from.slice(0, -1), from[from.length - 1], to[to.length - 1],
+      name => computeBlindIndex(key, spec.field, name));
+  }
+  return next;
+}
+
+// Hash the identification values and names of the extracted entities in
+// argument `from`. Like addBlindIndexes, this must run before encryptFields.
+// The tenant only accepts the hashes with the control plane secret, which
+// callers never hold, so they cannot send hashes of their own.
+export async function addEntityHashes(
+  req: Request,
+  from: string,
+  args: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  if (!Array.isArray(args[from])) return args;
+  
+  const key = await blindIndexKey(req);
+  return {
+    ...args,
+    [from]: await withEntityHashes(key, args[from] as any[]),
+    secret: process.env.CONTROL_PLANE_SECRET!,
+  };
+}
+
+// Decrypt fields of a result. The tenant only releases the keys to callers
+// with pii.decrypt, so this throws "Permission denied" for everyone else.
+export async function revealFields<T>(req: Request, paths: string[], result: T, resource: string): Promise<T> {
+  const values = collectFieldValues(result, paths);
+  const keyIds = [...new Set(values.filter(isCiphertext).map(ciphertextKeyId))];
+  if (!keyIds.length) return result;
+  
+  const wrapped = await req.convexClient.mutation(api.encryption.authorizeDecrypt, { keyIds, resource });
+  const keys = new Map<string, CryptoKey>();
+  for (const key of wrapped) {
+    keys.set(key.keyId, await unwrapDataKey(req.organization.projectUrl, key));
+  }
+  
+  const plaintext = await Promise.all(values.map(value =>
+    isCiphertext(value) ? decryptValue(keys.get(ciphertextKeyId(value))!, value) : value
+  ));
+  return replaceFieldValues(result, paths, plaintext);
+}
+
+// ================================================
+// DATA KEY PROVISIONING AND ROTATION
+// ================================================
+// scripts/rotate-keys.ts
+
+import { ConvexHttpClient } from 'convex/browser';
+import { api as controlPlaneApi } from '../control-plane/convex/_generated/api';
+import { api } from '../client-template/convex/_generated/api';
+import {
+  ciphertextKeyId,
+  decryptValue,
+  ENCRYPTED_FIELDS,
+  EncryptedTable,
+  encryptValue,
+  generateDataKey,
+  importDataKey,
+  isCiphertext,
+} from '../client-template/convex/lib/fieldEncryption';
+import { getKms, KeyManagementService } from '../api-gateway/src/kms';
+
+const REENCRYPT_BATCH_SIZE = 100;
+
+export interface RotationOptions {
+  kms?: KeyManagementService;
+  rotateMaster?: boolean; // Re-wrap every data key under a new master key first
+  reencryptOnly?: boolean; // Finish an interrupted run without a new data key
+}
+
+async function registerNewDataKey(client: ConvexHttpClient, kms: KeyManagementService) {
+  const wrapped = await kms.wrapKey(generateDataKey());
+  return await client.mutation(api.encryption.registerDataKey, {
+    secret: process.env.CONTROL_PLANE_SECRET!,
+    ...wrapped,
+  });
+}
+
+// Give a freshly provisioned project its first data key and its blind
+// index key (safe to re-run)
+export async function ensureDataKey(projectUrl: string, kms = getKms()) {
+  const secret = process.env.CONTROL_PLANE_SECRET!;
+  const client = new ConvexHttpClient(projectUrl);
+  const keys = await client.query(api.encryption.listDataKeys, { secret });
+  
+  if (!keys.some(k => k.purpose === 'encryption' && k.status === 'active')) {
+    await registerNewDataKey(client, kms);
+  }
+  if (!keys.some(k => k.purpose === 'blind_index')) {
+    await client.mutation(api.encryption.registerBlindIndexKey, {
+      secret,
+      ...(await kms.wrapKey(generateDataKey())),
+    });
+  }
+}
+
+// A value under a key the tenant no longer lists cannot be re-encrypted;
+// stop rather than skip it and leave it behind on a retired key
+function dataKey(keys: Map<string, CryptoKey>, keyId: string) {
+  const key = keys.get(keyId);
+  if (!key) throw new Error(`Data key not found: ${keyId}`);
+  return key;
+}
+
+// Rotate one tenant: activate a new data key, re-wrap data keys held under
+// an old master key, then re-encrypt every value still on a retired key
+export async function rotateTenantKeys(projectUrl: string, options: RotationOptions = {}) {
+  const kms = options.kms || getKms();
+  const secret = process.env.CONTROL_PLANE_SECRET!;
+  const client = new ConvexHttpClient(projectUrl);
+  
+  if (options.rotateMaster) {
+    await kms.rotateMasterKey();
+  }
+  // Projects provisioned before blind indexes have no index key yet
+  await ensureDataKey(projectUrl, kms);
+  if (!options.reencryptOnly) {
+    await registerNewDataKey(client, kms);
+  }
+  
+  const masterKeyId = await kms.activeKeyId();
+  const keys = new Map<string, CryptoKey>();
+  
+  for (const dataKey of await client.query(api.encryption.listDataKeys, { secret })) {
+    const raw = await kms.unwrapKey(dataKey);
+    if (dataKey.purpose === 'encryption') {
+      keys.set(dataKey.keyId, await importDataKey(raw));
+    }
+    
+    if (dataKey.masterKeyId !== masterKeyId) {
+      await client.mutation(api.encryption.rewrapDataKey, {
+        secret,
+        keyId: dataKey.keyId,
+        ...(await kms.wrapKey(raw)),
+      });
+    }
+  }
+  
+  const totals = { updated: 0, skipped: 0 };
+  
+  for (const table of Object.keys(ENCRYPTED_FIELDS) as EncryptedTable[]) {
+    let cursor: string | null = null;
+    
+    while (true) {
+      const page = await client.query(api.encryption.listStaleCiphertexts, {
+        secret,
+        table,
+        cursor,
+        batchSize: REENCRYPT_BATCH_SIZE,
+      });
+      
+      const activeKeyId = page.activeKeyId;
+      if (!activeKeyId) throw new Error('No active data key');
+      const activeKey = dataKey(keys, activeKeyId);
+      
+      const updates = [];
+      for (const row of page.rows) {
+        const to = await Promise.all(row.values.map(async value => {
+          if (!isCiphertext(value)) {
+            return await encryptValue(activeKey, activeKeyId, value);
+          }
+          
+          const keyId = ciphertextKeyId(value);
+          if (keyId === activeKeyId) return value;
+          
+          const plaintext = await decryptValue(dataKey(keys, keyId), value);
+          return await encryptValue(activeKey, activeKeyId, plaintext);
+        }));
+        updates.push({ id: row.id, from: row.values, to });
+      }
+      
+      if (updates.length) {
+        const result = await client.mutation(api.encryption.applyReencryption, { secret, table, updates });
+        totals.updated += result.updated;
+        totals.skipped += result.skipped;
+      }
+      
+      if (page.isDone) break;
+      cursor = page.continueCursor;
+    }
+  }
+  
+  return totals;
+}
+
+// Rotate every live tenant, or only the given domains
+export async function rotateFleetKeys(domains: string[] = [], options: RotationOptions = {}) {
+  const controlPlane = new ConvexHttpClient(process.env.CONTROL_PLANE_URL!);
+  const targets = await controlPlane.query(controlPlaneApi.migrations.listMigrationTargets, {
+    secret: process.env.CONTROL_PLANE_SECRET!,
+  });
+  
+  // The master key is shared by the fleet, so it is rotated once up front
+  if (options.rotateMaster) {
+    await (options.kms || getKms()).rotateMasterKey();
+  }
+  
+  for (const target of targets) {
+    if (domains.length && !domains.includes(target.domain)) continue;
+    
+    try {
+      const totals = await rotateTenantKeys(target.projectUrl, { ...options, rotateMaster: false });
+      console.log(`  ✓ ${target.domain}: ${totals.updated} rows re-encrypted, ${totals.skipped} skipped`);
+    } catch (error) {
+      console.error(`❌ Key rotation failed for ${target.domain}:`, error);
+    }
+  }
+}
+
+// Usage: npx tsx scripts/rotate-keys.ts [--master] [--reencrypt-only] [domain...]
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  
+  rotateFleetKeys(args.filter(a => !a.startsWith('--')), {
+    rotateMaster: args.includes('--master'),
+    reencryptOnly: args.includes('--reencrypt-only'),
+  }).catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
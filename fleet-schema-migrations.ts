@@ -0,0 +1,591 @@
+// ================================================
+// CLIENT SCHEMA MIGRATION REGISTRY
+// ================================================
+// client-template/convex/migrations/registry.ts
+
+import { MutationCtx } from "../_generated/server";
+import { TableNames } from "../_generated/dataModel";
+import { countSecurityEvent } from "../security/threatDetection";
+import { updateBountyTotals } from "../security/bugBounty";
+import { moveLegacyLocations } from "../lib/entityMentions";
+
+// A data transform for one table. Returns the patch to apply to a document,
+// or null when the document is already in the target shape.
+export interface TableTransform {
+  table: TableNames;
+  up: (doc: any) => Record<string, unknown> | null;
+  down: (doc: any) => Record<string, unknown> | null;
+  // Writes to other tables that go with each patch, such as adding the
+  // document to a running total. Runs in the same batch as the patch.
+  onPatch?: (ctx: MutationCtx, doc: any, direction: "up" | "down") => Promise<void>;
+}
+
+export interface Migration {
+  version: number; // Version the schema is at once this migration is applied
+  name: string;
+  transforms: TableTransform[];
+}
+
+// Version 1 is the core schema (core-convex-architecture.ts).
+// Migrations must stay ordered and contiguous.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    name: "future-ready-foundations",
+    transforms: [
+      {
+        table: "cases",
+        up: (c) => c.searchableText !== undefined ? null :
+          { searchableText: `${c.caseNumber} ${c.title}` },
+        down: (c) => c.searchableText === undefined ? null :
+          { searchableText: undefined, computedData: undefined },
+      },
+      {
+        table: "documents",
+        up: (d) => d.version !== undefined ? null : { version: 1 },
+        down: (d) => d.version === undefined ? null :
+          { version: undefined, processingStatus: undefined, processedData: undefined },
+      },
+    ],
+  },
+  {
+    version: 3,
+    name: "document-processing-pipeline",
+    transforms: [
+      {
+        table: "cases",
+        up: (c) => c.primaryEntities !== undefined ? null :
+          { primaryEntities: { victimIds: [], defendantIds: [], witnessIds: [] } },
+        down: (c) => c.primaryEntities === undefined ? null :
+          { primaryEntities: undefined, extractedDates: undefined, primaryLocationId: undefined },
+      },
+    ],
+  },
+  {
+    version: 4,
+    name: "case-versions",
+    transforms: [
+      {
+        table: "cases",
+        up: (c) => c.version !== undefined ? null : { version: 1 },
+        down: (c) => c.version === undefined ? null : { version: undefined },
+      },
+    ],
+  },
+  {
+    version: 5,
+    name: "security-counters",
+    transforms: [
+      {
+        table: "securityEvents",
+        up: (e) => e.counted ? null : { counted: true },
+        down: (e) => e.counted ? { counted: undefined } : null,
+        onPatch: (ctx, e, direction) =>
+          countSecurityEvent(ctx, e.severity, e.createdAt, direction === "up" ? 1 : -1),
+      },
+      {
+        table: "bugReports",
+        up: (r) => r.totaled ? null : { totaled: true },
+        down: (r) => r.totaled ? { totaled: undefined } : null,
+        onPatch: (ctx, r, direction) =>
+          direction === "up" ? updateBountyTotals(ctx, null, r) : updateBountyTotals(ctx, r, null),
+      },
+    ],
+  },
+  {
+    version: 6,
+    name: "entity-mentions",
+    transforms: [
+      {
+        // Version 5 reads entityMentions as well, so the mentions stay put
+        // on the way down
+        table: "entities",
+        up: (e) => e.locations === undefined ? null : { locations: undefined },
+        down: () => null,
+        onPatch: (ctx, e) => moveLegacyLocations(ctx, e),
+      },
+    ],
+  },
+];
+
+export const BASELINE_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+MIGRATIONS.forEach((m, i) => {
+  if (m.version !== BASELINE_SCHEMA_VERSION + i + 1) {
+    throw new Error(`Migration ${m.name} is out of order (version ${m.version})`);
+  }
+});
+
+// Ordered migration steps to move a tenant from one version to another
+export function planMigrations(fromVersion: number, toVersion: number) {
+  if (toVersion < BASELINE_SCHEMA_VERSION || toVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Unknown schema version: ${toVersion}`);
+  }
+  
+  if (toVersion >= fromVersion) {
+    return MIGRATIONS
+      .filter(m => m.version > fromVersion && m.version <= toVersion)
+      .map(m => ({ migration: m, direction: "up" as const }));
+  }
+  
+  return MIGRATIONS
+    .filter(m => m.version <= fromVersion && m.version > toVersion)
+    .reverse()
+    .map(m => ({ migration: m, direction: "down" as const }));
+}
+
+// ================================================
+// CLIENT SCHEMA MIGRATION FUNCTIONS
+// ================================================
+// client-template/convex/migrations.ts
+
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { MIGRATIONS } from "./migrations/registry";
+import { timingSafeEqual } from "./lib/secrets";
+
+// Apply one page of a migration transform. Called repeatedly by the fleet
+// runner until isDone; authenticated with the MIGRATION_SECRET seeded at
+// provisioning time.
+export const applyMigrationBatch = mutation({
+  args: {
+    secret: v.string(),
+    version: v.number(),
+    direction: v.string(), // "up" | "down"
+    transformIndex: v.number(),
+    cursor: v.union(v.string(), v.null()),
+    batchSize: v.number(),
+    dryRun: v.boolean(),
+  },
+  returns: v.object({
+    continueCursor: v.string(),
+    isDone: v.boolean(),
+    changed: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    if (!process.env.MIGRATION_SECRET || !timingSafeEqual(args.secret, process.env.MIGRATION_SECRET)) {
+      throw new Error("Unauthorized");
+    }
+    
+    const migration = MIGRATIONS.find(m => m.version === args.version);
+    if (!migration) throw new Error(`Unknown migration version: ${args.version}`);
+    
+    const transform = migration.transforms[args.transformIndex];
+    if (!transform) throw new Error(`Unknown transform: ${args.transformIndex}`);
+    
+    if (args.direction !== "up" && args.direction !== "down") {
+      throw new Error(`Invalid direction: ${args.direction}`);
+    }
+    
+    const page = await ctx.db
+      .query(transform.table)
+      .paginate({ cursor: args.cursor, numItems: args.batchSize });
+    
+    let changed = 0;
+    for (const doc of page.page) {
+      const patch = transform[args.direction](doc);
+      if (!patch) continue;
+      
+      changed++;
+      if (!args.dryRun) {
+        await ctx.db.patch(doc._id, patch);
+        await transform.onPatch?.(ctx, doc, args.direction);
+      }
+    }
+    
+    return {
+      continueCursor: page.continueCursor,
+      isDone: page.isDone,
+      changed,
+    };
+  },
+});
+
+// ================================================
+// CONTROL PLANE MIGRATION TRACKING
+// ================================================
+// control-plane/convex/migrations.ts
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireOperator } from "./lib/auth";
+
+// Organizations with a live project that must be kept on the current schema
+const MIGRATABLE_STATUSES = ["active", "suspended", "offboarding"];
+
+// List tenants and the schema version each one runs
+export const listMigrationTargets = query({
+  args: {
+    secret: v.optional(v.string()), // Scripts and the document processor
+  },
+  returns: v.array(v.object({
+    organizationId: v.id("organizations"),
+    domain: v.string(),
+    projectUrl: v.string(),
+    schemaVersion: v.number(),
+  })),
+  handler: async (ctx, args) => {
+    await requireOperator(ctx, args.secret);
+    
+    const results = [];
+    
+    for (const status of MIGRATABLE_STATUSES) {
+      const orgs = await ctx.db
+        .query("organizations")
+        .withIndex("by_status", (q) => q.eq("deploymentStatus", status))
+        .collect();
+      
+      for (const org of orgs) {
+        results.push({
+          organizationId: org._id,
+          domain: org.domain,
+          projectUrl: org.projectUrl,
+          schemaVersion: org.schemaVersion ?? 1,
+        });
+      }
+    }
+    
+    return results;
+  },
+});
+
+// Start a fleet migration run
+export const startFleetMigrationRun = mutation({
+  args: {
+    targetVersion: v.number(),
+    dryRun: v.boolean(),
+    haltOnError: v.boolean(),
+    canaryDomains: v.array(v.string()),
+    batchSize: v.number(),
+    secret: v.optional(v.string()),
+  },
+  returns: v.id("fleetMigrationRuns"),
+  handler: async (ctx, args) => {
+    const startedBy = await requireOperator(ctx, args.secret);
+    
+    const running = await ctx.db
+      .query("fleetMigrationRuns")
+      .withIndex("by_status", (q) => q.eq("status", "running"))
+      .first();
+    
+    if (running) {
+      throw new Error("A fleet migration is already running");
+    }
+    
+    return await ctx.db.insert("fleetMigrationRuns", {
+      targetVersion: args.targetVersion,
+      dryRun: args.dryRun,
+      haltOnError: args.haltOnError,
+      canaryDomains: args.canaryDomains,
+      batchSize: args.batchSize,
+      status: "running",
+      succeeded: 0,
+      failed: 0,
+      skipped: 0,
+      startedBy,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Record the outcome of migrating one organization
+export const recordSchemaMigration = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    fleetRunId: v.optional(v.id("fleetMigrationRuns")),
+    fromVersion: v.number(),
+    toVersion: v.number(),
+    status: v.string(), // "applied" | "failed" | "dry_run" | "skipped"
+    documentsChanged: v.number(),
+    error: v.optional(v.string()),
+    startedAt: v.number(),
+    secret: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireOperator(ctx, args.secret);
+    
+    if (args.status !== "skipped") {
+      await ctx.db.insert("schemaMigrations", {
+        organizationId: args.organizationId,
+        fleetRunId: args.fleetRunId,
+        fromVersion: args.fromVersion,
+        toVersion: args.toVersion,
+        status: args.status,
+        documentsChanged: args.documentsChanged,
+        error: args.error,
+        startedAt: args.startedAt,
+        completedAt: Date.now(),
+      });
+    }
+    
+    if (args.status === "applied") {
+      await ctx.db.patch(args.organizationId, {
+        schemaVersion: args.toVersion,
+        updatedAt: Date.now(),
+      });
+    }
+    
+    if (args.fleetRunId) {
+      const run = await ctx.db.get(args.fleetRunId);
+      if (run) {
+        await ctx.db.patch(args.fleetRunId, {
+          succeeded: run.succeeded + (args.status === "applied" || args.status === "dry_run" ? 1 : 0),
+          failed: run.failed + (args.status === "failed" ? 1 : 0),
+          skipped: run.skipped + (args.status === "skipped" ? 1 : 0),
+        });
+      }
+    }
+    
+    return null;
+  },
+});
+
+// Finish a fleet migration run
+export const completeFleetMigrationRun = mutation({
+  args: {
+    fleetRunId: v.id("fleetMigrationRuns"),
+    status: v.string(), // "completed" | "halted" | "failed"
+    secret: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireOperator(ctx, args.secret);
+    
+    await ctx.db.patch(args.fleetRunId, {
+      status: args.status,
+      completedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+// Migration history for one organization (newest first)
+export const getOrganizationMigrations = query({
+  args: {
+    organizationId: v.id("organizations"),
+    secret: v.optional(v.string()),
+  },
+  returns: v.array(v.object({
+    fromVersion: v.number(),
+    toVersion: v.number(),
+    status: v.string(),
+    documentsChanged: v.number(),
+    error: v.optional(v.string()),
+    completedAt: v.number(),
+  })),
+  handler: async (ctx, args) => {
+    await requireOperator(ctx, args.secret);
+    
+    const migrations = await ctx.db
+      .query("schemaMigrations")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .order("desc")
+      .take(100);
+    
+    return migrations.map(m => ({
+      fromVersion: m.fromVersion,
+      toVersion: m.toVersion,
+      status: m.status,
+      documentsChanged: m.documentsChanged,
+      error: m.error,
+      completedAt: m.completedAt,
+    }));
+  },
+});
+
+// ================================================
+// FLEET MIGRATION RUNNER
+// ================================================
+// scripts/migrate-fleet.ts
+
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '../control-plane/convex/_generated/api';
+import { api as clientApi } from '../client-template/convex/_generated/api';
+import { Id } from '../control-plane/convex/_generated/dataModel';
+import {
+  CURRENT_SCHEMA_VERSION,
+  planMigrations,
+} from '../client-template/convex/migrations/registry';
+
+export interface FleetMigrationOptions {
+  targetVersion?: number;
+  dryRun?: boolean;
+  canaryDomains?: string[]; // Migrated one at a time before anything else
+  haltOnError?: boolean;
+  batchSize?: number; // Organizations migrated in parallel
+  documentBatchSize?: number; // Documents per applyMigrationBatch call
+  controlPlane?: ConvexHttpClient;
+}
+
+interface MigrationTarget {
+  organizationId: Id<'organizations'>;
+  domain: string;
+  projectUrl: string;
+  schemaVersion: number;
+}
+
+// Migrate a single tenant's data to the target version
+export async function migrateOrganization(
+  target: MigrationTarget,
+  targetVersion: number,
+  options: { dryRun: boolean; documentBatchSize: number }
+) {
+  const client = new ConvexHttpClient(target.projectUrl);
+  let documentsChanged = 0;
+  
+  for (const { migration, direction } of planMigrations(target.schemaVersion, targetVersion)) {
+    for (let transformIndex = 0; transformIndex < migration.transforms.length; transformIndex++) {
+      let cursor: string | null = null;
+      let isDone = false;
+      
+      while (!isDone) {
+        const result = await client.mutation(clientApi.migrations.applyMigrationBatch, {
+          secret: process.env.MIGRATION_SECRET!,
+          version: migration.version,
+          direction,
+          transformIndex,
+          cursor,
+          batchSize: options.documentBatchSize,
+          dryRun: options.dryRun,
+        });
+        
+        documentsChanged += result.changed;
+        cursor = result.continueCursor;
+        isDone = result.isDone;
+      }
+    }
+  }
+  
+  return { documentsChanged };
+}
+
+// Migrate every tenant to the target version: canaries first, then the rest
+// of the fleet in parallel batches
+export async function runFleetMigration(options: FleetMigrationOptions = {}) {
+  const controlPlane = options.controlPlane ||
+    new ConvexHttpClient(process.env.CONTROL_PLANE_URL!);
+  const targetVersion = options.targetVersion ?? CURRENT_SCHEMA_VERSION;
+  const dryRun = options.dryRun ?? false;
+  const haltOnError = options.haltOnError ?? true;
+  const batchSize = options.batchSize ?? 5;
+  const canaryDomains = options.canaryDomains || [];
+  const documentBatchSize = options.documentBatchSize ?? 100;
+  // Runs are recorded as started by "system"
+  const secret = process.env.CONTROL_PLANE_SECRET!;
+  
+  const targets = await controlPlane.query(api.migrations.listMigrationTargets, { secret });
+  
+  // A mistyped canary would otherwise let the whole fleet go first
+  const unknownCanaries = canaryDomains.filter(d => !targets.some(t => t.domain === d));
+  if (unknownCanaries.length) {
+    throw new Error(`Canary domains not found among migration targets: ${unknownCanaries.join(', ')}`);
+  }
+  
+  const canaries = [...new Set(canaryDomains)].map(d => targets.find(t => t.domain === d)!);
+  const rest = targets.filter(t => !canaryDomains.includes(t.domain));
+  
+  const fleetRunId = await controlPlane.mutation(api.migrations.startFleetMigrationRun, {
+    targetVersion,
+    dryRun,
+    haltOnError,
+    canaryDomains,
+    batchSize,
+    secret,
+  });
+  
+  console.log(
+    `${dryRun ? '[dry run] ' : ''}Migrating ${targets.length} organizations to schema v${targetVersion}...`
+  );
+  
+  const migrateOne = async (target: MigrationTarget) => {
+    const startedAt = Date.now();
+    
+    if (target.schemaVersion === targetVersion) {
+      await controlPlane.mutation(api.migrations.recordSchemaMigration, {
+        organizationId: target.organizationId,
+        fleetRunId,
+        fromVersion: target.schemaVersion,
+        toVersion: targetVersion,
+        status: 'skipped',
+        documentsChanged: 0,
+        startedAt,
+        secret,
+      });
+      return true;
+    }
+    
+    try {
+      const { documentsChanged } = await migrateOrganization(target, targetVersion, {
+        dryRun,
+        documentBatchSize,
+      });
+      await controlPlane.mutation(api.migrations.recordSchemaMigration, {
+        organizationId: target.organizationId,
+        fleetRunId,
+        fromVersion: target.schemaVersion,
+        toVersion: targetVersion,
+        status: dryRun ? 'dry_run' : 'applied',
+        documentsChanged,
+        startedAt,
+        secret,
+      });
+      console.log(`  ✓ ${target.domain} v${target.schemaVersion} -> v${targetVersion} (${documentsChanged} documents)`);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await controlPlane.mutation(api.migrations.recordSchemaMigration, {
+        organizationId: target.organizationId,
+        fleetRunId,
+        fromVersion: target.schemaVersion,
+        toVersion: targetVersion,
+        status: 'failed',
+        documentsChanged: 0,
+        error: message,
+        startedAt,
+        secret,
+      });
+      console.error(`  ✗ ${target.domain}: ${message}`);
+      return false;
+    }
+  };
+  
+  // The run is always finished, even when the runner itself throws, so it
+  // does not block the next one
+  let status: 'completed' | 'halted' | 'failed' = 'failed';
+  try {
+    // A failing canary always stops the run
+    for (const canary of canaries) {
+      if (!(await migrateOne(canary))) {
+        status = 'halted';
+        console.error(`❌ Canary ${canary.domain} failed, fleet migration halted`);
+        return { fleetRunId, status };
+      }
+    }
+    
+    let anyFailed = false;
+    for (let i = 0; i < rest.length; i += batchSize) {
+      const results = await Promise.all(rest.slice(i, i + batchSize).map(migrateOne));
+      
+      if (results.includes(false)) {
+        anyFailed = true;
+        if (haltOnError) {
+          status = 'halted';
+          console.error('❌ Fleet migration halted on error');
+          return { fleetRunId, status };
+        }
+      }
+    }
+    
+    status = anyFailed ? 'failed' : 'completed';
+    console.log(`${anyFailed ? '⚠️' : '✅'} Fleet migration ${status}`);
+    return { fleetRunId, status };
+  } finally {
+    await controlPlane.mutation(api.migrations.completeFleetMigrationRun, {
+      fleetRunId,
+      status,
+      secret,
+    });
+  }
+}
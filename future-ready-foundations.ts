@@ -35,15 +35,34 @@ export default defineSchema({
   cases: defineTable({
     caseNumber: v.string(),
     title: v.string(),
-    status: v.string(),
+    status: v.string(), // "active" | "closed" | "archived" (see lib/caseLifecycle.ts)
     
-    // Encrypted sensitive data
+    // Lifecycle
+    statusReason: v.optional(v.string()),
+    statusChangedBy: v.optional(v.id("users")),
+    statusChangedAt: v.optional(v.number()),
+    disposition: v.optional(v.string()), // How the matter ended, set on closing
+    closedAt: v.optional(v.number()),
+    retentionRunAt: v.optional(v.number()), // Start of the retention update still running (see lib/caseLifecycle.ts)
+    
+    // Soft delete, purged once the restore window passes
+    deletedAt: v.optional(v.number()),
+    deletedBy: v.optional(v.id("users")),
+    
+    // Encrypted sensitive data (ciphertext, see lib/fieldEncryption.ts)
     clientName_encrypted: v.string(),
-    opposingParty_encrypted: v.optional(v.string()),
+    opposingParty_encrypted: v.optional(v.string()), // No longer written; opposing parties are in caseParties
     
     // Assignments
     leadAttorneyId: v.id("users"),
     teamMemberIds: v.array(v.id("users")),
+    firmWide: v.optional(v.boolean()), // Visible to every firm user, not just the team
+    
+    // Client this matter is for (client/matter numbering), used by ethical walls
+    clientNumber: v.optional(v.string()),
+    
+    // Conflict check that cleared opening this matter
+    conflictCheckId: v.optional(v.id("conflictChecks")),
     
     // Metadata
     practiceArea: v.string(),
@@ -53,6 +72,11 @@ export default defineSchema({
     
     // Future: Search optimization
     searchableText: v.optional(v.string()), // Concatenated searchable content
+    keyEntityNames: v.optional(v.array(v.string())), // Parties and judge found in the case's documents
+    
+    // Incremented by every edit (see lib/caseChanges.ts patchCase); writers
+    // send back the version they read
+    version: v.number(),
     
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -60,6 +84,18 @@ export default defineSchema({
     .index("by_case_number", ["caseNumber"])
     .index("by_status", ["status"])
     .index("by_lead_attorney", ["leadAttorneyId"])
+    .index("by_client_number", ["clientNumber"])
+    .index("by_deleted_at", ["deletedAt"])
+    // Compliance checks (see compliance/dashboard.ts)
+    .index("by_conflict_check", ["conflictCheckId"])
+    .index("by_status_and_retention_run", ["status", "retentionRunAt"])
+    // List sorting (see cases.list)
+    .index("by_created", ["createdAt"])
+    .index("by_updated", ["updatedAt"])
+    .index("by_status_and_created", ["status", "createdAt"])
+    .index("by_status_and_updated", ["status", "updatedAt"])
+    .index("by_status_and_case_number", ["status", "caseNumber"])
+    .index("by_lead_attorney_and_status", ["leadAttorneyId", "status", "createdAt"])
     .searchIndex("search_cases", { // Ready for full-text search
       searchField: "searchableText",
       filterFields: ["status", "practiceArea", "leadAttorneyId"],
@@ -183,8 +219,515 @@ export default defineSchema({
     .index("by_type", ["jobType"])
     .index("by_scheduled", ["scheduledFor"])
     .index("by_priority_and_created", ["priority", "createdAt"]),
+
+  // Ethical walls: screened users may not see the listed cases or any
+  // matter of the listed clients, whatever their role or team
+  ethicalWalls: defineTable({
+    name: v.string(),
+    reason: v.string(),
+    
+    screenedUserIds: v.array(v.id("users")),
+    caseIds: v.array(v.id("cases")),
+    clientNumbers: v.array(v.string()),
+    
+    status: v.string(), // "active" | "lifted"
+    createdBy: v.id("users"),
+    liftedBy: v.optional(v.id("users")),
+    liftedAt: v.optional(v.number()),
+    liftReason: v.optional(v.string()),
+    
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_status", ["status"]),
+  
+  // Per-case history of lifecycle events, kept after the case is purged
+  caseTimeline: defineTable({
+    caseId: v.id("cases"),
+    eventType: v.string(), // "opened" | "status_changed" | "purged"
+    fromStatus: v.optional(v.string()),
+    toStatus: v.string(),
+    reason: v.string(),
+    disposition: v.optional(v.string()),
+    actorId: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_case", ["caseId", "createdAt"]),
+  
+  // Parties to a matter. Conflict checks search their name hashes in
+  // nameIndexEntries.
+  caseParties: defineTable({
+    caseId: v.id("cases"),
+    role: v.string(), // "client" | "opposing_party" | "related_party"
+    name_encrypted: v.string(),
+    aliases_encrypted: v.array(v.string()),
+    addedBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_case", ["caseId"]),
+  
+  // Conflict-of-interest checks (permanent record, never deleted)
+  conflictChecks: defineTable({
+    caseId: v.optional(v.id("cases")), // Matter the check cleared or was run for
+    subjects: v.array(v.object({
+      name_encrypted: v.string(),
+      nameIndex: v.object({
+        exact: v.string(),
+        tokens: v.array(v.string()),
+        phonetic: v.optional(v.array(v.string())),
+      }),
+      role: v.string(),
+    })),
+    hits: v.array(v.any()), // Ranked ConflictHit report, names encrypted
+    hitCount: v.number(),
+    
+    status: v.string(), // "pending" | "cleared" | "waived" | "declined"
+    requestedBy: v.id("users"),
+    decidedBy: v.optional(v.id("users")),
+    decidedAt: v.optional(v.number()),
+    decisionNotes: v.optional(v.string()),
+    usedAt: v.optional(v.number()),
+    
+    createdAt: v.number(),
+  })
+    .index("by_status", ["status"])
+    .index("by_case", ["caseId"]),
+
+  // Per-tenant data keys for field encryption, wrapped by a KMS master key.
+  // Retired keys are kept until every ciphertext using them is re-encrypted.
+  // The blind index key is never rotated (every hash would change), only
+  // re-wrapped.
+  dataKeys: defineTable({
+    keyId: v.string(), // "dk<version>", stored in every ciphertext; "bi<version>" for blind indexes
+    purpose: v.string(), // "encryption" | "blind_index"
+    version: v.number(),
+    wrappedKey: v.string(),
+    masterKeyId: v.string(), // KMS key that wrapped this one
+    status: v.string(), // "active" | "retired"
+    createdAt: v.number(),
+    retiredAt: v.optional(v.number()),
+  })
+    .index("by_key_id", ["keyId"])
+    .index("by_purpose_status", ["purpose", "status"])
+    .index("by_purpose_version", ["purpose", "version"]),
+  
+  // Keyed hashes of encrypted case names (see lib/blindIndex.ts)
+  blindIndexEntries: defineTable({
+    caseId: v.id("cases"),
+    field: v.string(), // "clientName" | "opposingParty"
+    kind: v.string(), // "exact" | "token"
+    hash: v.string(),
+  })
+    .index("by_hash", ["hash"])
+    .index("by_case", ["caseId", "field"]),
+  
+  // Keyed hashes of party and extracted entity names, searched by conflict
+  // checks (see lib/conflicts.ts). One set per name or alias of the owner.
+  nameIndexEntries: defineTable({
+    partyId: v.optional(v.id("caseParties")),
+    entityId: v.optional(v.id("entities")),
+    variant: v.number(), // 0 for the name, 1 + alias position for aliases
+    nameTokens: v.number(), // Words in that name
+    kind: v.string(), // "exact" | "token" | "phonetic"
+    hash: v.string(),
+  })
+    .index("by_hash", ["hash"])
+    .index("by_party", ["partyId"])
+    .index("by_entity", ["entityId"]),
+  
+  // Plan usage, split into shards that add up to the total (see lib/quotas.ts)
+  usageCounters: defineTable({
+    metric: v.string(), // "storageBytes" | "pagesProcessed"
+    period: v.string(), // "all" for storage, "YYYY-MM" for monthly metrics
+    shard: v.optional(v.number()), // Unset on counters written before sharding
+    used: v.number(), // May be negative on a shard; only the sum is meaningful
+    updatedAt: v.number(),
+  })
+    .index("by_metric", ["metric", "period"])
+    .index("by_shard", ["metric", "period", "shard"]),
+  
+  // Sum of a metric's counter shards, rolled up shortly after writes
+  usageTotals: defineTable({
+    metric: v.string(),
+    period: v.string(),
+    used: v.number(),
+    rollupDueAt: v.optional(v.number()), // Set while a rollup is scheduled
+    updatedAt: v.number(),
+  })
+    .index("by_metric", ["metric", "period"]),
+
+  // Single row: the plan last pushed by the control plane (see usage.setPlan)
+  planSettings: defineTable({
+    plan: v.string(), // "standard" | "professional" | "enterprise"
+    updatedAt: v.number(),
+  }),
+  
+  // Token buckets for rate limited mutations (see lib/rateLimits.ts)
+  rateLimitBuckets: defineTable({
+    key: v.string(), // "org:<routeClass>:<shard>" | "user:<userId>:<routeClass>"
+    tokens: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_key", ["key"]),
+  
+  // Raised by threat detection (see security/threatDetection.ts)
+  securityEvents: defineTable({
+    userId: v.optional(v.id("users")),
+    eventType: v.string(),
+    severity: v.string(), // "low" | "medium" | "high" | "critical"
+    threatScore: v.optional(v.number()),
+    metadata: v.optional(v.any()),
+    actionTaken: v.optional(v.string()),
+    counted: v.optional(v.boolean()), // Included in securityEventCounts
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId", "createdAt"]),
+  
+  // Security events per five minutes and severity, in shards that add up to
+  // the count (see security/threatDetection.ts)
+  securityEventCounts: defineTable({
+    bucket: v.number(), // Start of the five minutes
+    severity: v.string(),
+    shard: v.number(),
+    count: v.number(),
+  })
+    .index("by_bucket", ["bucket", "severity", "shard"]),
+  
+  // Vulnerability reports from the bug bounty program
+  bugReports: defineTable({
+    title: v.string(),
+    description: v.string(),
+    severity: v.string(), // "low" | "medium" | "high" | "critical"
+    category: v.string(),
+    proofOfConcept: v.optional(v.string()),
+    submitterEmail: v.string(),
+    status: v.string(), // "pending" | ...
+    submittedAt: v.number(),
+    reviewedAt: v.optional(v.number()),
+    bountyAmount: v.optional(v.number()),
+    totaled: v.optional(v.boolean()), // Included in bugBountyTotals
+  }),
+  
+  // Single row: running totals over bugReports (see security/bugBounty.ts)
+  bugBountyTotals: defineTable({
+    totalReports: v.number(),
+    totalPaid: v.number(),
+    reviewedReports: v.number(),
+    totalResponseTime: v.number(), // Milliseconds, summed over reviewed reports
+    severityBreakdown: v.object({
+      critical: v.number(),
+      high: v.number(),
+      medium: v.number(),
+      low: v.number(),
+    }),
+    updatedAt: v.number(),
+  }),
 });
 
+// ================================================
+// CODED ERRORS
+// ================================================
+// client-template/convex/lib/errors.ts
+//
+// Errors callers are expected to handle carry a stable code, which the API
+// gateway maps to an HTTP status. Anything thrown as a plain Error is a bug
+// or an outage and surfaces as a 500.
+
+import { ConvexError } from "convex/values";
+
+export const ERROR_CODES = [
+  "unauthenticated",
+  "permission_denied",
+  "ethical_wall",
+  "feature_disabled",
+  "rate_limited",
+  "quota_exceeded",
+  "not_found",
+  "already_exists",
+  "invalid_argument",
+  "invalid_state",
+  "invalid_transition",
+  "case_locked",
+  "stale_write",
+  "conflict_check_required",
+  "conflict_check_invalid",
+  "lease_lost",
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+// Extra fields are for server-side callers (the worker, audits); the gateway
+// only passes code and message on to clients
+export type CodedErrorData = {
+  code: ErrorCode;
+  message: string;
+  [detail: string]: string | number | string[];
+};
+
+export function codedError(
+  code: ErrorCode,
+  message: string,
+  details: Record<string, string | number | string[]> = {}
+) {
+  return new ConvexError<CodedErrorData>({ ...details, code, message });
+}
+
+export function errorCode(error: unknown): ErrorCode | undefined {
+  if (!(error instanceof ConvexError)) return undefined;
+  const code = (error.data as Partial<CodedErrorData> | undefined)?.code;
+  return (ERROR_CODES as readonly string[]).includes(code as string) ? code as ErrorCode : undefined;
+}
+
+// ================================================
+// TOKEN BUCKET RATE LIMITS
+// ================================================
+// client-template/convex/lib/rateLimits.ts
+//
+// Pure policy and bucket math, shared with the API gateway. Only the
+// consumeRateLimit helper touches the database.
+
+import { codedError } from "./errors";
+import { getTenantPlan } from "./quotas";
+
+export const ROUTE_CLASSES = ["read", "write", "upload", "ingestion"] as const;
+
+export type RouteClass = typeof ROUTE_CLASSES[number];
+
+export interface RateLimitPolicy {
+  capacity: number; // Burst size
+  refillPerMinute: number; // Sustained rate
+}
+
+// Organization-wide limits per plan and route class
+export const RATE_LIMIT_PLANS: Record<string, Record<RouteClass, RateLimitPolicy>> = {
+  standard: {
+    read: { capacity: 600, refillPerMinute: 600 },
+    write: { capacity: 120, refillPerMinute: 120 },
+    upload: { capacity: 30, refillPerMinute: 30 },
+    ingestion: { capacity: 10, refillPerMinute: 10 },
+  },
+  professional: {
+    read: { capacity: 1800, refillPerMinute: 1800 },
+    write: { capacity: 360, refillPerMinute: 360 },
+    upload: { capacity: 120, refillPerMinute: 90 },
+    ingestion: { capacity: 40, refillPerMinute: 30 },
+  },
+  enterprise: {
+    read: { capacity: 6000, refillPerMinute: 6000 },
+    write: { capacity: 1200, refillPerMinute: 1200 },
+    upload: { capacity: 500, refillPerMinute: 300 },
+    ingestion: { capacity: 150, refillPerMinute: 100 },
+  },
+};
+
+// Each user gets this fraction of the organization's limit, so one person's
+// bulk upload cannot use up the whole firm's budget
+export const USER_SHARE = 0.25;
+
+export function getRateLimitPolicy(
+  plan: string,
+  routeClass: RouteClass,
+  scope: "organization" | "user"
+): RateLimitPolicy {
+  const policy = (RATE_LIMIT_PLANS[plan] || RATE_LIMIT_PLANS.standard)[routeClass];
+  if (scope === "organization") return policy;
+  
+  return {
+    capacity: Math.max(1, Math.floor(policy.capacity * USER_SHARE)),
+    refillPerMinute: Math.max(1, policy.refillPerMinute * USER_SHARE),
+  };
+}
+
+// The organization bucket is split into shards, so writes from across the
+// firm do not all patch one document. A request draws from a random shard.
+// Shards keep at least MIN_SHARD_CAPACITY tokens, so small budgets are not
+// split so finely that requests are refused while other shards have tokens.
+export const MAX_ORG_BUCKET_SHARDS = 8;
+const MIN_SHARD_CAPACITY = 10;
+
+export function orgBucketShards(policy: RateLimitPolicy) {
+  return Math.max(1, Math.min(MAX_ORG_BUCKET_SHARDS, Math.floor(policy.capacity / MIN_SHARD_CAPACITY)));
+}
+
+export function shardPolicy(policy: RateLimitPolicy, shards: number): RateLimitPolicy {
+  return {
+    capacity: Math.max(1, Math.floor(policy.capacity / shards)),
+    refillPerMinute: policy.refillPerMinute / shards,
+  };
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  state: BucketState; // Bucket after this request (unchanged when denied)
+  remaining: number;
+  resetMs: number; // Until the bucket is full again
+  retryAfterMs: number; // Until the next token (0 when allowed)
+}
+
+// Refill the bucket for the time elapsed, then try to take one token.
+// A missing bucket is a full one.
+export function takeToken(
+  bucket: BucketState | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): RateLimitResult {
+  const msPerToken = 60_000 / policy.refillPerMinute;
+  const tokens = bucket ?
+    Math.min(policy.capacity, bucket.tokens + (now - bucket.updatedAt) / msPerToken) :
+    policy.capacity;
+  
+  if (tokens < 1) {
+    return {
+      allowed: false,
+      state: { tokens, updatedAt: now },
+      remaining: 0,
+      resetMs: Math.ceil((policy.capacity - tokens) * msPerToken),
+      retryAfterMs: Math.ceil((1 - tokens) * msPerToken),
+    };
+  }
+  
+  const after = tokens - 1;
+  return {
+    allowed: true,
+    state: { tokens: after, updatedAt: now },
+    remaining: Math.floor(after),
+    resetMs: Math.ceil((policy.capacity - after) * msPerToken),
+    retryAfterMs: 0,
+  };
+}
+
+// Take a token from a shard of the organization bucket and, when known, the
+// caller's bucket. Throws when either is empty. Requires a mutation context.
+export async function consumeRateLimit(
+  ctx: any,
+  routeClass: RouteClass,
+  userId?: string
+) {
+  const plan = await getTenantPlan(ctx);
+  const now = Date.now();
+  
+  const orgPolicy = getRateLimitPolicy(plan, routeClass, "organization");
+  const shards = orgBucketShards(orgPolicy);
+  const shard = Math.floor(Math.random() * shards);
+  
+  const checks = [
+    { key: `org:${routeClass}:${shard}`, policy: shardPolicy(orgPolicy, shards) },
+    ...(userId ?
+      [{ key: `user:${userId}:${routeClass}`, policy: getRateLimitPolicy(plan, routeClass, "user") }] :
+      []),
+  ];
+  
+  const results = [];
+  for (const check of checks) {
+    const bucket = await ctx.db
+      .query("rateLimitBuckets")
+      .withIndex("by_key", (q: any) => q.eq("key", check.key))
+      .first();
+    
+    const result = takeToken(bucket || undefined, check.policy, now);
+    if (!result.allowed) {
+      // Nothing is written, so a denied user request does not drain the
+      // organization bucket
+      const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+      throw codedError(
+        "rate_limited",
+        `Rate limit exceeded for ${routeClass} requests; retry after ${retryAfterSeconds}s`,
+        { retryAfterSeconds }
+      );
+    }
+    results.push({ bucket, key: check.key, state: result.state });
+  }
+  
+  for (const { bucket, key, state } of results) {
+    if (bucket) {
+      await ctx.db.patch(bucket._id, state);
+    } else {
+      await ctx.db.insert("rateLimitBuckets", { key, ...state });
+    }
+  }
+}
+
+// ================================================
+// CURSOR PAGINATION
+// ================================================
+// client-template/convex/lib/pagination.ts
+
+import { v, Validator } from "convex/values";
+import { PaginationOptions } from "convex/server";
+import { codedError } from "./errors";
+
+// Same ceiling as the gateway, so direct callers cannot pull whole tables
+export const MAX_PAGE_SIZE = 100;
+
+export const SORT_ORDERS = ["asc", "desc"] as const;
+
+export type SortOrder = typeof SORT_ORDERS[number];
+
+export function boundedPage(opts: PaginationOptions): PaginationOptions {
+  return { ...opts, numItems: Math.max(1, Math.min(opts.numItems, MAX_PAGE_SIZE)) };
+}
+
+export function parseSortOrder(order: string | undefined, fallback: SortOrder): SortOrder {
+  if (order === undefined) return fallback;
+  if (!(SORT_ORDERS as readonly string[]).includes(order)) {
+    throw codedError("invalid_argument", `Invalid sort order: ${order}`);
+  }
+  return order as SortOrder;
+}
+
+// Return validator for a page of items, as produced by .paginate()
+export function pageValidator<T extends Validator<any, "required", any>>(item: T) {
+  return v.object({
+    page: v.array(item),
+    isDone: v.boolean(),
+    continueCursor: v.string(),
+  });
+}
+
+// ================================================
+// PERMISSION CHECKS
+// ================================================
+// client-template/convex/lib/permissions.ts
+
+export const FIRM_ROLES = ["partner", "associate", "paralegal", "client"] as const;
+
+export type FirmRole = typeof FIRM_ROLES[number];
+
+// Permissions granted when a user is given a role. Stored on the user, so
+// individual grants can still be added on top.
+export const ROLE_PERMISSIONS: Record<FirmRole, string[]> = {
+  partner: ["cases.*", "documents.*", "entities.*", "ingestion.*", "users.*", "walls.*", "conflicts.*", "pii.decrypt", "audit.read"],
+  associate: ["cases.read", "cases.write", "cases.close", "documents.*", "entities.*", "ingestion.*", "users.read", "conflicts.run", "pii.decrypt"],
+  paralegal: ["cases.read", "documents.read", "documents.write", "entities.read", "ingestion.*", "conflicts.run"],
+  client: ["cases.read", "documents.read"],
+};
+
+export function isFirmRole(role: string): role is FirmRole {
+  return (FIRM_ROLES as readonly string[]).includes(role);
+}
+
+export function permissionsForRole(role: FirmRole): string[] {
+  return [...ROLE_PERMISSIONS[role]];
+}
+
+// "*" grants everything, "cases.*" grants every cases permission
+export function hasPermission(granted: string[], required: string): boolean {
+  return granted.some(p =>
+    p === "*" ||
+    p === required ||
+    (p.endsWith(".*") && required.startsWith(p.slice(0, -1)))
+  );
+}
+
+export function missingPermissions(granted: string[], required: string[]): string[] {
+  return required.filter(p => !hasPermission(granted, p));
+}
+
 // ================================================
 // EXTENSIBLE API WRAPPER PATTERN
 // ================================================
@@ -192,6 +735,10 @@ export default defineSchema({
 
 import { QueryCtx, MutationCtx } from "../_generated/server";
 import { Id } from "../_generated/dataModel";
+import { codedError } from "./errors";
+import { consumeRateLimit, RouteClass } from "./rateLimits";
+import { missingPermissions } from "./permissions";
+import { EthicalWallScreens, loadScreens, NO_SCREENS } from "./ethicalWalls";
 
 // Base context that can be extended
 export interface BaseContext {
@@ -200,6 +747,15 @@ export interface BaseContext {
   ipAddress: string;
   userAgent: string;
   startTime: number;
+  permissions: string[];
+  screens: EthicalWallScreens; // Ethical walls screening the caller
+  
+  // Filled in by handlers to give the audit entry its subject and details
+  audit: {
+    resourceType?: string;
+    resourceId?: string;
+    metadata?: any;
+  };
 }
 
 // Wrapper for all API functions
@@ -208,6 +764,8 @@ export function wrapApi<TArgs, TReturn>(
     requireAuth?: boolean;
     auditAction?: string;
     featureFlag?: string;
+    rateLimit?: RouteClass;
+    requires?: string[]; // Permission strings, wildcards allowed in grants
   },
   handler: (ctx: QueryCtx | MutationCtx, context: BaseContext, args: TArgs) => Promise<TReturn>
 ): (ctx: QueryCtx | MutationCtx, args: TArgs) => Promise<TReturn> {
@@ -217,16 +775,19 @@ export function wrapApi<TArgs, TReturn>(
     // Build context
     const identity = await ctx.auth.getUserIdentity();
     if (options.requireAuth && !identity) {
-      throw new Error("Unauthenticated");
+      throw codedError("unauthenticated", "Unauthenticated");
     }
     
     let userId: Id<"users"> | undefined;
+    let permissions: string[] = [];
     if (identity) {
       const user = await ctx.db
         .query("users")
         .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
         .first();
       userId = user?._id;
+      // Deactivated users keep their record but lose every permission
+      permissions = user?.isActive ? user.permissions : [];
     }
     
     const context: BaseContext = {
@@ -235,8 +796,25 @@ export function wrapApi<TArgs, TReturn>(
       ipAddress: identity?.ipAddress || "unknown",
       userAgent: identity?.userAgent || "unknown",
       startTime,
+      permissions,
+      screens: userId ? await loadScreens(ctx, userId) : NO_SCREENS,
+      audit: {},
     };
     
+    // Nothing written or scheduled by a failing function survives its throw,
+    // so the missing permissions go out with the error and callers report
+    // the denial through permissions.recordDenial. Blocked wall access
+    // (ethicalWalls.recordBlockedAccess) and errors (systemEvents.recordError)
+    // are reported the same way.
+    if (options.requires?.length) {
+      const missing = missingPermissions(permissions, options.requires);
+      if (missing.length) {
+        throw codedError("permission_denied", `Permission denied: missing ${missing.join(", ")}`, {
+          permissions: missing,
+        });
+      }
+    }
+    
     // Check feature flag if specified
     if (options.featureFlag) {
       const flag = await ctx.db
@@ -245,131 +823,667 @@ export function wrapApi<TArgs, TReturn>(
         .first();
       
       if (!flag?.enabled) {
-        throw new Error("Feature not enabled");
+        throw codedError("feature_disabled", "Feature not enabled");
       }
     }
     
-    try {
-      // Execute handler
-      const result = await handler(ctx, context, args);
-      
-      // Audit log for mutations
-      if (options.auditAction && "db" in ctx) {
-        await ctx.db.insert("auditLogs", {
-          userId: context.userId,
-          action: options.auditAction,
-          resourceType: "system",
-          ipAddress: context.ipAddress,
-          userAgent: context.userAgent,
-          sessionId: context.sessionId,
-          createdAt: Date.now(),
-        });
-      }
+    // Rate limit direct calls too, not just gateway traffic. Queries cannot
+    // write bucket state, so reads are only limited in the gateway.
+    if (options.rateLimit && "scheduler" in ctx) {
+      await consumeRateLimit(ctx, options.rateLimit, userId);
+    }
+    
+    // Execute handler
+    const result = await handler(ctx, context, args);
       
-      // Log performance for slow queries
-      const duration = Date.now() - startTime;
-      if (duration > 1000) {
-        await (ctx as MutationCtx).db.insert("systemEvents", {
-          eventType: "performance",
-          severity: "medium",
-          source: options.auditAction || "unknown",
-          message: `Slow operation: ${duration}ms`,
-          eventData: { duration, args },
-          acknowledged: false,
-          createdAt: Date.now(),
-        });
-      }
+    // Audit log for mutations. Queries have a db too, but a read-only one,
+    // so mutations are told apart by their scheduler.
+    if (options.auditAction && "scheduler" in ctx) {
+      await ctx.db.insert("auditLogs", {
+        userId: context.userId,
+        action: options.auditAction,
+        resourceType: context.audit.resourceType || "system",
+        resourceId: context.audit.resourceId,
+        metadata: context.audit.metadata,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        sessionId: context.sessionId,
+        createdAt: Date.now(),
+      });
+    }
       
-      return result;
-    } catch (error) {
-      // Log errors
-      if ("db" in ctx) {
-        await ctx.db.insert("systemEvents", {
-          eventType: "error",
-          severity: "high",
-          source: options.auditAction || "unknown",
-          message: error.message,
-          eventData: { error: error.toString(), args },
-          acknowledged: false,
-          createdAt: Date.now(),
-        });
-      }
-      throw error;
+    // Log performance for slow queries
+    const duration = Date.now() - startTime;
+    if (duration > 1000 && "scheduler" in ctx) {
+      await ctx.db.insert("systemEvents", {
+        eventType: "performance",
+        severity: "medium",
+        source: options.auditAction || "unknown",
+        message: `Slow operation: ${duration}ms`,
+        eventData: { duration, args },
+        acknowledged: false,
+        createdAt: Date.now(),
+      });
     }
+      
+    return result;
   };
 }
 
 // ================================================
-// BACKGROUND JOB SYSTEM
+// ETHICAL WALL SCREENING
 // ================================================
-// client-template/convex/lib/jobs.ts
+// client-template/convex/lib/ethicalWalls.ts
+
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { codedError } from "./errors";
+
+// Matters a user is screened from, keyed to the wall that screens them
+export interface EthicalWallScreens {
+  byCase: Map<string, Id<"ethicalWalls">>;
+  byClientNumber: Map<string, Id<"ethicalWalls">>;
+}
+
+export const NO_SCREENS: EthicalWallScreens = {
+  byCase: new Map(),
+  byClientNumber: new Map(),
+};
+
+export const WALL_BLOCKED_MESSAGE = "Access blocked by ethical wall";
+
+export async function loadScreens(
+  ctx: QueryCtx,
+  userId: Id<"users">
+): Promise<EthicalWallScreens> {
+  // Firms have few active walls, so they are filtered in memory
+  const walls = await ctx.db
+    .query("ethicalWalls")
+    .withIndex("by_status", (q) => q.eq("status", "active"))
+    .collect();
+  
+  const screens: EthicalWallScreens = { byCase: new Map(), byClientNumber: new Map() };
+  for (const wall of walls) {
+    if (!wall.screenedUserIds.includes(userId)) continue;
+    
+    for (const caseId of wall.caseIds) screens.byCase.set(caseId, wall._id);
+    for (const clientNumber of wall.clientNumbers) screens.byClientNumber.set(clientNumber, wall._id);
+  }
+  
+  return screens;
+}
+
+export function screeningWall(screens: EthicalWallScreens, c: Doc<"cases">) {
+  return screens.byCase.get(c._id) ||
+    (c.clientNumber ? screens.byClientNumber.get(c.clientNumber) : undefined);
+}
+
+// The wall and case are kept out of the message, so only server-side
+// callers see which wall applies
+export function wallBlockedError(wallId: Id<"ethicalWalls">, caseId: Id<"cases">) {
+  return codedError("ethical_wall", WALL_BLOCKED_MESSAGE, { wallId, caseId });
+}
+
+// ================================================
+// CASE-LEVEL ACCESS
+// ================================================
+// client-template/convex/lib/caseAccess.ts
+
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { BaseContext } from "./apiWrapper";
+import { hasPermission } from "./permissions";
+import { codedError } from "./errors";
+import { screeningWall, wallBlockedError } from "./ethicalWalls";
+
+// Users with this permission see every matter (partners, via "cases.*")
+export const ALL_CASES_PERMISSION = "cases.read_all";
+
+export function seesAllCases(context: BaseContext) {
+  return hasPermission(context.permissions, ALL_CASES_PERMISSION);
+}
+
+// Ethical walls override role, team membership and firm-wide visibility.
+// Soft-deleted cases are hidden from everyone until restored.
+export function canAccessCase(context: BaseContext, c: Doc<"cases">, includeDeleted = false) {
+  if (screeningWall(context.screens, c)) return false;
+  if (c.deletedAt !== undefined && !includeDeleted) return false;
+  
+  return seesAllCases(context) ||
+    c.firmWide === true ||
+    c.leadAttorneyId === context.userId ||
+    c.teamMemberIds.includes(context.userId);
+}
+
+// Load a case the caller may see. Inaccessible cases look missing, so their
+// existence is not revealed; walled cases raise the wall error so the
+// attempt can be reported.
+export async function getAccessibleCase(
+  ctx: QueryCtx,
+  context: BaseContext,
+  caseId: Id<"cases">,
+  includeDeleted = false
+) {
+  const c = await ctx.db.get(caseId);
+  if (!c) throw codedError("not_found", "Case not found");
+  
+  const wallId = screeningWall(context.screens, c);
+  if (wallId) throw wallBlockedError(wallId, caseId);
+  
+  if (!canAccessCase(context, c, includeDeleted)) throw codedError("not_found", "Case not found");
+  return c;
+}
+
+// Single-record check for records that hang off an optional case. Records
+// without a case are visible to whoever uploaded them.
+export async function assertRecordAccess(
+  ctx: QueryCtx,
+  context: BaseContext,
+  record: { caseId?: Id<"cases">; uploadedBy?: Id<"users"> },
+  notFoundMessage: string
+) {
+  if (record.caseId) {
+    const c = await ctx.db.get(record.caseId);
+    const wallId = c && screeningWall(context.screens, c);
+    if (wallId) throw wallBlockedError(wallId, record.caseId);
+    if (c && canAccessCase(context, c)) return;
+  } else if (seesAllCases(context) || record.uploadedBy === context.userId) {
+    return;
+  }
+  
+  throw codedError("not_found", notFoundMessage);
+}
+
+// Filter for lists and search results. Case lookups are cached for the
+// lifetime of the checker.
+export function createCaseAccessChecker(ctx: QueryCtx, context: BaseContext) {
+  const cache = new Map<string, boolean>();
+  
+  return async (record: { caseId?: Id<"cases">; uploadedBy?: Id<"users"> }) => {
+    if (!record.caseId) return seesAllCases(context) || record.uploadedBy === context.userId;
+    
+    let allowed = cache.get(record.caseId);
+    if (allowed === undefined) {
+      const c = await ctx.db.get(record.caseId);
+      allowed = !!c && canAccessCase(context, c);
+      cache.set(record.caseId, allowed);
+    }
+    return allowed;
+  };
+}
+
+// Entities and chunks without a case inherit it (and the uploader) from
+// their ingestion
+export async function resolveIngestionRecord(
+  ctx: QueryCtx,
+  record: { caseId?: Id<"cases">; ingestionId: Id<"documentIngestion"> }
+) {
+  if (record.caseId) return { caseId: record.caseId };
+  
+  const ingestion = await ctx.db.get(record.ingestionId);
+  return { caseId: ingestion?.caseId, uploadedBy: ingestion?.uploadedBy };
+}
+
+export function createEntityAccessChecker(ctx: QueryCtx, context: BaseContext) {
+  const canAccess = createCaseAccessChecker(ctx, context);
+  
+  return async (record: { caseId?: Id<"cases">; ingestionId: Id<"documentIngestion"> }) =>
+    await canAccess(await resolveIngestionRecord(ctx, record));
+}
+
+// ================================================
+// CASE LIFECYCLE
+// ================================================
+// client-template/convex/lib/caseLifecycle.ts
 
 import { v } from "convex/values";
-import { internalMutation, internalQuery, cronJobs } from "../_generated/server";
+import { internalMutation, MutationCtx } from "../_generated/server";
 import { internal } from "../_generated/api";
+import { Doc, Id } from "../_generated/dataModel";
+import { patchCase } from "./caseChanges";
+import { codedError } from "./errors";
 
-// Create a job
-export const createJob = internalMutation({
+export const CASE_STATUSES = ["active", "closed", "archived"] as const;
+
+export type CaseStatus = typeof CASE_STATUSES[number];
+
+// Allowed transitions (from -> to)
+const ALLOWED_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  active: ["closed"],
+  closed: ["active", "archived"], // Reopen or archive
+  archived: ["active"], // Reopen from storage
+};
+
+// How a matter ended, required when closing
+export const CLOSING_DISPOSITIONS = [
+  "settled",
+  "judgment",
+  "dismissed",
+  "withdrawn",
+  "transferred",
+  "completed", // Transactional and advisory matters
+  "other",
+] as const;
+
+// Client files are kept this long after a matter closes
+const RETENTION_YEARS = 7;
+
+// Documents updated per retention batch
+const RETENTION_BATCH_SIZE = 100;
+
+export function isCaseStatus(status: string): status is CaseStatus {
+  return (CASE_STATUSES as readonly string[]).includes(status);
+}
+
+export function canTransitionCase(from: string, to: CaseStatus): boolean {
+  return isCaseStatus(from) && ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+// Closed and archived matters are read-only until reopened
+export function assertCaseEditable(c: Doc<"cases">) {
+  if (c.status !== "active") {
+    throw codedError("case_locked", `Case ${c.caseNumber} is ${c.status}; reopen it to make changes`);
+  }
+}
+
+export function retentionDateFor(closedAt: number) {
+  return closedAt + RETENTION_YEARS * 365 * 24 * 60 * 60 * 1000;
+}
+
+// Set (or clear, on reopening) the retention date of the case's documents,
+// a batch at a time. The case keeps retentionRunAt until the last batch, so
+// compliance checks see matters still being updated. A run overtaken by
+// another transition stops; the newer run covers every document.
+export const applyRetentionBatch = internalMutation({
   args: {
-    jobType: v.string(),
-    inputData: v.any(),
-    priority: v.optional(v.number()),
-    scheduledFor: v.optional(v.number()),
+    caseId: v.id("cases"),
+    runAt: v.number(),
+    cursor: v.union(v.string(), v.null()),
   },
-  returns: v.id("backgroundJobs"),
+  returns: v.null(),
   handler: async (ctx, args) => {
-    return await ctx.db.insert("backgroundJobs", {
-      jobType: args.jobType,
-      status: "pending",
-      inputData: args.inputData,
-      attempts: 0,
-      priority: args.priority || 5,
-      scheduledFor: args.scheduledFor,
-      createdAt: Date.now(),
-    });
-  },
-});
-
-// Process pending jobs
-export const processPendingJobs = internalQuery({
-  args: {},
-  returns: v.array(v.id("backgroundJobs")),
-  handler: async (ctx) => {
-    const now = Date.now();
+    const c = await ctx.db.get(args.caseId);
+    if (!c || c.retentionRunAt !== args.runAt) return null;
+  
+    const retentionDate = c.status === "active" || c.closedAt === undefined
+      ? undefined
+      : retentionDateFor(c.closedAt);
     
-    // Get jobs ready to process
-    const jobs = await ctx.db
-      .query("backgroundJobs")
-      .withIndex("by_status", (q) => q.eq("status", "pending"))
-      .filter((q) => 
-        q.or(
-          q.eq(q.field("scheduledFor"), undefined),
-          q.lte(q.field("scheduledFor"), now)
-        )
-      )
-      .order("desc") // Newest first within priority
-      .take(10);
+    const page = await ctx.db
+      .query("documents")
+      .withIndex("by_case", (q) => q.eq("caseId", args.caseId))
+      .paginate({ cursor: args.cursor, numItems: RETENTION_BATCH_SIZE });
     
-    // Sort by priority
-    return jobs
-      .sort((a, b) => b.priority - a.priority)
-      .map(job => job._id);
+    for (const document of page.page) {
+      if (document.legal?.retentionDate === retentionDate) continue;
+      
+      await ctx.db.patch(document._id, {
+        legal: { ...document.legal, retentionDate },
+        updatedAt: Date.now(),
+      });
+    }
+    
+    if (page.isDone) {
+      // Derived state, so updatedAt is left alone
+      await ctx.db.patch(args.caseId, { retentionRunAt: undefined });
+    } else {
+      await ctx.scheduler.runAfter(0, internal.lib.caseLifecycle.applyRetentionBatch, {
+        caseId: args.caseId,
+        runAt: args.runAt,
+        cursor: page.continueCursor,
+      });
+    }
+    return null;
   },
 });
 
-// Cron job to process background jobs
-const crons = cronJobs();
-
-crons.interval(
-  "process background jobs",
-  { seconds: 30 }, // Every 30 seconds
-  internal.lib.jobs.processJobs
-);
+// Timeline entry for a freshly created case
+export async function recordCaseOpened(ctx: MutationCtx, caseId: Id<"cases">, actorId: Id<"users">) {
+  await ctx.db.insert("caseTimeline", {
+    caseId,
+    eventType: "opened",
+    toStatus: "active",
+    reason: "Case opened",
+    actorId,
+    createdAt: Date.now(),
+  });
+}
 
-export default crons;
+// Validate and apply a status transition with its side effects, recording
+// it in the case timeline. Returns the field changes for the audit entry.
+export async function transitionCase(
+  ctx: MutationCtx,
+  c: Doc<"cases">,
+  toStatus: CaseStatus,
+  transition: {
+    reason: string;
+    actorId: Id<"users">;
+    disposition?: string;
+    expectedVersion: number;
+  }
+) {
+  if (!transition.reason.trim()) {
+    throw codedError("invalid_argument", "A reason is required for status changes");
+  }
+  
+  if (!canTransitionCase(c.status, toStatus)) {
+    throw codedError("invalid_transition", `Invalid status transition: ${c.status} -> ${toStatus}`);
+  }
+  
+  if (toStatus === "closed" &&
+      !(CLOSING_DISPOSITIONS as readonly string[]).includes(transition.disposition || "")) {
+    throw codedError("invalid_argument", `A closing disposition is required: ${CLOSING_DISPOSITIONS.join(", ")}`);
+  }
+  
+  const now = Date.now();
+  const reopening = toStatus === "active";
+  const closedAt = reopening ? undefined : (c.closedAt ?? now);
+  
+  const changes = await patchCase(ctx, c, {
+    status: toStatus,
+    statusReason: transition.reason,
+    statusChangedBy: transition.actorId,
+    statusChangedAt: now,
+    closedAt,
+    disposition: reopening ? undefined : (transition.disposition ?? c.disposition),
+    retentionRunAt: now,
+  }, transition.expectedVersion);
+  
+  await ctx.db.insert("caseTimeline", {
+    caseId: c._id,
+    eventType: "status_changed",
+    fromStatus: c.status,
+    toStatus,
+    reason: transition.reason,
+    disposition: transition.disposition,
+    actorId: transition.actorId,
+    createdAt: now,
+  });
+  
+  await ctx.scheduler.runAfter(0, internal.lib.caseLifecycle.applyRetentionBatch, {
+    caseId: c._id,
+    runAt: now,
+    cursor: null,
+  });
+  
+  return changes;
+}
 
 // ================================================
-// FEATURE FLAG SYSTEM
+// CASE CHANGE TRACKING
+// ================================================
+// client-template/convex/lib/caseChanges.ts
+
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { codedError } from "./errors";
+import { ENCRYPTED_FIELDS } from "./fieldEncryption";
+import { loadCaseEntities } from "./entityResolution";
+
+// Deleted cases can be restored for this long, then they are purged
+export const RESTORE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type CasePatch = Partial<Omit<Doc<"cases">, "_id" | "_creationTime">>;
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+// Audit logs record that an encrypted field changed, never the ciphertext
+const REDACTED = "[encrypted]";
+
+// Extracted entities that make a matter findable: the parties and the judge
+const KEY_ENTITY_ROLES = ["victim", "perpetrator", "defendant", "plaintiff", "judge"];
+const KEY_ENTITY_MIN_CONFIDENCE = 0.6;
+const MAX_KEY_ENTITY_NAMES = 50;
+
+// Text indexed by search_cases
+export function caseSearchText(
+  c: Pick<Doc<"cases">, "caseNumber" | "title" | "practiceArea" | "clientNumber" | "keyEntityNames">
+) {
+  return [c.caseNumber, c.title, c.practiceArea, c.clientNumber, ...(c.keyEntityNames || [])]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Pull key entity names into the case's search text after ingestion. This
+// is derived data, so updatedAt is left alone and editors holding the case
+// are not told their copy went stale.
+export async function refreshKeyEntityNames(
+  ctx: MutationCtx,
+  caseId: Id<"cases">,
+  entities?: Doc<"entities">[]
+) {
+  const c = await ctx.db.get(caseId);
+  if (!c) return;
+  
+  entities = entities ?? await loadCaseEntities(ctx, caseId);
+  
+  const names = new Set<string>();
+  for (const entity of entities) {
+    const role = entity.entitySubtype ?? entity.attributes.role;
+    if (!role || !KEY_ENTITY_ROLES.includes(role)) continue;
+    if (entity.confidence < KEY_ENTITY_MIN_CONFIDENCE && !entity.validated) continue;
+    
+    names.add(entity.name.trim());
+    if (names.size >= MAX_KEY_ENTITY_NAMES) break;
+  }
+  
+  const keyEntityNames = [...names].sort();
+  if (JSON.stringify(keyEntityNames) === JSON.stringify(c.keyEntityNames || [])) return;
+  
+  await ctx.db.patch(caseId, {
+    keyEntityNames,
+    searchableText: caseSearchText({ ...c, keyEntityNames }),
+  });
+}
+
+// Optimistic concurrency: writers send back the version they last read.
+// updatedAt is not enough, two writes in the same millisecond share it.
+export function assertCaseUnchanged(c: Doc<"cases">, expectedVersion: number) {
+  if (c.version !== expectedVersion) {
+    throw codedError("stale_write", `Case ${c.caseNumber} was modified by someone else; reload it and retry`);
+  }
+}
+
+// Before/after of every field the patch actually changes
+export function diffCase(c: Doc<"cases">, patch: CasePatch) {
+  const encrypted: readonly string[] = ENCRYPTED_FIELDS.cases;
+  const changes: Record<string, FieldChange> = {};
+  
+  for (const [field, after] of Object.entries(patch)) {
+    const before = (c as Record<string, unknown>)[field];
+    if (JSON.stringify(before) === JSON.stringify(after)) continue;
+    
+    changes[field] = encrypted.includes(field)
+      ? { before: before === undefined ? null : REDACTED, after: after === undefined ? null : REDACTED }
+      : { before: before ?? null, after: after ?? null };
+  }
+  
+  return changes;
+}
+
+// Every case edit goes through here so stale writes are rejected,
+// searchableText never drifts from the fields it covers and the audit entry
+// gets the diff. Derived fields (keyEntityNames, primaryEntities,
+// retentionRunAt) are written directly and leave the version alone, so
+// background work never makes an editor's copy stale.
+export async function patchCase(
+  ctx: MutationCtx,
+  c: Doc<"cases">,
+  patch: CasePatch,
+  expectedVersion: number
+) {
+  assertCaseUnchanged(c, expectedVersion);
+  
+  const changes = diffCase(c, patch);
+  if (Object.keys(changes).length === 0) return changes;
+  
+  await ctx.db.patch(c._id, {
+    ...patch,
+    searchableText: caseSearchText({ ...c, ...patch }),
+    version: c.version + 1,
+    updatedAt: Date.now(),
+  });
+  
+  return changes;
+}
+
+// ================================================
+// PERMISSION DENIAL AUDIT
+// ================================================
+// client-template/convex/permissions.ts
+
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { wrapApi } from "./lib/apiWrapper";
+import { codedError } from "./lib/errors";
+import { missingPermissions } from "./lib/permissions";
+
+const MAX_REPORTED_PERMISSIONS = 20;
+
+// Denied functions are rolled back, so callers report the denial here after
+// receiving the "Permission denied" error (the gateway does for every route,
+// queries included). The report is only accepted when the caller really
+// lacks every permission it names, so it cannot be used to plant entries.
+export const recordDenial = mutation({
+  args: {
+    resource: v.string(), // Function or route that was attempted
+    permissions: v.array(v.string()), // From the error's details
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "permission.denied",
+    },
+    async (ctx, context, args) => {
+      const missing = missingPermissions(context.permissions, args.permissions);
+      if (!args.permissions.length ||
+          args.permissions.length > MAX_REPORTED_PERMISSIONS ||
+          missing.length !== args.permissions.length) {
+        throw codedError("invalid_argument", "Invalid denial report");
+      }
+    
+      context.audit = {
+        resourceType: "function",
+        resourceId: args.resource,
+        metadata: { missingPermissions: missing },
+      };
+      return null;
+    }
+  ),
+});
+
+// ================================================
+// ERROR EVENTS
+// ================================================
+// client-template/convex/systemEvents.ts
+
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { assertControlPlaneSecret } from "./lib/secrets";
+
+const MAX_ERROR_MESSAGE_LENGTH = 2000;
+
+// Failed functions are rolled back together with anything they log, so the
+// gateway records their errors here once the call has failed. Arguments are
+// left out, since they may hold client data.
+export const recordError = mutation({
+  args: {
+    secret: v.string(),
+    source: v.string(), // Function or route that failed
+    message: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.secret);
+    
+    await ctx.db.insert("systemEvents", {
+      eventType: "error",
+      severity: "high",
+      source: args.source,
+      message: args.message.slice(0, MAX_ERROR_MESSAGE_LENGTH),
+      acknowledged: false,
+      createdAt: Date.now(),
+    });
+    
+    return null;
+  },
+});
+
+// ================================================
+// BACKGROUND JOB SYSTEM
+// ================================================
+// client-template/convex/lib/jobs.ts
+
+import { v } from "convex/values";
+import { internalMutation, internalQuery, cronJobs } from "../_generated/server";
+import { internal } from "../_generated/api";
+
+// Create a job
+export const createJob = internalMutation({
+  args: {
+    jobType: v.string(),
+    inputData: v.any(),
+    priority: v.optional(v.number()),
+    scheduledFor: v.optional(v.number()),
+  },
+  returns: v.id("backgroundJobs"),
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("backgroundJobs", {
+      jobType: args.jobType,
+      status: "pending",
+      inputData: args.inputData,
+      attempts: 0,
+      priority: args.priority || 5,
+      scheduledFor: args.scheduledFor,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Process pending jobs
+export const processPendingJobs = internalQuery({
+  args: {},
+  returns: v.array(v.id("backgroundJobs")),
+  handler: async (ctx) => {
+    const now = Date.now();
+    
+    // Get jobs ready to process
+    const jobs = await ctx.db
+      .query("backgroundJobs")
+      .withIndex("by_status", (q) => q.eq("status", "pending"))
+      .filter((q) => 
+        q.or(
+          q.eq(q.field("scheduledFor"), undefined),
+          q.lte(q.field("scheduledFor"), now)
+        )
+      )
+      .order("desc") // Newest first within priority
+      .take(10);
+    
+    // Sort by priority
+    return jobs
+      .sort((a, b) => b.priority - a.priority)
+      .map(job => job._id);
+  },
+});
+
+// Cron job to process background jobs
+const crons = cronJobs();
+
+crons.interval(
+  "process background jobs",
+  { seconds: 30 }, // Every 30 seconds
+  internal.lib.jobs.processJobs
+);
+
+export default crons;
+
+// ================================================
+// FEATURE FLAG SYSTEM
 // ================================================
 // client-template/convex/featureFlags.ts
 
@@ -418,57 +1532,325 @@ export const isEnabled = query({
   ),
 });
 
+// ================================================
+// PROVISIONING SEED DATA
+// ================================================
+// client-template/convex/seed.ts
+
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+
+// Feature flags every new firm starts with
+const DEFAULT_FEATURE_FLAGS = [
+  { feature: "document_processing", enabled: true, description: "Document ingestion pipeline" },
+  { feature: "ai_summaries", enabled: false, description: "AI case summaries" },
+];
+
+// Seed a freshly provisioned project (safe to run more than once)
+export const seedOrganization = internalMutation({
+  args: { domain: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    for (const flag of DEFAULT_FEATURE_FLAGS) {
+      const existing = await ctx.db
+        .query("featureFlags")
+        .withIndex("by_feature", (q) => q.eq("feature", flag.feature))
+        .first();
+      
+      if (existing) continue;
+      
+      await ctx.db.insert("featureFlags", {
+        ...flag,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    }
+    
+    await ctx.db.insert("systemEvents", {
+      eventType: "info",
+      severity: "low",
+      source: "provisioning",
+      message: `Seeded project for ${args.domain}`,
+      acknowledged: false,
+      createdAt: Date.now(),
+    });
+    
+    return null;
+  },
+});
+
 // ================================================
 // UPDATED CASE FUNCTIONS WITH WRAPPER
 // ================================================
 // client-template/convex/cases.ts
 
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { wrapApi } from "./lib/apiWrapper";
+import { paginationOptsValidator } from "convex/server";
+import { query, mutation, internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { BaseContext, wrapApi } from "./lib/apiWrapper";
+import { canAccessCase, getAccessibleCase, seesAllCases } from "./lib/caseAccess";
+import { codedError } from "./lib/errors";
+import { assertEncryptedFields } from "./lib/fieldEncryption";
+import { assertCaseEditable, recordCaseOpened, transitionCase } from "./lib/caseLifecycle";
+import { caseSearchText, patchCase, RESTORE_WINDOW_MS } from "./lib/caseChanges";
+import { boundedPage, pageValidator, parseSortOrder } from "./lib/pagination";
+import {
+  blindIndexValidator,
+  findCasesByBlindIndex,
+  findCasesByPartyName,
+  removeBlindIndexes,
+  removePartyNameIndexes,
+  setBlindIndex,
+} from "./lib/blindIndex";
+import {
+  insertCaseParty,
+  markConflictCheckUsed,
+  resolveConflictClearance,
+} from "./lib/conflicts";
+
+const CASE_SORT_KEYS = ["createdAt", "updatedAt", "caseNumber"] as const;
 
-// List cases with monitoring
+type CaseSortKey = typeof CASE_SORT_KEYS[number];
+
+// List cases a page at a time. Closed and archived cases are only included
+// when asked for.
 export const list = query({
   args: {
     status: v.optional(v.string()),
+    includeClosed: v.optional(v.boolean()),
+    leadAttorneyId: v.optional(v.id("users")),
+    sortBy: v.optional(v.string()), // "createdAt" (default) | "updatedAt" | "caseNumber"
+    order: v.optional(v.string()), // "asc" | "desc" (default)
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: pageValidator(v.any()),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["cases.read"] },
+    async (ctx, context, args) => {
+      const sortBy = args.sortBy ?? "createdAt";
+      if (!(CASE_SORT_KEYS as readonly string[]).includes(sortBy)) {
+        throw codedError("invalid_argument", `Invalid sort key: ${sortBy}`);
+      }
+      
+      const status = args.status ?? (args.includeClosed ? undefined : "active");
+      const results = await casesSortedBy(ctx, sortBy as CaseSortKey, status, args.leadAttorneyId)
+        .order(parseSortOrder(args.order, "desc"))
+        .paginate(boundedPage(args.paginationOpts));
+      
+      // Filtering after pagination may return short pages; the cursor
+      // still advances correctly
+      return {
+        page: results.page
+          .filter(c => canAccessCase(context, c))
+          .map(toListItem),
+        isDone: results.isDone,
+        continueCursor: results.continueCursor,
+      };
+    }
+  ),
+});
+
+// Every filter and sort combination is read straight off an index. Ties are
+// broken by _creationTime, which ends every index, so page boundaries are
+// stable.
+function casesSortedBy(
+  ctx: QueryCtx,
+  sortBy: CaseSortKey,
+  status: string | undefined,
+  leadAttorneyId: Id<"users"> | undefined
+) {
+  const cases = ctx.db.query("cases");
+  
+  if (leadAttorneyId) {
+    if (sortBy !== "createdAt") {
+      throw codedError("invalid_argument", `Sorting by ${sortBy} is not supported with a lead attorney filter`);
+    }
+    return status ?
+      cases.withIndex("by_lead_attorney_and_status", (q) =>
+        q.eq("leadAttorneyId", leadAttorneyId).eq("status", status)) :
+      // Creation order, which is createdAt order
+      cases.withIndex("by_lead_attorney", (q) => q.eq("leadAttorneyId", leadAttorneyId));
+  }
+  
+  if (status) {
+    switch (sortBy) {
+      case "createdAt":
+        return cases.withIndex("by_status_and_created", (q) => q.eq("status", status));
+      case "updatedAt":
+        return cases.withIndex("by_status_and_updated", (q) => q.eq("status", status));
+      case "caseNumber":
+        return cases.withIndex("by_status_and_case_number", (q) => q.eq("status", status));
+    }
+  }
+  
+  switch (sortBy) {
+    case "createdAt":
+      return cases.withIndex("by_created");
+    case "updatedAt":
+      return cases.withIndex("by_updated");
+    case "caseNumber":
+      return cases.withIndex("by_case_number");
+  }
+}
+
+export function toListItem(c: Doc<"cases">) {
+  return {
+    _id: c._id,
+    caseNumber: c.caseNumber,
+    title: c.title,
+    status: c.status,
+    leadAttorneyId: c.leadAttorneyId,
+    firmWide: c.firmWide === true,
+    version: c.version,
+    createdAt: c.createdAt,
+  };
+}
+
+// Find matters by client and/or opposing party name. Names arrive as blind
+// indexes computed by the gateway (see lib/blindIndex.ts).
+export const lookup = query({
+  args: {
+    clientName: v.optional(blindIndexValidator),
+    opposingParty: v.optional(blindIndexValidator), // Under PARTY_NAME_FIELD, matched against the case parties
+    match: v.optional(v.string()), // "exact" (default) | "tokens" (every word of the name)
   },
   returns: v.array(v.any()),
   handler: wrapApi(
-    { requireAuth: true },
+    { requireAuth: true, requires: ["cases.read"] },
     async (ctx, context, args) => {
-      let query = ctx.db.query("cases");
+      const match = args.match ?? "exact";
+      if (match !== "exact" && match !== "tokens") {
+        throw codedError("invalid_argument", `Invalid match mode: ${match}`);
+      }
+      if (!args.clientName && !args.opposingParty) {
+        throw codedError("invalid_argument", "A client or opposing party name is required");
+      }
       
-      if (args.status) {
-        query = query.withIndex("by_status", (q) => q.eq("status", args.status));
+      const found: Set<Id<"cases">>[] = [];
+      if (args.clientName) {
+        found.push(await findCasesByBlindIndex(ctx, args.clientName, match));
+      }
+      if (args.opposingParty) {
+        found.push(await findCasesByPartyName(ctx, args.opposingParty, "opposing_party", match));
       }
+      const caseIds = found.reduce((a, b) => new Set([...a].filter(id => b.has(id))));
       
-      const cases = await query.order("desc").collect();
+      const cases = [];
+      for (const caseId of caseIds) {
+        const c = await ctx.db.get(caseId);
+        if (c && canAccessCase(context, c)) cases.push(c);
+      }
       
-      return cases.map(c => ({
-        _id: c._id,
-        caseNumber: c.caseNumber,
-        title: c.title,
-        status: c.status,
-        leadAttorneyId: c.leadAttorneyId,
-        createdAt: c.createdAt,
-      }));
+      return cases
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map(toListItem);
+    }
+  ),
+});
+
+// Full-text search over case number, title, practice area, client number and
+// key parties. Same visibility rules as list.
+export const search = query({
+  args: {
+    query: v.string(),
+    status: v.optional(v.string()),
+    includeClosed: v.optional(v.boolean()),
+    practiceArea: v.optional(v.string()),
+    leadAttorneyId: v.optional(v.id("users")),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: pageValidator(v.any()),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["cases.read"] },
+    async (ctx, context, args) => {
+      if (!args.query.trim()) {
+        throw codedError("invalid_argument", "A search query is required");
+      }
+      
+      const status = args.status ?? (args.includeClosed ? undefined : "active");
+      const results = await ctx.db
+        .query("cases")
+        .withSearchIndex("search_cases", (q) => {
+          let search = q.search("searchableText", args.query);
+          if (status) search = search.eq("status", status);
+          if (args.practiceArea) search = search.eq("practiceArea", args.practiceArea);
+          if (args.leadAttorneyId) search = search.eq("leadAttorneyId", args.leadAttorneyId);
+          return search;
+        })
+        .paginate(boundedPage(args.paginationOpts));
+      
+      // Filtering after pagination may return short pages; the cursor
+      // still advances correctly
+      return {
+        page: results.page
+          .filter(c => canAccessCase(context, c))
+          .map(c => ({
+            ...toListItem(c),
+            practiceArea: c.practiceArea,
+            highlights: highlightMatches(c.searchableText || "", args.query),
+          })),
+        isDone: results.isDone,
+        continueCursor: results.continueCursor,
+      };
     }
   ),
 });
 
+const HIGHLIGHT_CONTEXT = 30;
+
+// The search index does not report what matched, so terms are located again
+// the way it matches them: whole words, the last one as a prefix. Offsets
+// are into the snippet.
+function highlightMatches(text: string, query: string) {
+  const terms = query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const words = [...text.matchAll(/[\p{L}\p{N}]+/gu)];
+  const highlights = [];
+  
+  for (const [i, term] of terms.entries()) {
+    const prefix = i === terms.length - 1;
+    const word = words.find(w => {
+      const candidate = w[0].toLowerCase();
+      return prefix ? candidate.startsWith(term) : candidate === term;
+    });
+    if (!word) continue;
+    
+    const start = Math.max(0, word.index! - HIGHLIGHT_CONTEXT);
+    const end = Math.min(text.length, word.index! + word[0].length + HIGHLIGHT_CONTEXT);
+    highlights.push({
+      snippet: text.slice(start, end),
+      start: word.index! - start,
+      end: word.index! - start + (prefix ? term.length : word[0].length),
+    });
+  }
+  
+  return highlights;
+}
+
 // Create case with audit logging
 export const create = mutation({
   args: {
     caseNumber: v.string(),
     title: v.string(),
     clientName_encrypted: v.string(),
+    clientNameIndex: blindIndexValidator,
+    clientNumber: v.optional(v.string()),
     practiceArea: v.string(),
+    
+    // Parties searched by the conflict check, hashed under PARTY_NAME_FIELD
+    clientPartyIndex: blindIndexValidator,
+    opposingParties_encrypted: v.optional(v.array(v.string())),
+    opposingPartyIndexes: v.optional(v.array(blindIndexValidator)), // One per opposing party, in the same order
+    conflictCheckId: v.optional(v.id("conflictChecks")), // Required when the names have hits
   },
   returns: v.id("cases"),
   handler: wrapApi(
     { 
       requireAuth: true,
       auditAction: "case.created",
+      rateLimit: "write",
+      requires: ["cases.write"],
     },
     async (ctx, context, args) => {
       // Check if case number exists
@@ -478,23 +1860,49 @@ export const create = mutation({
         .first();
       
       if (existing) {
-        throw new Error("Case number already exists");
+        throw codedError("already_exists", "Case number already exists");
+      }
+      assertEncryptedFields(args, ["clientName_encrypted"]);
+      
+      const opposing = args.opposingParties_encrypted || [];
+      const opposingIndexes = args.opposingPartyIndexes || [];
+      if (opposingIndexes.length !== opposing.length) {
+        throw codedError("invalid_argument", "Every opposing party needs its blind index");
       }
       
+      const parties = [
+        { name_encrypted: args.clientName_encrypted, nameIndex: args.clientPartyIndex, role: "client" },
+        ...opposing.map((name, i) => ({ name_encrypted: name, nameIndex: opposingIndexes[i], role: "opposing_party" })),
+      ];
+      const conflictCheckId = await resolveConflictClearance(
+        ctx as MutationCtx, context, parties, args.conflictCheckId
+      );
+      
       // Create case
+      const clientNumber = args.clientNumber?.trim();
       const caseId = await ctx.db.insert("cases", {
         caseNumber: args.caseNumber,
         title: args.title,
         status: "active",
         clientName_encrypted: args.clientName_encrypted,
+        clientNumber,
+        conflictCheckId,
         leadAttorneyId: context.userId,
         teamMemberIds: [],
         practiceArea: args.practiceArea,
-        searchableText: `${args.caseNumber} ${args.title}`, // Pre-compute for search
+        searchableText: caseSearchText({ ...args, clientNumber }), // Pre-compute for search
+        version: 1,
         createdAt: Date.now(),
         updatedAt: Date.now(),
       });
       
+      await recordCaseOpened(ctx as MutationCtx, caseId, context.userId);
+      await setBlindIndex(ctx as MutationCtx, caseId, "clientName", args.clientNameIndex);
+      await markConflictCheckUsed(ctx as MutationCtx, conflictCheckId, caseId);
+      for (const party of parties) {
+        await insertCaseParty(ctx as MutationCtx, caseId, party, context.userId);
+      }
+      
       // Queue processing job for future AI features
       await ctx.scheduler.runAfter(0, internal.lib.jobs.createJob, {
         jobType: "case.postProcessing",
@@ -505,4 +1913,575 @@ export const create = mutation({
       return caseId;
     }
   ),
-});
\ No newline at end of file
+});
+// Get a single case
+export const get = query({
+  args: {
+    caseId: v.id("cases"),
+  },
+  returns: v.any(),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["cases.read"] },
+    async (ctx, context, args) => {
+      const c = await getAccessibleCase(ctx, context, args.caseId);
+      
+      return {
+        _id: c._id,
+        caseNumber: c.caseNumber,
+        title: c.title,
+        status: c.status,
+        practiceArea: c.practiceArea,
+        leadAttorneyId: c.leadAttorneyId,
+        teamMemberIds: c.teamMemberIds,
+        firmWide: c.firmWide === true,
+        clientNumber: c.clientNumber,
+        statusReason: c.statusReason,
+        disposition: c.disposition,
+        closedAt: c.closedAt,
+        clientName_encrypted: c.clientName_encrypted,
+        opposingParty_encrypted: c.opposingParty_encrypted,
+        version: c.version,
+        createdAt: c.createdAt,
+        updatedAt: c.updatedAt,
+      };
+    }
+  ),
+});
+
+// Update editable case fields. Writes based on a stale read are rejected.
+// Parties are only added through addParty, which runs the conflict check.
+export const update = mutation({
+  args: {
+    caseId: v.id("cases"),
+    expectedVersion: v.number(), // version of the case being edited
+    title: v.optional(v.string()),
+    practiceArea: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "case.updated",
+      rateLimit: "write",
+      requires: ["cases.write"],
+    },
+    async (ctx, context, args) => {
+      const c = await getAccessibleCase(ctx, context, args.caseId);
+      assertCaseEditable(c);
+      
+      const changes = await patchCase(ctx as MutationCtx, c, {
+        title: args.title ?? c.title,
+        practiceArea: args.practiceArea ?? c.practiceArea,
+      }, args.expectedVersion);
+      
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { changes },
+      };
+      return null;
+    }
+  ),
+});
+
+async function hasDocuments(ctx: QueryCtx, caseId: Id<"cases">) {
+  const document = await ctx.db
+    .query("documents")
+    .withIndex("by_case", (q) => q.eq("caseId", caseId))
+    .first();
+  return document !== null;
+}
+
+// Delete an open case that has no documents. The case is hidden straight
+// away and purged once the restore window has passed.
+export const remove = mutation({
+  args: {
+    caseId: v.id("cases"),
+    expectedVersion: v.number(),
+  },
+  returns: v.object({ restoreDeadline: v.number() }),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "case.deleted",
+      rateLimit: "write",
+      requires: ["cases.delete"],
+    },
+    async (ctx, context, args) => {
+      const c = await getAccessibleCase(ctx, context, args.caseId);
+      assertCaseEditable(c);
+      
+      if (await hasDocuments(ctx, args.caseId)) {
+        throw codedError("invalid_state", "Case has documents and cannot be deleted");
+      }
+      
+      const deletedAt = Date.now();
+      const changes = await patchCase(ctx as MutationCtx, c, {
+        deletedAt,
+        deletedBy: context.userId,
+      }, args.expectedVersion);
+      
+      await ctx.scheduler.runAfter(RESTORE_WINDOW_MS, internal.cases.purgeDeleted, {
+        caseId: args.caseId,
+        deletedAt,
+      });
+      
+      const restoreDeadline = deletedAt + RESTORE_WINDOW_MS;
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { changes, restoreDeadline },
+      };
+      return { restoreDeadline };
+    }
+  ),
+});
+
+// Bring back a deleted case within its restore window
+export const restore = mutation({
+  args: {
+    caseId: v.id("cases"),
+    expectedVersion: v.number(),
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "case.restored",
+      rateLimit: "write",
+      requires: ["cases.delete"],
+    },
+    async (ctx, context, args) => {
+      const c = await getAccessibleCase(ctx, context, args.caseId, true);
+      
+      if (c.deletedAt === undefined) {
+        throw codedError("invalid_state", `Case ${c.caseNumber} is not deleted`);
+      }
+      if (Date.now() > c.deletedAt + RESTORE_WINDOW_MS) {
+        throw codedError("invalid_state", `Restore window for case ${c.caseNumber} has expired`);
+      }
+      
+      const changes = await patchCase(ctx as MutationCtx, c, {
+        deletedAt: undefined,
+        deletedBy: undefined,
+      }, args.expectedVersion);
+      
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { changes },
+      };
+      return null;
+    }
+  ),
+});
+
+// Deleted cases the caller can still restore, most recent first
+export const listDeleted = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: pageValidator(v.any()),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["cases.delete"] },
+    async (ctx, context, args) => {
+      const results = await ctx.db
+        .query("cases")
+        .withIndex("by_deleted_at", (q) => q.gt("deletedAt", Date.now() - RESTORE_WINDOW_MS))
+        .order("desc")
+        .paginate(boundedPage(args.paginationOpts));
+      
+      return {
+        page: results.page
+          .filter(c => canAccessCase(context, c, true))
+          .map(c => ({
+            ...toListItem(c),
+            deletedAt: c.deletedAt,
+            deletedBy: c.deletedBy,
+            restoreDeadline: c.deletedAt! + RESTORE_WINDOW_MS,
+          })),
+        isDone: results.isDone,
+        continueCursor: results.continueCursor,
+      };
+    }
+  ),
+});
+
+// Scheduled by remove. A case restored (or deleted again) since then carries
+// a different deletedAt and is left alone.
+export const purgeDeleted = internalMutation({
+  args: {
+    caseId: v.id("cases"),
+    deletedAt: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const c = await ctx.db.get(args.caseId);
+    if (!c || c.deletedAt !== args.deletedAt) return null;
+    
+    // Documents cannot be added to a deleted case, but never orphan them
+    if (await hasDocuments(ctx, args.caseId)) return null;
+    
+    const parties = await ctx.db
+      .query("caseParties")
+      .withIndex("by_case", (q) => q.eq("caseId", args.caseId))
+      .collect();
+    for (const party of parties) {
+      await removePartyNameIndexes(ctx, party._id);
+      await ctx.db.delete(party._id);
+    }
+    
+    // The timeline stays on record, closed by a last entry
+    await ctx.db.insert("caseTimeline", {
+      caseId: args.caseId,
+      eventType: "purged",
+      fromStatus: c.status,
+      toStatus: c.status,
+      reason: `Case ${c.caseNumber} purged after its restore window`,
+      actorId: c.deletedBy!,
+      createdAt: Date.now(),
+    });
+    
+    await removeBlindIndexes(ctx, args.caseId);
+    await ctx.db.delete(args.caseId);
+    
+    await ctx.db.insert("auditLogs", {
+      action: "case.purged",
+      resourceType: "case",
+      resourceId: args.caseId,
+      metadata: { caseNumber: c.caseNumber, deletedAt: c.deletedAt, deletedBy: c.deletedBy },
+      ipAddress: "internal",
+      userAgent: "scheduler",
+      createdAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+// Only the lead attorney or someone who sees every case may change the team,
+// and only while the case is open
+async function getManageableCase(ctx: QueryCtx, context: BaseContext, caseId: Id<"cases">) {
+  const c = await getAccessibleCase(ctx, context, caseId);
+  if (c.leadAttorneyId !== context.userId && !seesAllCases(context)) {
+    throw codedError("permission_denied", "Only the lead attorney can manage this case's team");
+  }
+  assertCaseEditable(c);
+  return c;
+}
+
+// Add a user to a case team
+export const addTeamMember = mutation({
+  args: {
+    caseId: v.id("cases"),
+    userId: v.id("users"),
+    expectedVersion: v.number(),
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "case.team_member_added",
+      rateLimit: "write",
+      requires: ["cases.write"],
+    },
+    async (ctx, context, args) => {
+      const c = await getManageableCase(ctx, context, args.caseId);
+      
+      const user = await ctx.db.get(args.userId);
+      if (!user || !user.isActive) throw codedError("not_found", "User not found");
+      
+      const alreadyOnTeam = c.leadAttorneyId === args.userId || c.teamMemberIds.includes(args.userId);
+      const changes = await patchCase(ctx as MutationCtx, c, {
+        teamMemberIds: alreadyOnTeam ? c.teamMemberIds : [...c.teamMemberIds, args.userId],
+      }, args.expectedVersion);
+      
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { memberId: args.userId, changes },
+      };
+      return null;
+    }
+  ),
+});
+
+// Remove a user from a case team
+export const removeTeamMember = mutation({
+  args: {
+    caseId: v.id("cases"),
+    userId: v.id("users"),
+    expectedVersion: v.number(),
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "case.team_member_removed",
+      rateLimit: "write",
+      requires: ["cases.write"],
+    },
+    async (ctx, context, args) => {
+      const c = await getManageableCase(ctx, context, args.caseId);
+      
+      if (!c.teamMemberIds.includes(args.userId)) {
+        throw codedError("not_found", "User is not on this case team");
+      }
+      
+      const changes = await patchCase(ctx as MutationCtx, c, {
+        teamMemberIds: c.teamMemberIds.filter(id => id !== args.userId),
+      }, args.expectedVersion);
+      
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { memberId: args.userId, changes },
+      };
+      return null;
+    }
+  ),
+});
+
+// Make a case visible to every firm user, or back to team-only
+export const setFirmWide = mutation({
+  args: {
+    caseId: v.id("cases"),
+    firmWide: v.boolean(),
+    expectedVersion: v.number(),
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "case.visibility_changed",
+      rateLimit: "write",
+      requires: ["cases.write"],
+    },
+    async (ctx, context, args) => {
+      const c = await getManageableCase(ctx, context, args.caseId);
+      
+      const changes = await patchCase(ctx as MutationCtx, c, {
+        firmWide: args.firmWide,
+      }, args.expectedVersion);
+      
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { changes },
+      };
+      return null;
+    }
+  ),
+});
+
+// Add a party to an existing matter (conflict-checked like a new matter)
+export const addParty = mutation({
+  args: {
+    caseId: v.id("cases"),
+    name_encrypted: v.string(),
+    nameIndex: blindIndexValidator, // Under PARTY_NAME_FIELD, see lib/blindIndex.ts
+    role: v.string(), // "client" | "opposing_party" | "related_party"
+    aliases_encrypted: v.optional(v.array(v.string())),
+    aliasIndexes: v.optional(v.array(blindIndexValidator)), // One per alias, in the same order
+    conflictCheckId: v.optional(v.id("conflictChecks")),
+  },
+  returns: v.id("caseParties"),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "case.party_added",
+      rateLimit: "write",
+      requires: ["cases.write"],
+    },
+    async (ctx, context, args) => {
+      assertCaseEditable(await getAccessibleCase(ctx, context, args.caseId));
+      
+      const party = {
+        name_encrypted: args.name_encrypted,
+        nameIndex: args.nameIndex,
+        role: args.role,
+        aliases_encrypted: args.aliases_encrypted,
+        aliasIndexes: args.aliasIndexes,
+      };
+      const conflictCheckId = await resolveConflictClearance(
+        ctx as MutationCtx, context, [party], args.conflictCheckId, args.caseId
+      );
+      await markConflictCheckUsed(ctx as MutationCtx, conflictCheckId, args.caseId);
+      
+      const partyId = await insertCaseParty(ctx as MutationCtx, args.caseId, party, context.userId);
+      
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { partyId, role: args.role, conflictCheckId },
+      };
+      return partyId;
+    }
+  ),
+});
+
+export const listParties = query({
+  args: {
+    caseId: v.id("cases"),
+  },
+  returns: v.array(v.object({
+    _id: v.id("caseParties"),
+    name_encrypted: v.string(),
+    role: v.string(),
+    aliases_encrypted: v.array(v.string()),
+    createdAt: v.number(),
+  })),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["cases.read"] },
+    async (ctx, context, args) => {
+      await getAccessibleCase(ctx, context, args.caseId);
+      
+      const parties = await ctx.db
+        .query("caseParties")
+        .withIndex("by_case", (q) => q.eq("caseId", args.caseId))
+        .collect();
+      
+      return parties.map(p => ({
+        _id: p._id,
+        name_encrypted: p.name_encrypted,
+        role: p.role,
+        aliases_encrypted: p.aliases_encrypted,
+        createdAt: p.createdAt,
+      }));
+    }
+  ),
+});
+
+const transitionArgs = {
+  caseId: v.id("cases"),
+  expectedVersion: v.number(), // version of the case being transitioned
+  reason: v.string(),
+};
+
+// Close a matter: documents get a retention date and the case is locked
+// and dropped from default lists
+export const close = mutation({
+  args: {
+    ...transitionArgs,
+    disposition: v.string(), // See CLOSING_DISPOSITIONS
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "case.closed",
+      rateLimit: "write",
+      requires: ["cases.close"],
+    },
+    async (ctx, context, args) => {
+      const c = await getAccessibleCase(ctx, context, args.caseId);
+      const changes = await transitionCase(ctx as MutationCtx, c, "closed", {
+        reason: args.reason,
+        disposition: args.disposition,
+        actorId: context.userId,
+        expectedVersion: args.expectedVersion,
+      });
+      
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { disposition: args.disposition, reason: args.reason, changes },
+      };
+      return null;
+    }
+  ),
+});
+
+// Reopen a closed or archived matter (clears the retention dates)
+export const reopen = mutation({
+  args: transitionArgs,
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "case.reopened",
+      rateLimit: "write",
+      requires: ["cases.close"],
+    },
+    async (ctx, context, args) => {
+      const c = await getAccessibleCase(ctx, context, args.caseId);
+      const changes = await transitionCase(ctx as MutationCtx, c, "active", {
+        reason: args.reason,
+        actorId: context.userId,
+        expectedVersion: args.expectedVersion,
+      });
+      
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { fromStatus: c.status, reason: args.reason, changes },
+      };
+      return null;
+    }
+  ),
+});
+
+// Move a closed matter to long-term storage
+export const archive = mutation({
+  args: transitionArgs,
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "case.archived",
+      rateLimit: "write",
+      requires: ["cases.archive"],
+    },
+    async (ctx, context, args) => {
+      const c = await getAccessibleCase(ctx, context, args.caseId);
+      const changes = await transitionCase(ctx as MutationCtx, c, "archived", {
+        reason: args.reason,
+        actorId: context.userId,
+        expectedVersion: args.expectedVersion,
+      });
+      
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { reason: args.reason, changes },
+      };
+      return null;
+    }
+  ),
+});
+
+// Lifecycle events of a case, oldest first
+export const getTimeline = query({
+  args: {
+    caseId: v.id("cases"),
+  },
+  returns: v.array(v.object({
+    eventType: v.string(),
+    fromStatus: v.optional(v.string()),
+    toStatus: v.string(),
+    reason: v.string(),
+    disposition: v.optional(v.string()),
+    actorId: v.id("users"),
+    createdAt: v.number(),
+  })),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["cases.read"] },
+    async (ctx, context, args) => {
+      await getAccessibleCase(ctx, context, args.caseId);
+      
+      const events = await ctx.db
+        .query("caseTimeline")
+        .withIndex("by_case", (q) => q.eq("caseId", args.caseId))
+        .collect();
+      
+      return events.map(e => ({
+        eventType: e.eventType,
+        fromStatus: e.fromStatus,
+        toStatus: e.toStatus,
+        reason: e.reason,
+        disposition: e.disposition,
+        actorId: e.actorId,
+        createdAt: e.createdAt,
+      }));
+    }
+  ),
+});
@@ -0,0 +1,865 @@
+// ================================================
+// ETHICAL WALLS
+// ================================================
+// client-template/convex/ethicalWalls.ts
+
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query } from "./_generated/server";
+import { wrapApi } from "./lib/apiWrapper";
+import { codedError } from "./lib/errors";
+import { screeningWall } from "./lib/ethicalWalls";
+import { boundedPage, pageValidator } from "./lib/pagination";
+
+const BLOCKED_ACCESS_ACTION = "ethical_wall.access_blocked";
+
+const wallValidator = v.object({
+  _id: v.id("ethicalWalls"),
+  name: v.string(),
+  reason: v.string(),
+  screenedUserIds: v.array(v.id("users")),
+  caseIds: v.array(v.id("cases")),
+  clientNumbers: v.array(v.string()),
+  status: v.string(),
+  createdBy: v.id("users"),
+  createdAt: v.number(),
+  liftedBy: v.optional(v.id("users")),
+  liftedAt: v.optional(v.number()),
+  liftReason: v.optional(v.string()),
+});
+
+// Screen users from cases and/or every matter of a client
+export const create = mutation({
+  args: {
+    name: v.string(),
+    reason: v.string(),
+    screenedUserIds: v.array(v.id("users")),
+    caseIds: v.array(v.id("cases")),
+    clientNumbers: v.array(v.string()),
+  },
+  returns: v.id("ethicalWalls"),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "ethical_wall.created",
+      requires: ["walls.manage"],
+    },
+    async (ctx, context, args) => {
+      if (!args.reason.trim()) throw codedError("invalid_argument", "A reason is required");
+      if (args.screenedUserIds.length === 0) {
+        throw codedError("invalid_argument", "An ethical wall must screen at least one user");
+      }
+      if (args.caseIds.length === 0 && args.clientNumbers.length === 0) {
+        throw codedError("invalid_argument", "An ethical wall must cover at least one case or client");
+      }
+      if (args.screenedUserIds.includes(context.userId)) {
+        throw codedError("permission_denied", "You cannot manage a wall that screens yourself");
+      }
+      
+      for (const userId of args.screenedUserIds) {
+        if (!(await ctx.db.get(userId))) throw codedError("not_found", "User not found");
+      }
+      for (const caseId of args.caseIds) {
+        if (!(await ctx.db.get(caseId))) throw codedError("not_found", "Case not found");
+      }
+      
+      const wallId = await ctx.db.insert("ethicalWalls", {
+        name: args.name,
+        reason: args.reason,
+        screenedUserIds: args.screenedUserIds,
+        caseIds: args.caseIds,
+        clientNumbers: args.clientNumbers.map(n => n.trim()),
+        status: "active",
+        createdBy: context.userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      
+      context.audit = {
+        resourceType: "ethical_wall",
+        resourceId: wallId,
+        metadata: {
+          screenedUserIds: args.screenedUserIds,
+          caseIds: args.caseIds,
+          clientNumbers: args.clientNumbers,
+        },
+      };
+      return wallId;
+    }
+  ),
+});
+
+// Lift a wall. Walls are never deleted so the screen stays on record.
+export const lift = mutation({
+  args: {
+    wallId: v.id("ethicalWalls"),
+    reason: v.string(),
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "ethical_wall.lifted",
+      requires: ["walls.manage"],
+    },
+    async (ctx, context, args) => {
+      const wall = await ctx.db.get(args.wallId);
+      if (!wall) throw codedError("not_found", "Ethical wall not found");
+      if (wall.status !== "active") throw codedError("invalid_state", "Ethical wall is not active");
+      if (!args.reason.trim()) throw codedError("invalid_argument", "A reason is required");
+      if (wall.screenedUserIds.includes(context.userId)) {
+        throw codedError("permission_denied", "You cannot manage a wall that screens yourself");
+      }
+      
+      await ctx.db.patch(args.wallId, {
+        status: "lifted",
+        liftedBy: context.userId,
+        liftedAt: Date.now(),
+        liftReason: args.reason,
+        updatedAt: Date.now(),
+      });
+      
+      context.audit = {
+        resourceType: "ethical_wall",
+        resourceId: args.wallId,
+        metadata: { reason: args.reason },
+      };
+      return null;
+    }
+  ),
+});
+
+export const list = query({
+  args: {
+    status: v.optional(v.string()), // "active" | "lifted"
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: pageValidator(wallValidator),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["walls.read"] },
+    async (ctx, context, args) => {
+      const walls = args.status ?
+        ctx.db
+          .query("ethicalWalls")
+          .withIndex("by_status", (q) => q.eq("status", args.status!)) :
+        ctx.db.query("ethicalWalls");
+      const results = await walls.paginate(boundedPage(args.paginationOpts));
+      
+      return {
+        page: results.page.map(w => ({
+          _id: w._id,
+          name: w.name,
+          reason: w.reason,
+          screenedUserIds: w.screenedUserIds,
+          caseIds: w.caseIds,
+          clientNumbers: w.clientNumbers,
+          status: w.status,
+          createdBy: w.createdBy,
+          createdAt: w.createdAt,
+          liftedBy: w.liftedBy,
+          liftedAt: w.liftedAt,
+          liftReason: w.liftReason,
+        })),
+        isDone: results.isDone,
+        continueCursor: results.continueCursor,
+      };
+    }
+  ),
+});
+
+// Blocked functions are rolled back, so callers report the attempt here
+// after receiving the wall error (the gateway does for every route). The
+// report is only accepted when the wall really screens the caller from the
+// case, so it cannot be used to plant entries about other users.
+export const recordBlockedAccess = mutation({
+  args: {
+    wallId: v.id("ethicalWalls"),
+    caseId: v.id("cases"),
+    resource: v.string(), // Function or route that was attempted
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: BLOCKED_ACCESS_ACTION,
+    },
+    async (ctx, context, args) => {
+      const c = await ctx.db.get(args.caseId);
+      if (!c || screeningWall(context.screens, c) !== args.wallId) {
+        throw codedError("invalid_argument", "Invalid blocked access report");
+      }
+      
+      // Raised for compliance review (acknowledged from the SOC dashboard)
+      await ctx.db.insert("systemEvents", {
+        eventType: "security",
+        severity: "high",
+        source: "ethical_walls",
+        message: `Screened user attempted to access case ${c.caseNumber}`,
+        eventData: {
+          wallId: args.wallId,
+          caseId: args.caseId,
+          userId: context.userId,
+          resource: args.resource,
+        },
+        acknowledged: false,
+        createdAt: Date.now(),
+      });
+      
+      context.audit = {
+        resourceType: "case",
+        resourceId: args.caseId,
+        metadata: { wallId: args.wallId, resource: args.resource },
+      };
+      return null;
+    }
+  ),
+});
+
+// Blocked access attempts for compliance review, newest first
+export const listBlockedAccess = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(v.object({
+    userId: v.optional(v.id("users")),
+    caseId: v.optional(v.string()),
+    wallId: v.optional(v.string()),
+    resource: v.optional(v.string()),
+    createdAt: v.number(),
+  })),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["audit.read"] },
+    async (ctx, context, args) => {
+      const entries = await ctx.db
+        .query("auditLogs")
+        .withIndex("by_action", (q) => q.eq("action", BLOCKED_ACCESS_ACTION))
+        .order("desc")
+        .take(Math.min(args.limit || 100, 500));
+      
+      return entries.map(e => ({
+        userId: e.userId,
+        caseId: e.resourceId,
+        wallId: e.metadata?.wallId,
+        resource: e.metadata?.resource,
+        createdAt: e.createdAt,
+      }));
+    }
+  ),
+});
+
+// ================================================
+// CONFLICT OF INTEREST MATCHING
+// ================================================
+// client-template/convex/lib/conflicts.ts
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { BaseContext } from "./apiWrapper";
+import { addNameIndexes, BlindIndex, NameIndexEntry, NameIndexOwner } from "./blindIndex";
+import { codedError } from "./errors";
+import { screeningWall } from "./ethicalWalls";
+import { assertEncryptedFields } from "./fieldEncryption";
+
+export const CONFLICT_DECISIONS = ["cleared", "waived", "declined"] as const;
+
+export type ConflictDecision = typeof CONFLICT_DECISIONS[number];
+
+// Scores below this are not reported
+export const MATCH_THRESHOLD = 0.82;
+
+// Index entries read per hash of a subject's name
+const CANDIDATES_PER_HASH = 50;
+
+// Scores of names matched on some words only (see hashedNameScore)
+const CONTAINED_NAME_SCORE = 0.85;
+const PHONETIC_WEIGHT = 0.85;
+
+const LEGAL_SUFFIXES = new Set([
+  "inc", "incorporated", "llc", "llp", "pllc", "lp", "ltd", "limited",
+  "corp", "corporation", "co", "company", "pc", "pa", "plc", "the",
+]);
+
+// Names arrive encrypted with their blind index under PARTY_NAME_FIELD,
+// both added by the gateway
+export interface ConflictSubject {
+  name_encrypted: string;
+  nameIndex: BlindIndex;
+  role: string; // "client" | "opposing_party" | "related_party"
+}
+
+export interface ConflictHit {
+  subjectName: string; // Encrypted
+  subjectRole: string;
+  source: string; // "party" | "entity"
+  sourceId: string;
+  // Both withheld when restricted
+  matchedName?: string; // Party hits; encrypted like the party's name
+  matchedEntityName?: string; // Entity hits; plaintext like the entity's name
+  score: number; // 0..1
+  severity: string; // "high" | "medium" | "low"
+  caseId?: Id<"cases">;
+  caseNumber?: string;
+  partyRole?: string;
+  entityType?: string;
+  restricted: boolean; // Behind an ethical wall for the reader; details withheld
+}
+
+// Lowercase, strip punctuation and company suffixes
+export function normalizeName(name: string) {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(token => token && !LEGAL_SUFFIXES.has(token))
+    .join(" ");
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  
+  return previous[b.length];
+}
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: "1", f: "1", p: "1", v: "1",
+  c: "2", g: "2", j: "2", k: "2", q: "2", s: "2", x: "2", z: "2",
+  d: "3", t: "3",
+  l: "4",
+  m: "5", n: "5",
+  r: "6",
+};
+
+// American Soundex of a normalized word, so "jonh" and "john" (both j500)
+// or "smith" and "smyth" share a code. Words with digits have none.
+export function soundex(word: string) {
+  if (!/^[a-z]+$/.test(word)) return undefined;
+  
+  let code = word[0];
+  let previous = SOUNDEX_CODES[word[0]] ?? "";
+  for (const letter of word.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] ?? "";
+    if (digit && digit !== previous) code += digit;
+    // Vowels separate equal codes; h and w do not
+    if (letter !== "h" && letter !== "w") previous = digit;
+  }
+  return (code + "000").slice(0, 4);
+}
+
+// Best of edit-distance similarity and sorted-token similarity, so both
+// typos ("Jonh Smith") and reordering ("Smith, John") match
+export function nameSimilarity(a: string, b: string) {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  
+  const ratio = (s: string, t: string) =>
+    1 - levenshtein(s, t) / Math.max(s.length, t.length);
+  const sorted = (s: string) => s.split(" ").sort().join(" ");
+  
+  return Math.max(ratio(x, y), ratio(sorted(x), sorted(y)));
+}
+
+// Acting for a client against someone already on the other side (or the
+// reverse) is the conflict that matters most
+function severityFor(subjectRole: string, partyRole: string | undefined, score: number) {
+  const adverse =
+    (subjectRole === "client" && partyRole === "opposing_party") ||
+    (subjectRole === "opposing_party" && partyRole === "client");
+  
+  if (adverse && score >= 0.9) return "high";
+  if (adverse || score >= 0.95) return "medium";
+  return "low";
+}
+
+// Conflict checks only see hashes of the names (see lib/blindIndex.ts), so
+// names are compared word by word. Whole names that match score 1, others
+// the best of
+// - the share of the longer name's words the two have in common, so
+//   reordering ("Smith, John") matches
+// - CONTAINED_NAME_SCORE when every word of a name of two or more words is
+//   in the other, so extra words ("John Smith Jr") match
+// - the share of the longer name's words that sound alike, discounted by
+//   PHONETIC_WEIGHT, so misspellings ("Jonh Smith") match. Names indexed
+//   before Soundex codes were hashed only match on their words.
+function hashedNameScore(
+  subject: BlindIndex,
+  candidate: { exact: boolean; tokens: number; phonetic: number; nameTokens: number }
+) {
+  if (candidate.exact) return 1;
+  const words = Math.max(subject.tokens.length, candidate.nameTokens);
+  const shorter = Math.min(subject.tokens.length, candidate.nameTokens);
+  if (!words) return 0;
+  
+  return Math.max(
+    candidate.tokens / words,
+    shorter >= 2 && candidate.tokens >= shorter ? CONTAINED_NAME_SCORE : 0,
+    PHONETIC_WEIGHT * Math.min(candidate.phonetic / words, 1)
+  );
+}
+
+// Best score per party or entity over its name and aliases, from the index
+// entries sharing a hash with the subject's name
+export function scoreNameMatches(subject: BlindIndex, entries: NameIndexEntry[]) {
+  const variants = new Map<string, {
+    owner: NameIndexOwner;
+    variant: number;
+    exact: boolean;
+    tokens: number;
+    phonetic: number;
+    nameTokens: number;
+  }>();
+  
+  for (const entry of entries) {
+    const owner: NameIndexOwner = entry.partyId ? { partyId: entry.partyId } : { entityId: entry.entityId! };
+    const key = `${entry.partyId ?? entry.entityId}:${entry.variant}`;
+    const variant = variants.get(key) ??
+      { owner, variant: entry.variant, exact: false, tokens: 0, phonetic: 0, nameTokens: entry.nameTokens };
+    
+    if (entry.kind === "exact") variant.exact = true;
+    else if (entry.kind === "phonetic") variant.phonetic++;
+    else variant.tokens++;
+    variants.set(key, variant);
+  }
+  
+  const best = new Map<string, { owner: NameIndexOwner; variant: number; score: number }>();
+  for (const candidate of variants.values()) {
+    const id = "partyId" in candidate.owner ? candidate.owner.partyId : candidate.owner.entityId;
+    const score = hashedNameScore(subject, candidate);
+    if (score > (best.get(id)?.score ?? 0)) {
+      best.set(id, { owner: candidate.owner, variant: candidate.variant, score });
+    }
+  }
+  return [...best.values()].filter(match => match.score >= MATCH_THRESHOLD);
+}
+
+async function matchNameIndex(ctx: QueryCtx, subject: BlindIndex) {
+  const entries: NameIndexEntry[] = [];
+  for (const hash of [subject.exact, ...subject.tokens, ...(subject.phonetic ?? [])]) {
+    entries.push(...await ctx.db
+      .query("nameIndexEntries")
+      .withIndex("by_hash", (q) => q.eq("hash", hash))
+      .take(CANDIDATES_PER_HASH));
+  }
+  return scoreNameMatches(subject, entries);
+}
+
+// Search parties on existing cases and extracted entities (including
+// aliases) for each subject's name. Names are matched on their keyed hashes,
+// so the plaintext never reaches the tenant.
+export async function findConflicts(
+  ctx: QueryCtx,
+  context: BaseContext,
+  subjects: ConflictSubject[],
+  excludeCaseId?: Id<"cases">
+): Promise<ConflictHit[]> {
+  const hits: ConflictHit[] = [];
+  const caseCache = new Map<string, any>();
+  
+  const loadCase = async (caseId: Id<"cases">) => {
+    if (!caseCache.has(caseId)) caseCache.set(caseId, await ctx.db.get(caseId));
+    return caseCache.get(caseId);
+  };
+  
+  for (const subject of subjects) {
+    for (const match of await matchNameIndex(ctx, subject.nameIndex)) {
+      const score = Math.round(match.score * 1000) / 1000;
+    
+      if ("partyId" in match.owner) {
+        const party = await ctx.db.get(match.owner.partyId);
+        if (!party || party.caseId === excludeCaseId) continue;
+    
+        const c = await loadCase(party.caseId);
+        if (!c) continue;
+        const restricted = !!screeningWall(context.screens, c);
+      
+        hits.push({
+          subjectName: subject.name_encrypted,
+          subjectRole: subject.role,
+          source: "party",
+          sourceId: party._id,
+          matchedName: restricted ? undefined : [party.name_encrypted, ...party.aliases_encrypted][match.variant],
+          score,
+          severity: severityFor(subject.role, party.role, match.score),
+          caseId: restricted ? undefined : party.caseId,
+          caseNumber: restricted ? undefined : c.caseNumber,
+          partyRole: party.role,
+          restricted,
+        });
+        continue;
+      }
+      
+      const entity = await ctx.db.get(match.owner.entityId);
+      if (!entity || (entity.caseId && entity.caseId === excludeCaseId)) continue;
+      
+      const c = entity.caseId ? await loadCase(entity.caseId) : null;
+      const restricted = !!(c && screeningWall(context.screens, c));
+      
+      hits.push({
+        subjectName: subject.name_encrypted,
+        subjectRole: subject.role,
+        source: "entity",
+        sourceId: entity._id,
+        matchedEntityName: restricted ? undefined : [entity.name, ...(entity.aliases || [])][match.variant],
+        score,
+        severity: severityFor(subject.role, entity.attributes?.role, match.score),
+        caseId: restricted ? undefined : entity.caseId,
+        caseNumber: restricted ? undefined : c?.caseNumber,
+        partyRole: entity.attributes?.role,
+        entityType: entity.entityType,
+        restricted,
+      });
+    }
+  }
+  
+  const rank = { high: 0, medium: 1, low: 2 } as Record<string, number>;
+  return hits.sort((a, b) => rank[a.severity] - rank[b.severity] || b.score - a.score);
+}
+
+// Withhold the details of stored hits on matters the reader is screened
+// from. Hits were only screened for the requester when the check ran.
+export async function screenConflictHits(
+  ctx: QueryCtx,
+  context: BaseContext,
+  hits: ConflictHit[]
+): Promise<ConflictHit[]> {
+  const screened = new Map<string, boolean>();
+  const result: ConflictHit[] = [];
+  
+  for (const hit of hits) {
+    if (hit.restricted || !hit.caseId) {
+      result.push(hit);
+      continue;
+    }
+    
+    if (!screened.has(hit.caseId)) {
+      const c = await ctx.db.get(hit.caseId);
+      screened.set(hit.caseId, !!(c && screeningWall(context.screens, c)));
+    }
+    result.push(screened.get(hit.caseId)
+      ? {
+        ...hit,
+        matchedName: undefined,
+        matchedEntityName: undefined,
+        caseId: undefined,
+        caseNumber: undefined,
+        restricted: true,
+      }
+      : hit);
+  }
+  return result;
+}
+
+async function insertConflictCheck(
+  ctx: MutationCtx,
+  context: BaseContext,
+  subjects: ConflictSubject[],
+  hits: ConflictHit[],
+  caseId?: Id<"cases">
+) {
+  const now = Date.now();
+  
+  return await ctx.db.insert("conflictChecks", {
+    caseId,
+    subjects,
+    hits,
+    hitCount: hits.length,
+    status: hits.length ? "pending" : "cleared",
+    requestedBy: context.userId,
+    ...(hits.length ? {} : {
+      decidedBy: context.userId,
+      decidedAt: now,
+      decisionNotes: "No potential conflicts found",
+    }),
+    createdAt: now,
+  });
+}
+
+// Run a check and keep the report. Checks without hits are cleared on the
+// spot; anything else waits for a decision.
+export async function recordConflictCheck(
+  ctx: MutationCtx,
+  context: BaseContext,
+  subjects: ConflictSubject[],
+  caseId?: Id<"cases">
+) {
+  assertEncryptedFields(subjects, ["[].name_encrypted"]);
+  
+  const hits = await findConflicts(ctx, context, subjects, caseId);
+  const checkId = await insertConflictCheck(ctx, context, subjects, hits, caseId);
+  return { checkId, hits };
+}
+
+// The check that allows opening a matter or adding parties: either an
+// explicit cleared or waived check covering every name, or, when the names
+// have no hits at all, one recorded and cleared on the spot
+export async function resolveConflictClearance(
+  ctx: MutationCtx,
+  context: BaseContext,
+  subjects: ConflictSubject[],
+  checkId?: Id<"conflictChecks">,
+  caseId?: Id<"cases">
+) {
+  assertEncryptedFields(subjects, ["[].name_encrypted"]);
+  
+  if (!checkId) {
+    const hits = await findConflicts(ctx, context, subjects, caseId);
+    if (hits.length) {
+      throw codedError(
+        "conflict_check_required",
+        `Potential conflicts found (${hits.length}); run a conflict check and record a decision first`
+      );
+    }
+    return await insertConflictCheck(ctx, context, subjects, hits, caseId);
+  }
+  
+  const check = await ctx.db.get(checkId);
+  if (!check) throw codedError("not_found", "Conflict check not found");
+  if (check.status !== "cleared" && check.status !== "waived") {
+    throw codedError("conflict_check_invalid", `Conflict check is ${check.status}`);
+  }
+  if (check.usedAt) throw codedError("conflict_check_invalid", "Conflict check has already been used");
+  if (check.caseId && check.caseId !== caseId) {
+    throw codedError("conflict_check_invalid", "Conflict check was run for a different case");
+  }
+  
+  const searched = new Set(check.subjects.map(s => s.nameIndex.exact));
+  const unchecked = subjects.filter(s => !searched.has(s.nameIndex.exact));
+  if (unchecked.length) {
+    throw codedError("conflict_check_invalid", `Conflict check does not cover ${unchecked.length} of the names`);
+  }
+  
+  return checkId;
+}
+
+export interface NewCaseParty extends ConflictSubject {
+  aliases_encrypted?: string[];
+  aliasIndexes?: BlindIndex[]; // One per alias, in the same order
+}
+
+export async function insertCaseParty(
+  ctx: MutationCtx,
+  caseId: Id<"cases">,
+  party: NewCaseParty,
+  addedBy: Id<"users">
+) {
+  assertEncryptedFields(party, ["aliases_encrypted[]"]);
+  
+  const aliases = party.aliases_encrypted || [];
+  const aliasIndexes = party.aliasIndexes || [];
+  if (aliasIndexes.length !== aliases.length) {
+    throw codedError("invalid_argument", "Every alias needs its blind index");
+  }
+  
+  const partyId = await ctx.db.insert("caseParties", {
+    caseId,
+    role: party.role,
+    name_encrypted: party.name_encrypted,
+    aliases_encrypted: aliases,
+    addedBy,
+    createdAt: Date.now(),
+  });
+  await addNameIndexes(ctx, { partyId }, [party.nameIndex, ...aliasIndexes]);
+  
+  return partyId;
+}
+
+// Link the check to the matter it cleared; a check is only used once
+export async function markConflictCheckUsed(
+  ctx: MutationCtx,
+  checkId: Id<"conflictChecks">,
+  caseId: Id<"cases">
+) {
+  await ctx.db.patch(checkId, { caseId, usedAt: Date.now() });
+}
+
+// ================================================
+// CONFLICT CHECK FUNCTIONS
+// ================================================
+// client-template/convex/conflicts.ts
+
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { wrapApi } from "./lib/apiWrapper";
+import { blindIndexValidator } from "./lib/blindIndex";
+import { CONFLICT_DECISIONS, recordConflictCheck, screenConflictHits } from "./lib/conflicts";
+import { codedError } from "./lib/errors";
+import { boundedPage, pageValidator } from "./lib/pagination";
+
+const subjectValidator = v.object({
+  name_encrypted: v.string(),
+  nameIndex: blindIndexValidator, // Under PARTY_NAME_FIELD, see lib/blindIndex.ts
+  role: v.string(), // "client" | "opposing_party" | "related_party"
+});
+
+const conflictCheckValidator = v.object({
+  _id: v.id("conflictChecks"),
+  caseId: v.optional(v.id("cases")),
+  subjects: v.array(subjectValidator),
+  hits: v.array(v.any()),
+  hitCount: v.number(),
+  status: v.string(),
+  requestedBy: v.id("users"),
+  decidedBy: v.optional(v.id("users")),
+  decidedAt: v.optional(v.number()),
+  decisionNotes: v.optional(v.string()),
+  createdAt: v.number(),
+});
+
+// Search for conflicts before opening a matter or adding a party
+export const run = mutation({
+  args: {
+    subjects: v.array(subjectValidator),
+    caseId: v.optional(v.id("cases")), // Existing matter when adding a party
+  },
+  returns: v.object({
+    checkId: v.id("conflictChecks"),
+    status: v.string(),
+    hits: v.array(v.any()),
+  }),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "conflict_check.run",
+      rateLimit: "write",
+      requires: ["conflicts.run"],
+    },
+    async (ctx, context, args) => {
+      if (args.subjects.length === 0) throw codedError("invalid_argument", "Nothing to check");
+      
+      const { checkId, hits } = await recordConflictCheck(ctx as MutationCtx, context, args.subjects, args.caseId);
+      
+      context.audit = {
+        resourceType: "conflict_check",
+        resourceId: checkId,
+        metadata: { subjects: args.subjects.length, hits: hits.length },
+      };
+      return { checkId, status: hits.length ? "pending" : "cleared", hits };
+    }
+  ),
+});
+
+// Record the decision on a check. Decisions are final and checks are never
+// deleted, so every check stays on record.
+export const decide = mutation({
+  args: {
+    checkId: v.id("conflictChecks"),
+    decision: v.string(), // "cleared" | "waived" | "declined"
+    notes: v.string(),
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "conflict_check.decided",
+      requires: ["conflicts.approve"],
+    },
+    async (ctx, context, args) => {
+      if (!(CONFLICT_DECISIONS as readonly string[]).includes(args.decision)) {
+        throw codedError("invalid_argument", `Invalid decision: ${args.decision}`);
+      }
+      if (!args.notes.trim()) throw codedError("invalid_argument", "Decision notes are required");
+      
+      const check = await ctx.db.get(args.checkId);
+      if (!check) throw codedError("not_found", "Conflict check not found");
+      if (check.status !== "pending") {
+        throw codedError("conflict_check_invalid", `Conflict check already ${check.status}`);
+      }
+      if (check.requestedBy === context.userId && args.decision !== "declined") {
+        throw codedError("permission_denied", "Conflicts must be cleared by someone other than the requester");
+      }
+      
+      await ctx.db.patch(args.checkId, {
+        status: args.decision,
+        decidedBy: context.userId,
+        decidedAt: Date.now(),
+        decisionNotes: args.notes,
+      });
+      
+      context.audit = {
+        resourceType: "conflict_check",
+        resourceId: args.checkId,
+        metadata: { decision: args.decision, hits: check.hitCount },
+      };
+      return null;
+    }
+  ),
+});
+
+export const get = query({
+  args: {
+    checkId: v.id("conflictChecks"),
+  },
+  returns: conflictCheckValidator,
+  handler: wrapApi(
+    { requireAuth: true, requires: ["conflicts.run"] },
+    async (ctx, context, args) => {
+      const check = await ctx.db.get(args.checkId);
+      if (!check) throw codedError("not_found", "Conflict check not found");
+      
+      return {
+        _id: check._id,
+        caseId: check.caseId,
+        subjects: check.subjects,
+        hits: await screenConflictHits(ctx, context, check.hits),
+        hitCount: check.hitCount,
+        status: check.status,
+        requestedBy: check.requestedBy,
+        decidedBy: check.decidedBy,
+        decidedAt: check.decidedAt,
+        decisionNotes: check.decisionNotes,
+        createdAt: check.createdAt,
+      };
+    }
+  ),
+});
+
+// Checks waiting for a decision, oldest first
+export const listPending = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: pageValidator(v.object({
+    _id: v.id("conflictChecks"),
+    subjects: v.array(subjectValidator),
+    hitCount: v.number(),
+    requestedBy: v.id("users"),
+    createdAt: v.number(),
+  })),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["conflicts.approve"] },
+    async (ctx, context, args) => {
+      const results = await ctx.db
+        .query("conflictChecks")
+        .withIndex("by_status", (q) => q.eq("status", "pending"))
+        .paginate(boundedPage(args.paginationOpts));
+      
+      return {
+        page: results.page.map(c => ({
+          _id: c._id,
+          subjects: c.subjects,
+          hitCount: c.hitCount,
+          requestedBy: c.requestedBy,
+          createdAt: c.createdAt,
+        })),
+        isDone: results.isDone,
+        continueCursor: results.continueCursor,
+      };
+    }
+  ),
+});
@@ -0,0 +1,185 @@
+// ================================================
+// CONFLICT MATCHING TESTS
+// ================================================
+// client-template/convex/lib/conflicts.test.ts
+
+import { describe, expect, it } from "vitest";
+import { QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { BaseContext } from "./apiWrapper";
+import { computeBlindIndex, importBlindIndexKey, nameIndexRows, PARTY_NAME_FIELD } from "./blindIndex";
+import { ConflictHit, MATCH_THRESHOLD, scoreNameMatches, screenConflictHits, soundex } from "./conflicts";
+
+const key = importBlindIndexKey(new Uint8Array(32).fill(7));
+
+function index(name: string) {
+  return key.then(k => computeBlindIndex(k, PARTY_NAME_FIELD, name));
+}
+
+// Score of a party's name for a conflict check on `subject`, from the index
+// rows the tenant would find by the subject's hashes
+async function score(subject: string, partyName: string) {
+  const subjectIndex = await index(subject);
+  const hashes = new Set([subjectIndex.exact, ...subjectIndex.tokens, ...subjectIndex.phonetic!]);
+  const rows = nameIndexRows({ partyId: "party1" as Id<"caseParties"> }, [await index(partyName)]);
+  
+  const [match] = scoreNameMatches(subjectIndex, rows.filter(row => hashes.has(row.hash)));
+  return match?.score ?? 0;
+}
+
+describe("soundex", () => {
+  it("gives misspellings of a name the same code", () => {
+    expect(soundex("john")).toBe("j500");
+    expect(soundex("jonh")).toBe("j500");
+    expect(soundex("smith")).toBe(soundex("smyth"));
+    expect(soundex("ashcraft")).toBe("a261");
+    expect(soundex("tymczak")).toBe("t522");
+  });
+  
+  it("skips words with digits", () => {
+    expect(soundex("3m")).toBeUndefined();
+  });
+});
+
+describe("conflict name matching", () => {
+  it("matches the same name whatever its case and punctuation", async () => {
+    expect(await score("JOHN SMITH", "John Smith.")).toBe(1);
+  });
+  
+  it("matches reordered names", async () => {
+    expect(await score("Smith, John", "John Smith")).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+  });
+  
+  it("matches a misspelled name", async () => {
+    expect(await score("Jonh Smith", "John Smith")).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+  });
+  
+  it("matches a name with extra suffix words", async () => {
+    expect(await score("John Smith Jr", "John Smith")).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+    expect(await score("John Smith", "John Smith Jr.")).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+  });
+  
+  it("does not match names sharing one word", async () => {
+    expect(await score("John Smith", "John Doe")).toBeLessThan(MATCH_THRESHOLD);
+    expect(await score("Smith", "John Smith")).toBeLessThan(MATCH_THRESHOLD);
+  });
+  
+  it("does not match names that only sound alike in part", async () => {
+    expect(await score("Acme Holdings", "Acme Industries")).toBeLessThan(MATCH_THRESHOLD);
+  });
+});
+
+describe("screenConflictHits", () => {
+  const hit = (caseId?: string): ConflictHit => ({
+    subjectName: "enc:subject",
+    subjectRole: "client",
+    source: "party",
+    sourceId: "party1",
+    matchedName: "enc:name",
+    score: 1,
+    severity: "high",
+    caseId: caseId as Id<"cases"> | undefined,
+    caseNumber: caseId && `2024-${caseId}`,
+    restricted: false,
+  });
+  
+  it("withholds the details of hits on matters the reader is screened from", async () => {
+    const cases = [{ _id: "case1" }, { _id: "case2", clientNumber: "C-7" }, { _id: "case3" }];
+    const ctx = { db: { get: async (id: string) => cases.find(c => c._id === id) ?? null } } as unknown as QueryCtx;
+    const context = {
+      screens: { byCase: new Map([["case1", "wall1"]]), byClientNumber: new Map([["C-7", "wall2"]]) },
+    } as unknown as BaseContext;
+    
+    const hits = await screenConflictHits(ctx, context, [hit("case1"), hit("case2"), hit("case3"), hit()]);
+    
+    expect(hits.map(h => [h.restricted, h.caseId, h.matchedName])).toEqual([
+      [true, undefined, undefined],
+      [true, undefined, undefined],
+      [false, "case3", "enc:name"],
+      [false, undefined, "enc:name"],
+    ]);
+  });
+});
+
+// ================================================
+// PARTY NAME LOOKUP TESTS
+// ================================================
+// client-template/convex/lib/blindIndex.test.ts
+
+import { describe, expect, it } from "vitest";
+import { QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import {
+  computeBlindIndex,
+  findCasesByPartyName,
+  importBlindIndexKey,
+  nameIndexRows,
+  PARTY_NAME_FIELD,
+} from "./blindIndex";
+
+const key = importBlindIndexKey(new Uint8Array(32).fill(7));
+
+function index(name: string) {
+  return key.then(k => computeBlindIndex(k, PARTY_NAME_FIELD, name));
+}
+
+// Just enough of ctx.db for index reads by equality
+function fakeCtx(tables: Record<string, any[]>) {
+  const db = {
+    get: async (id: string) => Object.values(tables).flat().find(row => row._id === id) ?? null,
+    query: (table: string) => ({
+      withIndex: (_name: string, range: (q: any) => any) => {
+        const filters: [string, unknown][] = [];
+        const q = { eq: (field: string, value: unknown) => (filters.push([field, value]), q) };
+        range(q);
+        const rows = tables[table].filter(row => filters.every(([field, value]) => row[field] === value));
+        return { collect: async () => rows, take: async (n: number) => rows.slice(0, n) };
+      },
+    }),
+  };
+  return { db } as unknown as QueryCtx;
+}
+
+async function partiesCtx() {
+  const parties = [
+    { _id: "party1", caseId: "case1", role: "opposing_party", names: ["Globex Holdings Inc", "Globex"] },
+    { _id: "party2", caseId: "case2", role: "client", names: ["Globex Holdings"] },
+    { _id: "party3", caseId: "case3", role: "opposing_party", names: ["Holdings Trust"] },
+  ];
+  
+  const entries = [];
+  for (const party of parties) {
+    const indexes = await Promise.all(party.names.map(index));
+    entries.push(...nameIndexRows({ partyId: party._id as Id<"caseParties"> }, indexes));
+  }
+  return fakeCtx({ caseParties: parties, nameIndexEntries: entries });
+}
+
+describe("findCasesByPartyName", () => {
+  it("finds cases by the exact name of an opposing party or one of its aliases", async () => {
+    const ctx = await partiesCtx();
+    
+    expect(await findCasesByPartyName(ctx, await index("GLOBEX HOLDINGS"), "opposing_party", "exact"))
+      .toEqual(new Set(["case1"]));
+    expect(await findCasesByPartyName(ctx, await index("Globex"), "opposing_party", "exact"))
+      .toEqual(new Set(["case1"]));
+  });
+  
+  it("finds cases whose party names contain every word", async () => {
+    const ctx = await partiesCtx();
+    
+    expect(await findCasesByPartyName(ctx, await index("Holdings"), "opposing_party", "tokens"))
+      .toEqual(new Set(["case1", "case3"]));
+    expect(await findCasesByPartyName(ctx, await index("Holdings Globex"), "opposing_party", "tokens"))
+      .toEqual(new Set(["case1"]));
+  });
+  
+  it("only finds parties in the given role", async () => {
+    const ctx = await partiesCtx();
+    
+    expect(await findCasesByPartyName(ctx, await index("Globex Holdings"), "client", "exact"))
+      .toEqual(new Set(["case2"]));
+    expect(await findCasesByPartyName(ctx, await index("Initech"), "opposing_party", "exact"))
+      .toEqual(new Set());
+  });
+});
@@ -178,14 +178,6 @@ export default defineSchema({
       // ... (keep existing structure)
     }),
     
-    // Location in document
-    locations: v.array(v.object({
-      chunkId: v.id("documentChunks"),
-      startOffset: v.number(),
-      endOffset: v.number(),
-      context: v.string(), // Surrounding text
-    })),
-    
     confidence: v.number(),
     validated: v.boolean(),
     
@@ -195,6 +187,18 @@ export default defineSchema({
     .index("by_case", ["caseId"])
     .index("by_type", ["entityType"])
     .index("by_name", ["name"]),
+  
+  // Where each entity is mentioned, one row per mention
+  entityMentions: defineTable({
+    entityId: v.id("entities"),
+    chunkId: v.id("documentChunks"),
+    chunkIndex: v.number(),
+    startOffset: v.number(), // Into the chunk's text
+    endOffset: v.number(),
+    context: v.string(), // Surrounding text
+  })
+    .index("by_entity", ["entityId", "chunkIndex", "startOffset"])
+    .index("by_chunk", ["chunkId"]),
 
   // Processing jobs with external storage awareness
   processingJobs: defineTable({
@@ -239,8 +243,13 @@ export default defineSchema({
 // client-template/convex/documents.ts
 
 import { v } from "convex/values";
-import { mutation, action } from "./_generated/server";
-import { api } from "./_generated/api";
+import { mutation, action, query, internalAction, MutationCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { wrapApi } from "./lib/apiWrapper";
+import { codedError } from "./lib/errors";
+import { assertWithinQuota, recordUsage } from "./lib/quotas";
+import { assertRecordAccess, getAccessibleCase } from "./lib/caseAccess";
+import { assertCaseEditable } from "./lib/caseLifecycle";
 
 // Generate presigned URL for upload
 export const generateUploadUrl = action({
@@ -288,61 +297,73 @@ export const createPending = mutation({
     caseId: v.optional(v.id("cases")),
   },
   returns: v.id("documents"),
-  handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx);
-    
-    return await ctx.db.insert("documents", {
-      caseId: args.caseId,
-      filename: args.filename,
-      fileType: args.fileType,
-      checksum: "", // Will be updated after upload
+  handler: wrapApi(
+    { requireAuth: true, rateLimit: "upload", requires: ["documents.write"] },
+    async (ctx, context, args) => {
+      // A negative size would credit storage back to the quota
+      if (!Number.isInteger(args.fileSize) || args.fileSize <= 0) {
+        throw codedError("invalid_argument", "fileSize must be a positive integer");
+      }
+      if (args.caseId) {
+        assertCaseEditable(await getAccessibleCase(ctx, context, args.caseId));
+      }
       
-      storage: {
-        originalUrl: `s3://${process.env.S3_BUCKET}/${args.fileKey}`,
-        bucket: process.env.S3_BUCKET!,
-        region: process.env.AWS_REGION!,
-        size: args.fileSize,
-        version: "1",
-      },
+      await assertWithinQuota(ctx, "storageBytes", args.fileSize);
+      await recordUsage(ctx as MutationCtx, "storageBytes", args.fileSize);
       
-      preview: {
-        excerpt: "",
-        outline: [],
-        pageCount: 0,
-        wordCount: 0,
-        hasImages: false,
-        hasTables: false,
-      },
+      return await ctx.db.insert("documents", {
+        caseId: args.caseId,
+        filename: args.filename,
+        fileType: args.fileType,
+        checksum: "", // Will be updated after upload
       
-      processing: {
-        status: "uploaded",
-        stages: {
-          upload: {
-            completedAt: Date.now(),
-            duration: 0,
+        storage: {
+          originalUrl: `s3://${process.env.S3_BUCKET}/${args.fileKey}`,
+          bucket: process.env.S3_BUCKET!,
+          region: process.env.AWS_REGION!,
+          size: args.fileSize,
+          version: "1",
+        },
+      
+        preview: {
+          excerpt: "",
+          outline: [],
+          pageCount: 0,
+          wordCount: 0,
+          hasImages: false,
+          hasTables: false,
+        },
+      
+        processing: {
+          status: "uploaded",
+          stages: {
+            upload: {
+              completedAt: Date.now(),
+              duration: 0,
+            },
           },
+          retryCount: 0,
         },
-        retryCount: 0,
-      },
       
-      searchData: {
-        searchableText: args.filename,
-        documentType: "unknown",
-        dateReferences: [],
-      },
+        searchData: {
+          searchableText: args.filename,
+          documentType: "unknown",
+          dateReferences: [],
+        },
       
-      legal: {
-        privileged: false,
-        confidentialityLevel: "confidential",
-        signatureCount: 0,
-      },
+        legal: {
+          privileged: false,
+          confidentialityLevel: "confidential",
+          signatureCount: 0,
+        },
       
-      uploadedBy: user._id,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-      accessCount: 0,
-    });
-  },
+        uploadedBy: context.userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        accessCount: 0,
+      });
+    }
+  ),
 });
 
 // Process uploaded document
@@ -394,7 +415,7 @@ export const storeMarkdownPreview = mutation({
   returns: v.null(),
   handler: async (ctx, args) => {
     const doc = await ctx.db.get(args.documentId);
-    if (!doc) throw new Error("Document not found");
+    if (!doc) throw codedError("not_found", "Document not found");
     
     await ctx.db.patch(args.documentId, {
       storage: {
@@ -423,6 +444,128 @@ export const storeMarkdownPreview = mutation({
   },
 });
 
+// Get a document record
+export const get = query({
+  args: {
+    documentId: v.id("documents"),
+  },
+  returns: v.any(),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["documents.read"] },
+    async (ctx, context, args) => {
+      const doc = await ctx.db.get(args.documentId);
+      if (!doc) throw codedError("not_found", "Document not found");
+      
+      await assertRecordAccess(ctx, context, doc, "Document not found");
+      return doc;
+    }
+  ),
+});
+
+// Get a document's processing pipeline status
+export const getProcessingStatus = query({
+  args: {
+    documentId: v.id("documents"),
+  },
+  returns: v.object({
+    status: v.string(),
+    stages: v.any(),
+    retryCount: v.number(),
+    totalDuration: v.optional(v.number()),
+  }),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["documents.read"] },
+    async (ctx, context, args) => {
+      const doc = await ctx.db.get(args.documentId);
+      if (!doc) throw codedError("not_found", "Document not found");
+      
+      await assertRecordAccess(ctx, context, doc, "Document not found");
+      
+      return {
+        status: doc.processing.status,
+        stages: doc.processing.stages,
+        retryCount: doc.processing.retryCount,
+        totalDuration: doc.processing.totalDuration,
+      };
+    }
+  ),
+});
+
+// Delete a document and give its size back to the storage quota. The file
+// itself is removed from S3 afterwards.
+export const remove = mutation({
+  args: {
+    documentId: v.id("documents"),
+  },
+  returns: v.null(),
+  handler: wrapApi(
+    {
+      requireAuth: true,
+      auditAction: "document.deleted",
+      rateLimit: "write",
+      requires: ["documents.delete"],
+    },
+    async (ctx, context, args) => {
+      const doc = await ctx.db.get(args.documentId);
+      if (!doc) throw codedError("not_found", "Document not found");
+      
+      await assertRecordAccess(ctx, context, doc, "Document not found");
+      if (doc.caseId) {
+        assertCaseEditable(await getAccessibleCase(ctx, context, doc.caseId));
+      }
+      const retentionDate = doc.legal?.retentionDate;
+      if (retentionDate !== undefined && retentionDate > Date.now()) {
+        throw codedError(
+          "invalid_state",
+          `Document is under retention until ${new Date(retentionDate).toISOString().slice(0, 10)}`
+        );
+      }
+      
+      await ctx.db.delete(args.documentId);
+      await recordUsage(ctx as MutationCtx, "storageBytes", -doc.storage.size);
+      await (ctx as MutationCtx).scheduler.runAfter(0, internal.documents.deleteStoredFile, {
+        bucket: doc.storage.bucket,
+        key: doc.storage.originalUrl.slice(`s3://${doc.storage.bucket}/`.length),
+      });
+      
+      context.audit = {
+        resourceType: "document",
+        resourceId: args.documentId,
+        metadata: { filename: doc.filename, size: doc.storage.size },
+      };
+      return null;
+    }
+  ),
+});
+
+export const deleteStoredFile = internalAction({
+  args: {
+    bucket: v.string(),
+    key: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { DeleteObjectCommand } = await import("@aws-sdk/client-s3");
+    
+    const s3Client = await createS3Client();
+    await s3Client.send(new DeleteObjectCommand({ Bucket: args.bucket, Key: args.key }));
+    return null;
+  },
+});
+
+async function createS3Client() {
+  // Use AWS SDK v3
+  const { S3Client } = await import("@aws-sdk/client-s3");
+  
+  return new S3Client({
+    region: process.env.AWS_REGION!,
+    credentials: {
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+    },
+  });
+}
+
 // Helper function for S3 presigned URLs
 async function generateS3PresignedUrl(params: {
   bucket: string;
@@ -430,17 +573,10 @@ async function generateS3PresignedUrl(params: {
   contentType: string;
   maxSize: number;
 }): Promise<string> {
-  // Use AWS SDK v3
-  const { S3Client, PutObjectCommand } = await import("@aws-sdk/client-s3");
+  const { PutObjectCommand } = await import("@aws-sdk/client-s3");
   const { getSignedUrl } = await import("@aws-sdk/s3-request-presigner");
   
-  const s3Client = new S3Client({
-    region: process.env.AWS_REGION!,
-    credentials: {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-    },
-  });
+  const s3Client = await createS3Client();
   
   const command = new PutObjectCommand({
     Bucket: params.bucket,
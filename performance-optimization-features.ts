@@ -4,8 +4,13 @@
 // client-template/convex/performance/cache.ts
 
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
 import { query, mutation, internalMutation } from "../_generated/server";
 import { withSecurity } from "../lib/security";
+import { wrapApi } from "../lib/apiWrapper";
+import { boundedPage, pageValidator } from "../lib/pagination";
+import { canAccessCase } from "../lib/caseAccess";
+import { toListItem } from "../cases";
 
 // Cache configuration
 const CACHE_CONFIGS = {
@@ -66,25 +71,33 @@ export function withCache<TArgs, TReturn>(
   };
 }
 
-// Cached case list query
+// Cached case list query. Not backed by withCache: its entries are shared
+// by every caller, while the visible cases differ per user. Convex already
+// caches query results per caller and invalidates them on writes.
 export const listCasesCached = query({
   args: {
     status: v.optional(v.string()),
-    limit: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
   },
-  returns: v.array(v.any()),
-  handler: withCache("caseList", async (ctx, args) => {
-    // Original query logic
-    const cases = await ctx.db
-      .query("cases")
-      .withIndex("by_status", (q) => 
-        args.status ? q.eq("status", args.status) : q
-      )
-      .order("desc")
-      .take(args.limit || 50);
+  returns: pageValidator(v.any()),
+  handler: wrapApi(
+    { requireAuth: true, requires: ["cases.read"] },
+    async (ctx, context, args) => {
+      const results = await ctx.db
+        .query("cases")
+        .withIndex("by_status", (q) => 
+          args.status ? q.eq("status", args.status) : q
+        )
+        .order("desc")
+        .paginate(boundedPage(args.paginationOpts));
     
-    return cases;
-  }),
+      return {
+        page: results.page.filter(c => canAccessCase(context, c)).map(toListItem),
+        isDone: results.isDone,
+        continueCursor: results.continueCursor,
+      };
+    }
+  ),
 });
 
 // Intelligent cache invalidation
@@ -116,6 +129,7 @@ export const invalidateCache = internalMutation({
 
 import { v } from "convex/values";
 import { action, mutation } from "../_generated/server";
+import { codedError } from "../lib/errors";
 
 // Generate CDN URLs for documents
 export const getCdnUrl = action({
@@ -132,7 +146,7 @@ export const getCdnUrl = action({
   handler: async (ctx, args) => {
     // Get base URL
     const baseUrl = await ctx.storage.getUrl(args.storageId);
-    if (!baseUrl) throw new Error("File not found");
+    if (!baseUrl) throw codedError("not_found", "File not found");
     
     // Apply CDN transformations
     const cdnUrl = new URL(baseUrl);
@@ -0,0 +1,120 @@
+// ================================================
+// PROVISIONING WORKFLOW TESTS
+// ================================================
+// scripts/provision-client.test.ts
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConvexHttpClient } from 'convex/browser';
+import { getFunctionName } from 'convex/server';
+import { Id } from '../control-plane/convex/_generated/dataModel';
+import { initialProvisioningSteps } from '../control-plane/convex/lib/provisioning';
+import { createLocalFakeDriver } from './provisioning/drivers';
+import { provisionClient } from './provision-client';
+
+// Data keys are registered in the new project over HTTP
+vi.mock('./rotate-keys', () => ({ ensureDataKey: vi.fn(async () => {}) }));
+
+const organizationId = 'org1' as Id<'organizations'>;
+
+// Control plane keeping the run's steps the way provisioning.ts records them.
+// `failRecordOnce` makes recording the named step's completion fail once.
+function fakeControlPlane(options: { failRecordOnce?: string } = {}) {
+  const state = {
+    steps: initialProvisioningSteps() as any[],
+    registered: undefined as any,
+  };
+  let pendingFailure = options.failRecordOnce;
+  
+  const mutation = vi.fn(async (fn: any, args: any) => {
+    switch (getFunctionName(fn)) {
+      case 'provisioning:claimProvisioningRun':
+        return { runId: 'run1', steps: structuredClone(state.steps) };
+      
+      case 'provisioning:recordProvisioningStep':
+        if (args.status === 'completed' && pendingFailure === args.step) {
+          pendingFailure = undefined;
+          throw new Error('Control plane unavailable');
+        }
+        state.steps = state.steps.map(s => s.name !== args.step ? s : {
+          ...s,
+          status: args.status,
+          attempts: s.attempts + 1,
+          output: args.status === 'completed' ? args.output : s.output,
+          error: args.error,
+        });
+        return null;
+      
+      case 'organizations:updateOrganizationProject':
+        state.registered = args;
+        return null;
+    }
+    throw new Error(`Unexpected mutation ${getFunctionName(fn)}`);
+  });
+  
+  return { state, controlPlane: { mutation } as unknown as ConvexHttpClient };
+}
+
+const statuses = (steps: { name: string; status: string }[]) =>
+  Object.fromEntries(steps.map(s => [s.name, s.status]));
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('provisionClient', () => {
+  it('runs every step and registers the project', async () => {
+    const { driver, projects } = createLocalFakeDriver();
+    const { state, controlPlane } = fakeControlPlane();
+    
+    const project = await provisionClient(organizationId, 'smithlaw', { driver, controlPlane, plan: 'growth' });
+    
+    expect(project).toEqual({ projectId: 'legal-smithlaw', projectUrl: 'https://legal-smithlaw.convex.cloud' });
+    expect(state.steps.every(s => s.status === 'completed')).toBe(true);
+    expect(state.registered).toMatchObject({ organizationId, ...project });
+    
+    const created = projects.get('legal-smithlaw')!;
+    expect(created.deployed).toBe(true);
+    expect(created.env).toMatchObject({ ORGANIZATION_ID: organizationId, ORGANIZATION_PLAN: 'growth' });
+    expect(created.functionCalls).toEqual([{ functionName: 'seed:seedOrganization', args: { domain: 'smithlaw' } }]);
+  });
+  
+  it('resumes after a failed step without repeating the steps before it', async () => {
+    const { driver, projects } = createLocalFakeDriver({ failOnce: 'deploySchema' });
+    const createProject = vi.spyOn(driver, 'createProject');
+    const { state, controlPlane } = fakeControlPlane();
+    
+    await expect(provisionClient(organizationId, 'smithlaw', { driver, controlPlane }))
+      .rejects.toThrow('Simulated deploySchema failure');
+    
+    expect(statuses(state.steps)).toMatchObject({ createProject: 'completed', deploySchema: 'failed', seedData: 'pending' });
+    expect(state.steps.find(s => s.name === 'deploySchema').error).toBe('Simulated deploySchema failure');
+    expect(state.registered).toBeUndefined();
+    
+    const project = await provisionClient(organizationId, 'smithlaw', { driver, controlPlane });
+    
+    expect(createProject).toHaveBeenCalledOnce();
+    expect(project.projectUrl).toBe('https://legal-smithlaw.convex.cloud');
+    expect(state.steps.every(s => s.status === 'completed')).toBe(true);
+    expect(projects.get('legal-smithlaw')!.functionCalls).toHaveLength(1);
+  });
+  
+  it('re-runs a step whose outcome was never recorded without creating a second project', async () => {
+    const { driver, projects } = createLocalFakeDriver();
+    const { state, controlPlane } = fakeControlPlane({ failRecordOnce: 'createProject' });
+    
+    await expect(provisionClient(organizationId, 'smithlaw', { driver, controlPlane }))
+      .rejects.toThrow('Control plane unavailable');
+    expect(statuses(state.steps)).toMatchObject({ createProject: 'failed' });
+    
+    const project = await provisionClient(organizationId, 'smithlaw', { driver, controlPlane });
+    
+    expect([...projects.keys()]).toEqual(['legal-smithlaw']);
+    expect(state.registered).toMatchObject(project);
+    expect(state.steps.find(s => s.name === 'createProject').attempts).toBe(2);
+  });
+});
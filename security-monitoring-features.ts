@@ -4,9 +4,16 @@
 // client-template/convex/security/threatDetection.ts
 
 import { v } from "convex/values";
-import { internalAction, internalMutation, internalQuery } from "../_generated/server";
+import { internalAction, internalMutation, internalQuery, MutationCtx, QueryCtx } from "../_generated/server";
 import { internal } from "../_generated/api";
 
+const HOUR = 60 * 60 * 1000;
+
+// Events are counted per five minutes and severity, split into shards so a
+// flood of events does not serialize on one counter
+const EVENT_COUNT_BUCKET_MS = 5 * 60 * 1000;
+const EVENT_COUNT_SHARDS = 8;
+
 // ML-powered anomaly detection
 export const analyzeUserBehavior = internalAction({
   args: {
@@ -31,7 +38,7 @@ export const analyzeUserBehavior = internalAction({
     
     // Log if anomaly detected
     if (analysis.anomalyDetected) {
-      await ctx.runMutation(internal.security.logSecurityEvent, {
+      await ctx.runMutation(internal.security.threatDetection.logSecurityEvent, {
         userId: args.userId,
         eventType: "anomaly_detected",
         severity: getThreatSeverity(analysis.threatScore),
@@ -47,7 +54,47 @@ export const analyzeUserBehavior = internalAction({
   },
 });
 
-// Real-time threat monitoring
+// Record a security event and count it for monitoring. Every insert into
+// securityEvents goes through here, so the counters stay complete.
+export const logSecurityEvent = internalMutation({
+  args: {
+    userId: v.optional(v.id("users")),
+    eventType: v.string(),
+    severity: v.string(), // "low" | "medium" | "high" | "critical"
+    threatScore: v.optional(v.number()),
+    metadata: v.optional(v.any()),
+  },
+  returns: v.id("securityEvents"),
+  handler: async (ctx, args) => {
+    const createdAt = Date.now();
+    const eventId = await ctx.db.insert("securityEvents", { ...args, counted: true, createdAt });
+    await countSecurityEvent(ctx, args.severity, createdAt);
+    
+    return eventId;
+  },
+});
+
+// Add an event to (or, with a delta of -1, take it out of) the counters.
+// Events logged before the counters existed are added by migration 5.
+export async function countSecurityEvent(ctx: MutationCtx, severity: string, createdAt: number, delta = 1) {
+  const bucket = createdAt - (createdAt % EVENT_COUNT_BUCKET_MS);
+  const shard = Math.floor(Math.random() * EVENT_COUNT_SHARDS);
+  
+  const counter = await ctx.db
+    .query("securityEventCounts")
+    .withIndex("by_bucket", (q) => q.eq("bucket", bucket).eq("severity", severity).eq("shard", shard))
+    .first();
+  
+  if (counter) {
+    await ctx.db.patch(counter._id, { count: counter.count + delta });
+  } else {
+    await ctx.db.insert("securityEventCounts", { bucket, severity, shard, count: delta });
+  }
+}
+
+// Real-time threat monitoring. Reads the event counters rather than the
+// events, so an attack that floods the table cannot push it past the read
+// limits.
 export const monitorSecurityEvents = internalQuery({
   args: {},
   returns: v.array(v.object({
@@ -57,22 +104,13 @@ export const monitorSecurityEvents = internalQuery({
   })),
   handler: async (ctx) => {
     const now = Date.now();
-    const oneHourAgo = now - 60 * 60 * 1000;
-    
-    // Get recent events
-    const recentEvents = await ctx.db
-      .query("securityEvents")
-      .withIndex("by_time", (q) => q.gte("createdAt", oneHourAgo))
-      .collect();
+    // The hour of buckets ending with the current one
+    const oneHourAgo = now - (now % EVENT_COUNT_BUCKET_MS) + EVENT_COUNT_BUCKET_MS - HOUR;
     
-    // Group by severity
-    const severityCounts = recentEvents.reduce((acc, event) => {
-      acc[event.severity] = (acc[event.severity] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    // Calculate trends
-    const trends = await calculateTrends(ctx, severityCounts);
+    // Group recent events by severity, and compare with the previous hour
+    const severityCounts = await countSeverities(ctx, oneHourAgo, oneHourAgo + HOUR);
+    const previousCounts = await countSeverities(ctx, oneHourAgo - HOUR, oneHourAgo);
+    const trends = calculateTrends(severityCounts, previousCounts);
     
     return Object.entries(severityCounts).map(([severity, count]) => ({
       severity,
@@ -199,26 +237,24 @@ async function sendAdminAlert(event: any) {
   console.log("Admin alert sent for event:", event);
 }
 
-async function calculateTrends(
-  ctx: any,
-  currentCounts: Record<string, number>
-): Promise<Record<string, string>> {
-  // Compare with previous hour
-  const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
-  const oneHourAgo = Date.now() - 60 * 60 * 1000;
-  
-  const previousEvents = await ctx.db
-    .query("securityEvents")
-    .withIndex("by_time", (q) => 
-      q.gte("createdAt", twoHoursAgo).lt("createdAt", oneHourAgo)
-    )
+// Events counted in the buckets starting from `from` up to `to`. At most
+// one counter per bucket, severity and shard, however many events there were.
+async function countSeverities(ctx: QueryCtx, from: number, to: number) {
+  const counters = await ctx.db
+    .query("securityEventCounts")
+    .withIndex("by_bucket", (q) => q.gte("bucket", from).lt("bucket", to))
     .collect();
   
-  const previousCounts = previousEvents.reduce((acc, event) => {
-    acc[event.severity] = (acc[event.severity] || 0) + 1;
+  return counters.reduce((acc, counter) => {
+    acc[counter.severity] = (acc[counter.severity] || 0) + counter.count;
     return acc;
   }, {} as Record<string, number>);
-  
+}
+
+function calculateTrends(
+  currentCounts: Record<string, number>,
+  previousCounts: Record<string, number>
+): Record<string, string> {
   const trends: Record<string, string> = {};
   
   for (const severity in currentCounts) {
@@ -356,7 +392,15 @@ function calculateSecurityScore(vulnerabilities: any[]): number {
 // client-template/convex/security/bugBounty.ts
 
 import { v } from "convex/values";
-import { mutation, query } from "../_generated/server";
+import { mutation, MutationCtx, query } from "../_generated/server";
+import { internal } from "../_generated/api";
+
+const severityBreakdownValidator = v.object({
+  critical: v.number(),
+  high: v.number(),
+  medium: v.number(),
+  low: v.number(),
+});
 
 // Submit vulnerability report
 export const submitVulnerability = mutation({
@@ -370,13 +414,16 @@ export const submitVulnerability = mutation({
   },
   returns: v.id("bugReports"),
   handler: async (ctx, args) => {
-    const reportId = await ctx.db.insert("bugReports", {
+    const report = {
       ...args,
       status: "pending",
       submittedAt: Date.now(),
       reviewedAt: undefined,
       bountyAmount: undefined,
-    });
+      totaled: true,
+    };
+    const reportId = await ctx.db.insert("bugReports", report);
+    await updateBountyTotals(ctx, null, report);
     
     // Notify security team
     await ctx.scheduler.runAfter(0, internal.notifications.notifySecurityTeam, {
@@ -388,48 +435,95 @@ export const submitVulnerability = mutation({
   },
 });
 
-// Track bug bounty metrics
+// Track bug bounty metrics, from the running totals kept as reports change
 export const getBountyMetrics = query({
   args: {},
   returns: v.object({
     totalReports: v.number(),
     totalPaid: v.number(),
     averageResponseTime: v.number(),
-    severityBreakdown: v.object({
-      critical: v.number(),
-      high: v.number(),
-      medium: v.number(),
-      low: v.number(),
-    }),
+    severityBreakdown: severityBreakdownValidator,
   }),
   handler: async (ctx) => {
-    const reports = await ctx.db.query("bugReports").collect();
+    const totals = await ctx.db.query("bugBountyTotals").first();
+    if (!totals) {
+      return {
+        totalReports: 0,
+        totalPaid: 0,
+        averageResponseTime: 0,
+        severityBreakdown: { critical: 0, high: 0, medium: 0, low: 0 },
+      };
+    }
     
-    const metrics = {
-      totalReports: reports.length,
-      totalPaid: reports.reduce((sum, r) => sum + (r.bountyAmount || 0), 0),
-      averageResponseTime: calculateAverageResponseTime(reports),
-      severityBreakdown: {
-        critical: reports.filter(r => r.severity === "critical").length,
-        high: reports.filter(r => r.severity === "high").length,
-        medium: reports.filter(r => r.severity === "medium").length,
-        low: reports.filter(r => r.severity === "low").length,
-      },
+    return {
+      totalReports: totals.totalReports,
+      totalPaid: totals.totalPaid,
+      // Hours from submission to review
+      averageResponseTime: totals.reviewedReports
+        ? totals.totalResponseTime / totals.reviewedReports / (1000 * 60 * 60)
+        : 0,
+      severityBreakdown: totals.severityBreakdown,
     };
-    
-    return metrics;
   },
 });
 
-function calculateAverageResponseTime(reports: any[]): number {
-  const reviewed = reports.filter(r => r.reviewedAt);
-  if (reviewed.length === 0) return 0;
+interface BountyReportFields {
+  severity: string;
+  submittedAt: number;
+  reviewedAt?: number;
+  bountyAmount?: number;
+}
+
+// What one report adds to the totals
+function reportTotals(report: BountyReportFields | null) {
+  const severityBreakdown = { critical: 0, high: 0, medium: 0, low: 0 };
+  if (!report) {
+    return { totalReports: 0, totalPaid: 0, reviewedReports: 0, totalResponseTime: 0, severityBreakdown };
+  }
   
-  const totalTime = reviewed.reduce((sum, r) => 
-    sum + (r.reviewedAt - r.submittedAt), 0
-  );
+  if (report.severity in severityBreakdown) {
+    severityBreakdown[report.severity as keyof typeof severityBreakdown] = 1;
+  }
+  return {
+    totalReports: 1,
+    totalPaid: report.bountyAmount || 0,
+    reviewedReports: report.reviewedAt ? 1 : 0,
+    totalResponseTime: report.reviewedAt ? report.reviewedAt - report.submittedAt : 0,
+    severityBreakdown,
+  };
+}
+
+// Move the running totals from a report as it was to as it is now. Call it
+// on every write to bugReports, with null before an insert or after a delete.
+// Reports submitted before the totals existed are added by migration 5.
+export async function updateBountyTotals(
+  ctx: MutationCtx,
+  before: BountyReportFields | null,
+  after: BountyReportFields | null
+) {
+  const removed = reportTotals(before);
+  const added = reportTotals(after);
+  const totals = await ctx.db.query("bugBountyTotals").first();
+  const current = totals ?? reportTotals(null);
+  
+  const next = {
+    totalReports: current.totalReports + added.totalReports - removed.totalReports,
+    totalPaid: current.totalPaid + added.totalPaid - removed.totalPaid,
+    reviewedReports: current.reviewedReports + added.reviewedReports - removed.reviewedReports,
+    totalResponseTime: current.totalResponseTime + added.totalResponseTime - removed.totalResponseTime,
+    severityBreakdown: { ...current.severityBreakdown },
+    updatedAt: Date.now(),
+  };
+  for (const severity of ["critical", "high", "medium", "low"] as const) {
+    next.severityBreakdown[severity] +=
+      added.severityBreakdown[severity] - removed.severityBreakdown[severity];
+  }
   
-  return totalTime / reviewed.length / (1000 * 60 * 60); // Convert to hours
+  if (totals) {
+    await ctx.db.patch(totals._id, next);
+  } else {
+    await ctx.db.insert("bugBountyTotals", next);
+  }
 }
 
 // ================================================
@@ -438,7 +532,7 @@ function calculateAverageResponseTime(reports: any[]): number {
 // client-template/convex/compliance/dashboard.ts
 
 import { v } from "convex/values";
-import { query } from "../_generated/server";
+import { query, QueryCtx } from "../_generated/server";
 
 export const getComplianceStatus = query({
   args: {},
@@ -494,8 +588,8 @@ export const getComplianceStatus = query({
       stateBar: {
         status: "compliant",
         trustAccountCompliant: checkTrustCompliance(trustAccounts),
-        clientFileRetention: true,
-        conflictChecks: true,
+        clientFileRetention: await checkRetentionCompliance(ctx),
+        conflictChecks: await checkConflictCompliance(ctx),
       },
     };
   },
@@ -515,4 +609,28 @@ function checkTrustCompliance(accounts: any[]): boolean {
     a.lastReconciledAt && 
     Date.now() - a.lastReconciledAt < 30 * 24 * 60 * 60 * 1000
   );
-}
\ No newline at end of file
+}
+async function checkConflictCompliance(ctx: QueryCtx): Promise<boolean> {
+  // Every matter needs a cleared or waived conflict check on record. Matters
+  // only get a check through resolveConflictClearance, which accepts no
+  // other status, so the one way to fail is a matter without a check.
+  const unchecked = await ctx.db
+    .query("cases")
+    .withIndex("by_conflict_check", (q) => q.eq("conflictCheckId", undefined))
+    .first();
+  return unchecked === null;
+}
+
+async function checkRetentionCompliance(ctx: QueryCtx): Promise<boolean> {
+  // Documents of closed and archived matters need a retention date; they
+  // have one once the matter's retention run finishes. One indexed read
+  // per status rather than a scan of every matter.
+  for (const status of ["closed", "archived"]) {
+    const pending = await ctx.db
+      .query("cases")
+      .withIndex("by_status_and_retention_run", (q) => q.eq("status", status).gt("retentionRunAt", 0))
+      .first();
+    if (pending) return false;
+  }
+  return true;
+}
@@ -0,0 +1,622 @@
+// ================================================
+// SUBSCRIPTION PLANS
+// ================================================
+// client-template/convex/lib/plans.ts
+//
+// Shared by client projects, the control plane and the API gateway.
+
+export const PLAN_NAMES = ["standard", "professional", "enterprise"] as const;
+
+export type PlanName = typeof PLAN_NAMES[number];
+
+export interface PlanDefinition {
+  seatLimit: number; // Members in userOrganizations
+  storageBytes: number; // Sum of documents.storage.size
+  pagesPerMonth: number; // Pages converted through documentIngestion
+}
+
+const GB = 1024 * 1024 * 1024;
+
+export const PLANS: Record<PlanName, PlanDefinition> = {
+  standard: {
+    seatLimit: 10,
+    storageBytes: 50 * GB,
+    pagesPerMonth: 5_000,
+  },
+  professional: {
+    seatLimit: 50,
+    storageBytes: 500 * GB,
+    pagesPerMonth: 50_000,
+  },
+  enterprise: {
+    seatLimit: 500,
+    storageBytes: 5_000 * GB,
+    pagesPerMonth: 500_000,
+  },
+};
+
+export function isPlanName(plan: string): plan is PlanName {
+  return (PLAN_NAMES as readonly string[]).includes(plan);
+}
+
+// Unknown or unset plans fall back to "standard"
+export function getPlan(plan: string | undefined): PlanDefinition {
+  return plan && isPlanName(plan) ? PLANS[plan] : PLANS.standard;
+}
+
+// Plan this deployment was provisioned with. Tenants use it until the
+// control plane pushes a plan change (see quotas.getTenantPlan).
+export function getDeploymentPlan(): string {
+  return process.env.ORGANIZATION_PLAN || "standard";
+}
+
+// Billing period key in UTC, e.g. "2026-03"
+export function usagePeriod(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+export function previousUsagePeriod(timestamp: number): string {
+  const date = new Date(timestamp);
+  return usagePeriod(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1));
+}
+
+// ================================================
+// QUOTA ENFORCEMENT
+// ================================================
+// client-template/convex/lib/quotas.ts
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { codedError } from "./errors";
+import { getDeploymentPlan, getPlan, usagePeriod } from "./plans";
+
+export type UsageMetric = "storageBytes" | "pagesProcessed";
+
+// Usage is added to a random shard, so concurrent uploads do not all patch
+// one counter. Quota checks read the rolled-up total instead of the shards,
+// so they do not conflict with those writes either; the total trails the
+// shards by at most USAGE_ROLLUP_MS.
+const USAGE_SHARDS = 8;
+const USAGE_ROLLUP_MS = 30 * 1000;
+
+// Storage is a running total; pages are counted per billing period
+function periodFor(metric: UsageMetric, timestamp: number) {
+  return metric === "storageBytes" ? "all" : usagePeriod(timestamp);
+}
+
+export async function getTenantPlan(ctx: QueryCtx): Promise<string> {
+  const settings = await ctx.db.query("planSettings").first();
+  return settings?.plan ?? getDeploymentPlan();
+}
+
+async function limitFor(ctx: QueryCtx, metric: UsageMetric) {
+  const plan = getPlan(await getTenantPlan(ctx));
+  return metric === "storageBytes" ? plan.storageBytes : plan.pagesPerMonth;
+}
+
+async function getTotal(ctx: QueryCtx, metric: UsageMetric, period: string) {
+  return await ctx.db
+    .query("usageTotals")
+    .withIndex("by_metric", (q) => q.eq("metric", metric).eq("period", period))
+    .first();
+}
+
+// Exact usage, summed over the shards. Reads every shard, so mutations on
+// the upload path use the total instead.
+export async function getUsage(ctx: QueryCtx, metric: UsageMetric, period?: string) {
+  const counters = await ctx.db
+    .query("usageCounters")
+    .withIndex("by_metric", (q) =>
+      q.eq("metric", metric).eq("period", period || periodFor(metric, Date.now()))
+    )
+    .collect();
+  
+  return Math.max(0, counters.reduce((sum, counter) => sum + counter.used, 0));
+}
+
+// Throws when adding `amount` would go over the plan limit
+export async function assertWithinQuota(ctx: QueryCtx, metric: UsageMetric, amount: number) {
+  const period = periodFor(metric, Date.now());
+  const total = await getTotal(ctx, metric, period);
+  const used = total ? total.used : await getUsage(ctx, metric, period);
+  const limit = await limitFor(ctx, metric);
+  
+  if (used + amount > limit) {
+    throw codedError("quota_exceeded", `Quota exceeded: ${metric} (${used} of ${limit} used)`, {
+      metric,
+      used,
+      limit,
+    });
+  }
+}
+
+// Negative amounts release usage (e.g. deleted documents)
+export async function recordUsage(ctx: MutationCtx, metric: UsageMetric, amount: number) {
+  const now = Date.now();
+  const period = periodFor(metric, now);
+  const shard = Math.floor(Math.random() * USAGE_SHARDS);
+  
+  const counter = await ctx.db
+    .query("usageCounters")
+    .withIndex("by_shard", (q) => q.eq("metric", metric).eq("period", period).eq("shard", shard))
+    .first();
+  
+  if (counter) {
+    await ctx.db.patch(counter._id, {
+      used: counter.used + amount,
+      updatedAt: now,
+    });
+  } else {
+    await ctx.db.insert("usageCounters", {
+      metric,
+      period,
+      shard,
+      used: amount,
+      updatedAt: now,
+    });
+  }
+  
+  await scheduleRollup(ctx, metric, period, now);
+}
+
+// At most one rollup is pending per total, and it runs after the writes
+// that scheduled it
+async function scheduleRollup(ctx: MutationCtx, metric: UsageMetric, period: string, now: number) {
+  const total = await getTotal(ctx, metric, period);
+  if (total?.rollupDueAt) return;
+  
+  const rollupDueAt = now + USAGE_ROLLUP_MS;
+  if (total) {
+    await ctx.db.patch(total._id, { rollupDueAt });
+  } else {
+    await ctx.db.insert("usageTotals", {
+      metric,
+      period,
+      used: await getUsage(ctx, metric, period),
+      rollupDueAt,
+      updatedAt: now,
+    });
+  }
+  
+  await ctx.scheduler.runAfter(USAGE_ROLLUP_MS, internal.usage.rollUpUsage, { metric, period });
+}
+
+export async function rollUpUsage(ctx: MutationCtx, metric: UsageMetric, period: string) {
+  const total = await getTotal(ctx, metric, period);
+  if (!total) return;
+  
+  await ctx.db.patch(total._id, {
+    used: await getUsage(ctx, metric, period),
+    rollupDueAt: undefined,
+    updatedAt: Date.now(),
+  });
+}
+
+// ================================================
+// CLIENT USAGE REPORTING
+// ================================================
+// client-template/convex/usage.ts
+
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { codedError } from "./lib/errors";
+import { isPlanName } from "./lib/plans";
+import { getTenantPlan, getUsage, rollUpUsage as rollUpUsageTotal, UsageMetric } from "./lib/quotas";
+import { assertControlPlaneSecret } from "./lib/secrets";
+
+// Scheduled by recordUsage (see lib/quotas.ts)
+export const rollUpUsage = internalMutation({
+  args: {
+    metric: v.string(), // "storageBytes" | "pagesProcessed"
+    period: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await rollUpUsageTotal(ctx, args.metric as UsageMetric, args.period);
+    return null;
+  },
+});
+
+// Usage totals for the control plane's monthly snapshot
+export const getUsageReport = query({
+  args: {
+    period: v.string(), // "YYYY-MM"
+    controlPlaneSecret: v.string(),
+  },
+  returns: v.object({
+    plan: v.string(),
+    storageBytes: v.number(),
+    pagesProcessed: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.controlPlaneSecret);
+    
+    return {
+      plan: await getTenantPlan(ctx),
+      storageBytes: await getUsage(ctx, "storageBytes"),
+      pagesProcessed: await getUsage(ctx, "pagesProcessed", args.period),
+    };
+  },
+});
+
+// Plan changes are pushed here by the control plane (usage.changePlan)
+export const setPlan = mutation({
+  args: {
+    plan: v.string(),
+    controlPlaneSecret: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    assertControlPlaneSecret(args.controlPlaneSecret);
+    if (!isPlanName(args.plan)) throw codedError("invalid_argument", `Invalid plan: ${args.plan}`);
+    
+    const settings = await ctx.db.query("planSettings").first();
+    if (settings) {
+      await ctx.db.patch(settings._id, { plan: args.plan, updatedAt: Date.now() });
+    } else {
+      await ctx.db.insert("planSettings", { plan: args.plan, updatedAt: Date.now() });
+    }
+    return null;
+  },
+});
+
+// ================================================
+// USAGE SNAPSHOTS AND BILLING EXPORT
+// ================================================
+// control-plane/convex/usage.ts
+
+import { v } from "convex/values";
+import { action, internalAction, internalMutation, internalQuery, query, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { ConvexHttpClient } from "convex/browser";
+import { api as clientApi } from "../../client-template/convex/_generated/api";
+import { getPlan, isPlanName, previousUsagePeriod } from "../../client-template/convex/lib/plans";
+import { isPlatformOperator, requireIdentity, requireOperator } from "./lib/auth";
+import { assertCanManage, countSeats } from "./lib/memberships";
+
+const usageSnapshotValidator = v.object({
+  organizationId: v.id("organizations"),
+  domain: v.string(),
+  name: v.string(),
+  period: v.string(),
+  plan: v.string(),
+  seats: v.number(),
+  seatLimit: v.number(),
+  storageBytes: v.number(),
+  storageBytesLimit: v.number(),
+  pagesProcessed: v.number(),
+  pagesLimit: v.number(),
+  createdAt: v.number(),
+});
+
+function toUsageRow(snapshot: Doc<"usageSnapshots">, org: Doc<"organizations"> | null) {
+  return {
+    organizationId: snapshot.organizationId,
+    domain: org?.domain || "",
+    name: org?.name || "",
+    period: snapshot.period,
+    plan: snapshot.plan,
+    seats: snapshot.seats,
+    seatLimit: snapshot.seatLimit,
+    storageBytes: snapshot.storageBytes,
+    storageBytesLimit: snapshot.storageBytesLimit,
+    pagesProcessed: snapshot.pagesProcessed,
+    pagesLimit: snapshot.pagesLimit,
+    createdAt: snapshot.createdAt,
+  };
+}
+
+// Firm owners and admins see their own organization's usage, operators and
+// scripts (with the secret) every organization's
+async function assertCanViewUsage(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  secret: string | undefined
+) {
+  if (secret !== undefined) {
+    await requireOperator(ctx, secret);
+    return;
+  }
+  
+  const { clerkUserId } = await requireIdentity(ctx);
+  if (!isPlatformOperator(clerkUserId)) {
+    await assertCanManage(ctx, organizationId, []);
+  }
+}
+
+// Live plan limits and seat usage for an organization
+export const getOrganizationUsage = query({
+  args: {
+    organizationId: v.id("organizations"),
+    secret: v.optional(v.string()),
+  },
+  returns: v.object({
+    plan: v.string(),
+    seats: v.number(),
+    seatLimit: v.number(),
+    storageBytesLimit: v.number(),
+    pagesLimit: v.number(),
+    lastSnapshot: v.union(usageSnapshotValidator, v.null()),
+  }),
+  handler: async (ctx, args) => {
+    await assertCanViewUsage(ctx, args.organizationId, args.secret);
+    
+    const org = await ctx.db.get(args.organizationId);
+    if (!org) throw new Error("Organization not found");
+    
+    const plan = getPlan(org.plan);
+    const lastSnapshot = await ctx.db
+      .query("usageSnapshots")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .order("desc")
+      .first();
+    
+    return {
+      plan: org.plan || "standard",
+      seats: await countSeats(ctx, args.organizationId),
+      seatLimit: plan.seatLimit,
+      storageBytesLimit: plan.storageBytes,
+      pagesLimit: plan.pagesPerMonth,
+      lastSnapshot: lastSnapshot ? toUsageRow(lastSnapshot, org) : null,
+    };
+  },
+});
+
+// Change an organization's plan. Tenants enforce quotas and rate limits from
+// their own copy of the plan, so the change is pushed to the tenant as well.
+// Both writes are idempotent: if the push fails, run the change again.
+export const changePlan = action({
+  args: {
+    organizationId: v.id("organizations"),
+    plan: v.string(), // "standard" | "professional" | "enterprise"
+    secret: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireOperator(ctx, args.secret);
+    if (!isPlanName(args.plan)) throw new Error(`Invalid plan: ${args.plan}`);
+    
+    const { projectUrl } = await ctx.runMutation(internal.usage.setOrganizationPlan, {
+      organizationId: args.organizationId,
+      plan: args.plan,
+    });
+    
+    const client = new ConvexHttpClient(projectUrl);
+    await client.mutation(clientApi.usage.setPlan, {
+      plan: args.plan,
+      controlPlaneSecret: process.env.CONTROL_PLANE_SECRET!,
+    });
+    return null;
+  },
+});
+
+export const setOrganizationPlan = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    plan: v.string(),
+  },
+  returns: v.object({ projectUrl: v.string() }),
+  handler: async (ctx, args) => {
+    const org = await ctx.db.get(args.organizationId);
+    if (!org) throw new Error("Organization not found");
+    
+    // updatedAt also tells gateways to refresh their cached copy
+    await ctx.db.patch(args.organizationId, { plan: args.plan, updatedAt: Date.now() });
+    return { projectUrl: org.projectUrl };
+  },
+});
+
+// Organizations that are billed for the period
+export const listBillableOrganizations = internalQuery({
+  args: { period: v.string() },
+  returns: v.array(v.object({
+    organizationId: v.id("organizations"),
+    projectUrl: v.string(),
+    plan: v.string(),
+    seats: v.number(),
+    alreadySnapshotted: v.boolean(),
+  })),
+  handler: async (ctx, args) => {
+    const results = [];
+    
+    for (const status of ["active", "suspended", "offboarding"]) {
+      const orgs = await ctx.db
+        .query("organizations")
+        .withIndex("by_status", (q) => q.eq("deploymentStatus", status))
+        .collect();
+      
+      for (const org of orgs) {
+        const existing = await ctx.db
+          .query("usageSnapshots")
+          .withIndex("by_organization", (q) =>
+            q.eq("organizationId", org._id).eq("period", args.period)
+          )
+          .first();
+        
+        results.push({
+          organizationId: org._id,
+          projectUrl: org.projectUrl,
+          plan: org.plan || "standard",
+          seats: await countSeats(ctx, org._id),
+          alreadySnapshotted: existing !== null,
+        });
+      }
+    }
+    
+    return results;
+  },
+});
+
+export const recordUsageSnapshot = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    period: v.string(),
+    plan: v.string(),
+    seats: v.number(),
+    storageBytes: v.number(),
+    pagesProcessed: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const plan = getPlan(args.plan);
+    
+    await ctx.db.insert("usageSnapshots", {
+      ...args,
+      seatLimit: plan.seatLimit,
+      storageBytesLimit: plan.storageBytes,
+      pagesLimit: plan.pagesPerMonth,
+      createdAt: Date.now(),
+    });
+    
+    return null;
+  },
+});
+
+// Snapshot every billable organization for a period (defaults to last
+// month). Safe to re-run: organizations already snapshotted are skipped.
+export const snapshotUsage = internalAction({
+  args: { period: v.optional(v.string()) },
+  returns: v.object({
+    recorded: v.number(),
+    skipped: v.number(),
+    failed: v.array(v.id("organizations")),
+  }),
+  handler: async (ctx, args) => {
+    const period = args.period || previousUsagePeriod(Date.now());
+    const orgs = await ctx.runQuery(internal.usage.listBillableOrganizations, { period });
+    
+    let recorded = 0;
+    let skipped = 0;
+    const failed = [];
+    
+    for (const org of orgs) {
+      if (org.alreadySnapshotted) {
+        skipped++;
+        continue;
+      }
+      
+      try {
+        const client = new ConvexHttpClient(org.projectUrl);
+        const report = await client.query(clientApi.usage.getUsageReport, {
+          period,
+          controlPlaneSecret: process.env.CONTROL_PLANE_SECRET!,
+        });
+        
+        await ctx.runMutation(internal.usage.recordUsageSnapshot, {
+          organizationId: org.organizationId,
+          period,
+          plan: org.plan,
+          seats: org.seats,
+          storageBytes: report.storageBytes,
+          pagesProcessed: report.pagesProcessed,
+        });
+        recorded++;
+      } catch (error) {
+        console.error(`Usage snapshot failed for ${org.organizationId}:`, error);
+        failed.push(org.organizationId);
+      }
+    }
+    
+    return { recorded, skipped, failed };
+  },
+});
+
+// Billing export: every snapshot for a period (operators only)
+export const exportUsageSnapshots = query({
+  args: {
+    period: v.string(),
+    secret: v.optional(v.string()),
+  },
+  returns: v.array(usageSnapshotValidator),
+  handler: async (ctx, args) => {
+    await requireOperator(ctx, args.secret);
+    
+    const snapshots = await ctx.db
+      .query("usageSnapshots")
+      .withIndex("by_period", (q) => q.eq("period", args.period))
+      .collect();
+    
+    const results = [];
+    for (const snapshot of snapshots) {
+      const org = await ctx.db.get(snapshot.organizationId);
+      results.push(toUsageRow(snapshot, org));
+    }
+    
+    return results;
+  },
+});
+
+// ================================================
+// CONTROL PLANE SCHEDULED JOBS
+// ================================================
+// control-plane/convex/crons.ts
+
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Snapshot last month's usage shortly after the month rolls over
+crons.monthly(
+  "snapshot usage",
+  { day: 1, hourUTC: 0, minuteUTC: 30 },
+  internal.usage.snapshotUsage,
+  {}
+);
+
+export default crons;
+
+// ================================================
+// BILLING EXPORT SCRIPT
+// ================================================
+// scripts/export-usage.ts
+
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '../control-plane/convex/_generated/api';
+import { previousUsagePeriod } from '../client-template/convex/lib/plans';
+
+const CSV_COLUMNS = [
+  'domain',
+  'name',
+  'period',
+  'plan',
+  'seats',
+  'seatLimit',
+  'storageBytes',
+  'storageBytesLimit',
+  'pagesProcessed',
+  'pagesLimit',
+] as const;
+
+function csvValue(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Print a period's usage snapshots as CSV for the billing system
+export async function exportUsage(period = previousUsagePeriod(Date.now())) {
+  const controlPlane = new ConvexHttpClient(process.env.CONTROL_PLANE_URL!);
+  const snapshots = await controlPlane.query(api.usage.exportUsageSnapshots, {
+    period,
+    secret: process.env.CONTROL_PLANE_SECRET!,
+  });
+  
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...snapshots.map(s => CSV_COLUMNS.map(column => csvValue(s[column])).join(',')),
+  ];
+  
+  return lines.join('\n');
+}
+
+// Usage: npx tsx scripts/export-usage.ts [YYYY-MM]
+if (require.main === module) {
+  exportUsage(process.argv[2])
+    .then(csv => console.log(csv))
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}